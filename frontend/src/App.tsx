@@ -1,33 +1,138 @@
 import { useEffect, useMemo, useState } from "react";
-import { NavLink, useLocation } from "react-router-dom";
+import { NavLink, useLocation, useMatch, useNavigate } from "react-router-dom";
 import { openContractCall } from "@stacks/connect";
 import { AppConfig, UserSession } from "@stacks/connect";
-import { StacksMainnet, StacksTestnet } from "@stacks/network";
 import { Badge } from "./components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./components/ui/tabs";
+import {
+  assetDecimals,
+  formatAmount,
+  parseAmount,
+  parseAmountOrNull,
+  STX_DECIMALS,
+} from "./amounts";
+import { useChainTip } from "./chainTip";
+import { contractError } from "./errors";
+import {
+  ACCRUAL_DECIMALS,
+  apyBps,
+  aprBps,
+  BLOCKS_PER_YEAR,
+  bpsToPercent,
+  checkpointSchedule,
+  installmentPlan,
+  interestOf,
+  loanAprBps,
+  perBlockAccrual,
+  repayForApr,
+} from "./finance";
+import {
+  ASSET_SIDES,
+  filtersFromSearch,
+  loanIdFromParam,
+  loansPath,
+  matchesAssetFilter,
+  PAGE_SIZES,
+  parseAssetFilter,
+  type ExplorerFilters,
+} from "./loanLinks";
+import {
+  assetKey,
+  collateralForUsdRatio,
+  createFilePriceSource,
+  createOraclePriceSource,
+  loanHealth,
+  RISK_LABELS,
+  riskLevel,
+  type LoanHealth,
+  type PricedAsset,
+  type Prices,
+} from "./prices";
+import {
+  explorerTxUrl,
+  loadNetworkName,
+  NETWORK_NAMES,
+  NETWORK_PROFILES,
+  PRICE_FILE_URL,
+  profileConfig,
+  saveNetworkName,
+  stacksNetwork,
+  type NetworkName,
+} from "./networks";
+import {
+  balanceCheck,
+  createChecks,
+  loanChecks,
+  requiredAssets,
+  type AssetNeed,
+  type PreflightCheck,
+} from "./preflight";
 import { useWallet } from "./wallet";
 import {
+  acceptExtensionArgs,
+  acceptOfferArgs,
   callReadOnly,
+  cancelOfferArgs,
+  contractId,
+  createdLoanIdFromTx,
+  decodeTransactionResult,
+  buyPositionArgs,
   createLoanArgs,
-  loanIdArg,
+  extensionArgs,
+  fetchAllowedAssets,
+  fetchBorrowerLoanIds,
+  fetchContractOwner,
+  fetchPriceOracle,
+  fetchExtensionHistory,
+  fetchExtensionProposal,
+  fetchLenderLoanIds,
+  fetchIndexedLoans,
+  fetchIndexedLoanTimeline,
+  fetchLoanCount,
+  fetchLoans,
+  fetchLoanTimeline,
+  fetchOfferCount,
+  fetchOffers,
+  fetchPositionListings,
+  fetchStxBalance,
+  fetchTokenBalance,
+  fetchTokenMeta,
+  loanActionArgs,
+  loanIdRange,
+  listPositionArgs,
+  loanPostConditions,
+  OFFER_STATUS,
+  offerMinCollateral,
+  offerPostConditions,
+  offerRepayAmount,
+  positionPostConditions,
+  postOfferArgs,
+  principalArg,
+  proposeExtensionArgs,
+  timelineAmounts,
+  transferPositionArgs,
   STATUS,
   type ContractConfig,
+  type ExtensionAction,
+  type ExtensionProposal,
+  type ExtensionRecord,
   type Loan,
+  type LoanAction,
+  type LoanEventType,
+  type LoanTimeline,
+  type Offer,
+  type PositionAction,
+  type PositionListing,
+  type TokenMeta,
+  waitForTransaction,
 } from "./stacks";
-import { uintCV } from "@stacks/transactions";
+import { PostConditionMode, uintCV, type PostCondition } from "@stacks/transactions";
 
 const userSession = new UserSession({
   appConfig: new AppConfig(["store_write", "publish_data"]),
 });
 
-const defaultConfig: ContractConfig = {
-  address: "",
-  name: "p2p-lending",
-  apiUrl: "https://api.testnet.hiro.so",
-  readOnlySender: "",
-};
-
 const logLine = (message: string, current: string[]) => [
   `${new Date().toLocaleTimeString()} ${message}`,
   ...current,
@@ -39,38 +144,40 @@ const STATUS_LABELS: Record<string, string> = {
   [STATUS.REPAID.toString()]: "Repaid",
   [STATUS.DEFAULTED.toString()]: "Defaulted",
   [STATUS.CANCELLED.toString()]: "Cancelled",
+  [STATUS.EXPIRED.toString()]: "Expired",
 };
 
-const BLOCKS_PER_YEAR = 52560;
+const EVENT_LABELS: Record<LoanEventType, string> = {
+  "create-loan": "Created",
+  "fund-loan": "Funded",
+  repay: "Repayment",
+  "cancel-loan": "Cancelled",
+  "expire-loan": "Expired",
+  "claim-default": "Collateral claimed",
+  liquidate: "Liquidated",
+  "propose-extension": "Extension proposed",
+  "reject-extension": "Extension rejected",
+  "extend-loan": "Extended",
+  "transfer-position": "Position transferred",
+};
+
+const OFFER_STATUS_LABELS: Record<string, string> = {
+  [OFFER_STATUS.OPEN.toString()]: "Open",
+  [OFFER_STATUS.TAKEN.toString()]: "Taken",
+  [OFFER_STATUS.CANCELLED.toString()]: "Cancelled",
+};
+
+// Preset values are basis points.
 const APR_PRESETS = [
-  { label: "6% APR", value: 6 },
-  { label: "10% APR", value: 10 },
-  { label: "15% APR", value: 15 },
-  { label: "25% APR", value: 25 },
+  { label: "6% APR", value: 600 },
+  { label: "10% APR", value: 1_000 },
+  { label: "15% APR", value: 1_500 },
+  { label: "25% APR", value: 2_500 },
 ];
 const COLLATERAL_PRESETS = [
-  { label: "120% collateral", value: 1.2 },
-  { label: "150% collateral", value: 1.5 },
-  { label: "200% collateral", value: 2 },
-];
-const LOAN_INDEX_STORAGE_KEY = "stacks-lend:indexed-loans";
-
-type TokenMeta = {
-  id: string;
-  symbol: string;
-  name: string;
-  contract: string;
-  decimals: number;
-};
-
-const DEFAULT_TOKENS: TokenMeta[] = [
-  {
-    id: "sbtc",
-    symbol: "sBTC",
-    name: "sBTC",
-    contract: "SP000000000000000000002Q6VF78.sbtc-token",
-    decimals: 8,
-  },
+  { label: "120% collateral", value: 12_000 },
+  { label: "150% collateral", value: 15_000 },
+  { label: "200% collateral", value: 20_000 },
 ];
 
 type LoanSnapshot = {
@@ -78,13 +185,20 @@ type LoanSnapshot = {
   principal: string;
   collateral: string;
   repay: string;
+  remaining: string;
   duration: string;
   status: bigint;
   borrower: string;
   lender?: string | null;
   endBlock: number;
+  expiryBlock?: number;
+  gracePeriod: number;
+  lateFeePerBlock: bigint;
+  liquidationRatio?: number;
   principalIsStx: boolean;
+  principalToken?: string;
   collateralIsStx: boolean;
+  collateralToken?: string;
 };
 
 type ToastItem = {
@@ -96,22 +210,85 @@ type ToastItem = {
 
 type CsvRow = Record<string, string | number>;
 
-const formatLoan = (
-  loanId: number,
-  loan: Loan,
-  tokenLabel: string
-): LoanSnapshot => ({
+type PreflightReport = {
+  action: string;
+  checks: PreflightCheck[];
+  submitAnyway: () => void;
+};
+
+type TrackedTransaction = {
+  txId: string;
+  action: string;
+  loanId?: number;
+  network: NetworkName;
+  // "unknown" when polling gave up before the transaction confirmed.
+  status: "pending" | "success" | "failed" | "unknown";
+  message?: string;
+  submittedAt: number;
+};
+
+const tokenSymbol = (tokens: TokenMeta[], contract?: string) => {
+  if (!contract) return "STX";
+  return tokens.find((token) => token.contract === contract)?.symbol ?? contract.split(".")[1];
+};
+
+// Falls back to base units while a token's decimals are not loaded yet.
+const assetAmount = (tokens: TokenMeta[], amount: bigint, token?: string) => {
+  const symbol = tokenSymbol(tokens, token);
+  const decimals = assetDecimals(tokens, token);
+  return decimals === undefined
+    ? `${amount} ${symbol}`
+    : formatAmount(amount, decimals, { symbol });
+};
+
+// Form fields are typed in whole tokens; a token's field stays invalid until its
+// decimals load, so an amount is never read at the wrong scale.
+const parseAssetField = (tokens: TokenMeta[], label: string, input: string, token?: string) => {
+  const symbol = tokenSymbol(tokens, token);
+  const decimals = assetDecimals(tokens, token);
+  if (decimals === undefined) {
+    return { units: null, error: `${label}: ${symbol} decimals are not loaded yet.` };
+  }
+  try {
+    return { units: parseAmount(input, decimals, symbol), error: undefined };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "invalid amount";
+    return { units: null, error: `${label}: ${message}` };
+  }
+};
+
+// Seeds an editable field, left empty while the token's decimals are unknown.
+const fieldAmount = (tokens: TokenMeta[], amount: bigint, token?: string) => {
+  const decimals = assetDecimals(tokens, token);
+  return decimals === undefined ? "" : formatAmount(amount, decimals, { grouping: false });
+};
+
+const csvAmount = (tokens: TokenMeta[], amount: bigint, token?: string) => {
+  const decimals = assetDecimals(tokens, token);
+  return decimals === undefined
+    ? amount.toString()
+    : formatAmount(amount, decimals, { grouping: false });
+};
+
+const formatLoan = (loanId: number, loan: Loan, tokens: TokenMeta[]): LoanSnapshot => ({
   id: loanId,
-  principal: `${loan.principal_is_stx ? "STX" : tokenLabel} ${loan.principal_amount}`,
-  collateral: `${loan.collateral_is_stx ? "STX" : tokenLabel} ${loan.collateral_amount}`,
-  repay: `${loan.repay_amount}`,
+  principal: assetAmount(tokens, loan.principal_amount, loan.principal_token),
+  collateral: assetAmount(tokens, loan.collateral_amount, loan.collateral_token),
+  repay: assetAmount(tokens, loan.repay_amount, loan.principal_token),
+  remaining: assetAmount(tokens, loan.repay_amount - loan.amount_repaid, loan.principal_token),
   duration: `${loan.end_block}`,
   status: loan.status,
   borrower: loan.borrower,
   lender: loan.lender ?? null,
   endBlock: Number(loan.end_block),
+  expiryBlock: loan.expiry_block !== undefined ? Number(loan.expiry_block) : undefined,
+  gracePeriod: Number(loan.grace_period),
+  lateFeePerBlock: loan.late_fee_per_block,
+  liquidationRatio: loan.liquidation_ratio ? Number(loan.liquidation_ratio) : undefined,
   principalIsStx: loan.principal_is_stx,
+  principalToken: loan.principal_token,
   collateralIsStx: loan.collateral_is_stx,
+  collateralToken: loan.collateral_token,
 });
 
 const formatAddress = (value?: string | null) => {
@@ -121,39 +298,11 @@ const formatAddress = (value?: string | null) => {
 
 const normalizeAddress = (value?: string | null) => value?.toLowerCase() ?? "";
 
-const calculateApr = (loanSource: Loan) => {
-  const principal = Number(loanSource.principal_amount);
-  const repay = Number(loanSource.repay_amount);
-  const startBlock = Number(loanSource.start_block);
-  const endBlock = Number(loanSource.end_block);
-  const duration = endBlock - startBlock;
-  if (!principal || duration <= 0 || repay <= principal) return 0;
-  const interest = (repay - principal) / principal;
-  return (interest * (BLOCKS_PER_YEAR / duration)) * 100;
-};
-
-const calcRepayFromApr = (principal: number, apr: number, duration: number) => {
-  if (!principal || !apr || !duration) return principal;
-  const interest = (apr / 100) * (duration / BLOCKS_PER_YEAR);
-  return Math.max(0, Math.round(principal * (1 + interest)));
-};
-
-const calcCollateralFromRatio = (principal: number, ratio: number) => {
-  if (!principal || !ratio) return principal;
-  return Math.max(0, Math.round(principal * ratio));
-};
+const loanApr = (loanSource: Loan) => bpsToPercent(loanAprBps(loanSource));
 
-const loadIndexedLoanIds = () => {
-  try {
-    const stored = localStorage.getItem(LOAN_INDEX_STORAGE_KEY);
-    if (!stored) return [];
-    const parsed = JSON.parse(stored);
-    if (!Array.isArray(parsed)) return [];
-    return parsed.filter((id) => typeof id === "number" && id > 0);
-  } catch {
-    return [];
-  }
-};
+// Whole blocks from a number input, or null when it is not at least one block.
+const wholeBlocks = (value: number) =>
+  Number.isFinite(value) && value >= 1 ? BigInt(Math.floor(value)) : null;
 
 const toCsv = (rows: CsvRow[]) => {
   if (!rows.length) return "";
@@ -185,136 +334,230 @@ const downloadCsv = (filename: string, rows: CsvRow[]) => {
   URL.revokeObjectURL(url);
 };
 
-const callContract = async (
+const callContract = (
   config: ContractConfig,
   functionName: string,
-  args: ReturnType<typeof loanIdArg>
+  args: ReturnType<typeof loanActionArgs>,
+  postConditions: PostCondition[]
 ) => {
-  const network = config.apiUrl.includes("mainnet")
-    ? new StacksMainnet()
-    : new StacksTestnet();
-  network.coreApiUrl = config.apiUrl;
-  await openContractCall({
-    contractAddress: config.address,
-    contractName: config.name,
-    functionName,
-    functionArgs: args,
-    userSession,
-    network,
-    postConditionMode: 1,
+  const network = stacksNetwork(config);
+  return new Promise<string>((resolve, reject) => {
+    openContractCall({
+      contractAddress: config.address,
+      contractName: config.name,
+      functionName,
+      functionArgs: args,
+      userSession,
+      network,
+      postConditionMode: PostConditionMode.Deny,
+      postConditions,
+      onFinish: (payload) => resolve(payload.txId),
+      onCancel: () => reject(new Error("Transaction cancelled in wallet.")),
+    });
   });
 };
 
-const callCreate = async (config: ContractConfig, data: Parameters<typeof createLoanArgs>[0]) => {
-  const network = config.apiUrl.includes("mainnet")
-    ? new StacksMainnet()
-    : new StacksTestnet();
-  network.coreApiUrl = config.apiUrl;
-  await openContractCall({
-    contractAddress: config.address,
-    contractName: config.name,
-    functionName: "create-loan",
-    functionArgs: createLoanArgs(data),
-    userSession,
-    network,
-    postConditionMode: 1,
-  });
+const TRANSACTIONS_KEY = "stacks-lend:transactions";
+
+const TX_STATUS_CLASSES: Record<TrackedTransaction["status"], string> = {
+  pending: "border-amber-500/40 bg-amber-900/40 text-amber-200",
+  success: "border-emerald-500/40 bg-emerald-900/40 text-emerald-200",
+  failed: "border-rose-500/40 bg-rose-900/40 text-rose-200",
+  unknown: "border-slate-600 bg-slate-800 text-slate-300",
+};
+
+const loadTransactions = (): TrackedTransaction[] => {
+  try {
+    // Entries saved before the network was recorded belong to the last selected one.
+    const network = loadNetworkName();
+    return (
+      JSON.parse(localStorage.getItem(TRANSACTIONS_KEY) ?? "[]") as TrackedTransaction[]
+    ).map((entry) => ({ ...entry, network: entry.network ?? network }));
+  } catch {
+    return [];
+  }
 };
 
 export default function App() {
   const { address, isConnected, connect, isConnecting, chainId } = useWallet();
   const location = useLocation();
-  const [config, setConfig] = useState(defaultConfig);
-  const [currentBlock, setCurrentBlock] = useState(0);
+  const navigate = useNavigate();
+  const loanMatch = useMatch("/loans/:loanId");
+  const linkedLoanId = loanIdFromParam(loanMatch?.params.loanId);
+  const linkedFilters = useMemo(() => filtersFromSearch(location.search), [location.search]);
+  const [networkName, setNetworkName] = useState(loadNetworkName);
+  const profile = NETWORK_PROFILES[networkName];
+  const [config, setConfig] = useState(() => profileConfig(profile));
+  const chainTip = useChainTip(config);
+  const currentBlock = chainTip.stacksHeight;
   const [reminderWindow, setReminderWindow] = useState(50);
   const [logs, setLogs] = useState<string[]>([
     `${new Date().toLocaleTimeString()} Ready. Connect a wallet to get started.`,
   ]);
-  const [tokens, setTokens] = useState<TokenMeta[]>(DEFAULT_TOKENS);
-  const [defaultTokenId, setDefaultTokenId] = useState(DEFAULT_TOKENS[0]?.id ?? "");
-  const [selectedPrincipalTokenId, setSelectedPrincipalTokenId] = useState(
-    DEFAULT_TOKENS[0]?.id ?? ""
-  );
-  const [selectedCollateralTokenId, setSelectedCollateralTokenId] = useState(
-    DEFAULT_TOKENS[0]?.id ?? ""
-  );
-  const [tokenDraft, setTokenDraft] = useState({
-    symbol: "",
-    name: "",
-    contract: "",
-    decimals: 8,
-  });
-  const [indexedLoanIds, setIndexedLoanIds] = useState<number[]>(() =>
-    loadIndexedLoanIds()
-  );
-  const [indexerInput, setIndexerInput] = useState("");
-  const [indexerImport, setIndexerImport] = useState("");
-  const [indexerAddScan, setIndexerAddScan] = useState(true);
+  const [tokens, setTokens] = useState<TokenMeta[]>([]);
+  const [prices, setPrices] = useState<Prices>({});
+  const [contractOwner, setContractOwner] = useState("");
+  const [contractOracle, setContractOracle] = useState<string>();
+  const [assetDraft, setAssetDraft] = useState("");
+  const [selectedPrincipalTokenId, setSelectedPrincipalTokenId] = useState("");
+  const [selectedCollateralTokenId, setSelectedCollateralTokenId] = useState("");
+  const [loanCount, setLoanCount] = useState<number | null>(null);
+  const [borrowerLoanIds, setBorrowerLoanIds] = useState<number[]>([]);
+  const [lenderLoanIds, setLenderLoanIds] = useState<number[]>([]);
+  const [accountLoanIds, setAccountLoanIds] = useState<number[]>([]);
   const [calcInput, setCalcInput] = useState({
-    principal: 1000,
-    repay: 1100,
+    token: "",
+    principal: "1000",
+    repay: "1100",
+    repaid: "0",
     duration: 144,
     blocksPerYear: BLOCKS_PER_YEAR,
+    installments: 4,
+    gracePeriod: 0,
+    lateFeePerBlock: "0",
   });
   const [createForm, setCreateForm] = useState({
-    loanId: 1,
     duration: 144,
-    repayAmount: 1100,
-    principalAmount: 1000,
-    collateralAmount: 500000,
+    repayAmount: "1100",
+    principalAmount: "1000",
+    collateralAmount: "1500",
     principalIsStx: false,
     collateralIsStx: true,
+    expiryBlock: 0,
+    gracePeriod: 0,
+    lateFeePerBlock: "0",
+    liquidationRatio: 0,
   });
   const [aprPreset, setAprPreset] = useState(APR_PRESETS[1].value);
   const [collateralPreset, setCollateralPreset] = useState(COLLATERAL_PRESETS[1].value);
   const [autoApplyPresets, setAutoApplyPresets] = useState(true);
   const [manageLoanId, setManageLoanId] = useState(1);
-  const [scanRange, setScanRange] = useState({ start: 1, end: 5 });
-  const [scannedLoans, setScannedLoans] = useState<LoanSnapshot[]>([]);
+  const [installmentAmount, setInstallmentAmount] = useState("");
+  const [offerCount, setOfferCount] = useState<number | null>(null);
+  const [offers, setOffers] = useState<Record<number, Offer>>({});
+  const [selectedOfferId, setSelectedOfferId] = useState<number | null>(null);
+  const [acceptTerms, setAcceptTerms] = useState({ duration: 144, collateralAmount: "" });
+  const [positionListings, setPositionListings] = useState<Record<number, PositionListing>>({});
+  const [positionForm, setPositionForm] = useState({
+    loanId: 1,
+    price: "0",
+    buyer: "",
+    recipient: "",
+  });
+  const [offerForm, setOfferForm] = useState({
+    principalToken: "stx",
+    principalAmount: "1000",
+    collateralToken: "",
+    minCollateralPct: 150,
+    ratePct: 10,
+    maxDuration: 1440,
+    expiresIn: 1008,
+  });
+  const [scannedLoanIds, setScannedLoanIds] = useState<number[]>([]);
   const [loanSources, setLoanSources] = useState<Record<number, Loan>>({});
-  const [statusFilter, setStatusFilter] = useState("open");
-  const [assetFilter, setAssetFilter] = useState("all");
-  const [aprFilter, setAprFilter] = useState({ min: "", max: "" });
-  const [durationFilter, setDurationFilter] = useState({ min: "", max: "" });
-  const [page, setPage] = useState(1);
-  const [pageSize, setPageSize] = useState(6);
-  const [selectedLoanId, setSelectedLoanId] = useState<number | null>(null);
+  const [statusFilter, setStatusFilter] = useState(linkedFilters.status);
+  const [assetFilter, setAssetFilter] = useState(linkedFilters.asset);
+  const [riskFilter, setRiskFilter] = useState(linkedFilters.risk);
+  const [aprFilter, setAprFilter] = useState(linkedFilters.apr);
+  const [durationFilter, setDurationFilter] = useState(linkedFilters.duration);
+  const [page, setPage] = useState(linkedFilters.page);
+  const [pageSize, setPageSize] = useState(linkedFilters.pageSize);
+  const [selectedLoanId, setSelectedLoanId] = useState<number | null>(linkedLoanId);
+  const [extensionProposal, setExtensionProposal] = useState<ExtensionProposal | null>(null);
+  const [extensionHistory, setExtensionHistory] = useState<ExtensionRecord[]>([]);
+  const [extensionDraft, setExtensionDraft] = useState({ endBlock: 0, repayAmount: "" });
+  const [timelines, setTimelines] = useState<
+    Record<number, LoanTimeline & { loading: boolean }>
+  >({});
   const [lastActionAt, setLastActionAt] = useState(0);
+  const [preflight, setPreflight] = useState<PreflightReport | null>(null);
   const [cooldownMs, setCooldownMs] = useState(2000);
   const [toasts, setToasts] = useState<ToastItem[]>([]);
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(loadTransactions);
   const [showDiagnostics, setShowDiagnostics] = useState(import.meta.env.DEV);
   const [diagLoanId, setDiagLoanId] = useState(1);
   const [diagResult, setDiagResult] = useState<string>("");
 
-  const defaultToken = useMemo(
-    () => tokens.find((token) => token.id === defaultTokenId) ?? tokens[0],
-    [defaultTokenId, tokens]
-  );
-
   const selectedPrincipalToken = useMemo(
-    () => tokens.find((token) => token.id === selectedPrincipalTokenId) ?? defaultToken,
-    [defaultToken, selectedPrincipalTokenId, tokens]
+    () => tokens.find((token) => token.contract === selectedPrincipalTokenId) ?? tokens[0],
+    [selectedPrincipalTokenId, tokens]
   );
 
   const selectedCollateralToken = useMemo(
-    () => tokens.find((token) => token.id === selectedCollateralTokenId) ?? defaultToken,
-    [defaultToken, selectedCollateralTokenId, tokens]
+    () => tokens.find((token) => token.contract === selectedCollateralTokenId) ?? tokens[0],
+    [selectedCollateralTokenId, tokens]
   );
 
-  const createErrors = useMemo(() => {
+  const isContractOwner =
+    Boolean(address) && normalizeAddress(address) === normalizeAddress(contractOwner);
+
+  const tokenAsset = (token?: TokenMeta) => ({
+    symbol: token?.symbol,
+    decimals: token?.decimals ?? 0,
+  });
+  const createAssets = {
+    principal: createForm.principalIsStx
+      ? { symbol: "STX", decimals: STX_DECIMALS }
+      : tokenAsset(selectedPrincipalToken),
+    collateral: createForm.collateralIsStx
+      ? { symbol: "STX", decimals: STX_DECIMALS }
+      : tokenAsset(selectedCollateralToken),
+  };
+
+  const createAmounts = useMemo(() => {
     const errors: string[] = [];
-    if (createForm.loanId <= 0) errors.push("Loan ID must be greater than zero.");
+    const parse = (label: string, input: string, side: keyof typeof createAssets) => {
+      try {
+        return parseAmount(input, createAssets[side].decimals, createAssets[side].symbol);
+      } catch (error) {
+        errors.push(`${label}: ${error instanceof Error ? error.message : "invalid amount"}`);
+        return null;
+      }
+    };
+    const principal = parse("Principal", createForm.principalAmount, "principal");
+    const repay = parse("Repay amount", createForm.repayAmount, "principal");
+    const collateral = parse("Collateral", createForm.collateralAmount, "collateral");
+    const lateFeePerBlock = parse("Late fee", createForm.lateFeePerBlock, "principal");
+    return {
+      errors,
+      units:
+        principal !== null && repay !== null && collateral !== null && lateFeePerBlock !== null
+          ? { principal, repay, collateral, lateFeePerBlock }
+          : null,
+    };
+  }, [createForm, selectedCollateralToken, selectedPrincipalToken]);
+
+  const createErrors = useMemo(() => {
+    const errors = [...createAmounts.errors];
+    const units = createAmounts.units;
     if (createForm.duration <= 0) errors.push("Duration must be greater than zero.");
-    if (createForm.principalAmount <= 0) errors.push("Principal must be greater than zero.");
-    if (createForm.collateralAmount <= 0) errors.push("Collateral must be greater than zero.");
-    if (createForm.repayAmount < createForm.principalAmount) {
+    if (units && units.principal <= 0n) errors.push("Principal must be greater than zero.");
+    if (units && units.collateral <= 0n) errors.push("Collateral must be greater than zero.");
+    if (units && units.repay < units.principal) {
       errors.push("Repay amount must be >= principal.");
     }
-    if (createForm.principalIsStx === createForm.collateralIsStx) {
+    if (createForm.expiryBlock < 0) errors.push("Expiry block cannot be negative.");
+    if (createForm.gracePeriod < 0) errors.push("Grace period cannot be negative.");
+    if (createForm.liquidationRatio < 0) errors.push("Liquidation ratio cannot be negative.");
+    if (createForm.expiryBlock > 0 && currentBlock && createForm.expiryBlock <= currentBlock) {
+      errors.push("Expiry block must be after the current block.");
+    }
+    const principalAsset = createForm.principalIsStx ? "stx" : selectedPrincipalToken?.contract;
+    const collateralAsset = createForm.collateralIsStx ? "stx" : selectedCollateralToken?.contract;
+    if (principalAsset === collateralAsset) {
       errors.push("Principal and collateral must be different assets.");
     }
     return errors;
-  }, [createForm]);
+  }, [createAmounts, createForm, currentBlock, selectedCollateralToken, selectedPrincipalToken]);
+
+  const manageLoan = loanSources[manageLoanId];
+  const installment = useMemo(
+    () =>
+      manageLoan
+        ? parseAssetField(tokens, "Installment", installmentAmount, manageLoan.principal_token)
+        : { units: null, error: `Installment: load loan #${manageLoanId} first.` },
+    [installmentAmount, manageLoan, manageLoanId, tokens]
+  );
 
   const manageErrors = useMemo(() => {
     const errors: string[] = [];
@@ -322,26 +565,94 @@ export default function App() {
     return errors;
   }, [manageLoanId]);
 
-  const scanErrors = useMemo(() => {
+  const selectedOffer = selectedOfferId !== null ? offers[selectedOfferId] : undefined;
+
+  const offerPrincipalToken =
+    offerForm.principalToken === "stx" ? undefined : offerForm.principalToken;
+  const offerPrincipal = useMemo(
+    () => parseAssetField(tokens, "Principal", offerForm.principalAmount, offerPrincipalToken),
+    [offerForm.principalAmount, offerPrincipalToken, tokens]
+  );
+
+  const offerErrors = useMemo(() => {
+    const errors: string[] = [];
+    if (offerPrincipal.error) errors.push(offerPrincipal.error);
+    if (offerPrincipal.units !== null && offerPrincipal.units <= 0n) {
+      errors.push("Principal must be greater than zero.");
+    }
+    if (offerForm.minCollateralPct <= 0) errors.push("Minimum collateral must be above zero.");
+    if (offerForm.ratePct < 0) errors.push("Rate cannot be negative.");
+    if (offerForm.maxDuration <= 0) errors.push("Max duration must be greater than zero.");
+    if (offerForm.expiresIn <= 0) errors.push("Expiry must be greater than zero.");
+    if (!offerForm.collateralToken) errors.push("Choose a collateral asset.");
+    if (offerForm.principalToken === offerForm.collateralToken) {
+      errors.push("Principal and collateral must be different assets.");
+    }
+    return errors;
+  }, [offerForm, offerPrincipal]);
+
+  const positionLoan = loanSources[positionForm.loanId];
+  const positionPrice = useMemo(
+    () =>
+      positionLoan
+        ? parseAssetField(tokens, "Price", positionForm.price, positionLoan.principal_token)
+        : { units: null, error: `Price: load loan #${positionForm.loanId} first.` },
+    [positionForm.loanId, positionForm.price, positionLoan, tokens]
+  );
+
+  const positionErrors = useMemo(() => {
+    const errors: string[] = [];
+    if (positionForm.loanId <= 0) errors.push("Loan ID must be greater than zero.");
+    if (positionPrice.error) errors.push(positionPrice.error);
+    if (positionForm.buyer && !/^S[A-Z0-9]{38,40}$/.test(positionForm.buyer)) {
+      errors.push("Reserved buyer must be a standard principal.");
+    }
+    return errors;
+  }, [positionForm, positionPrice]);
+
+  const acceptCollateral = useMemo(
+    () =>
+      parseAssetField(
+        tokens,
+        "Collateral",
+        acceptTerms.collateralAmount,
+        selectedOffer?.collateral_token
+      ),
+    [acceptTerms.collateralAmount, selectedOffer, tokens]
+  );
+
+  const acceptErrors = useMemo(() => {
     const errors: string[] = [];
-    if (scanRange.start <= 0 || scanRange.end <= 0) {
-      errors.push("Scan IDs must be greater than zero.");
+    if (!selectedOffer) return errors;
+    if (acceptTerms.duration <= 0 || acceptTerms.duration > Number(selectedOffer.max_duration)) {
+      errors.push(`Duration must be between 1 and ${selectedOffer.max_duration} blocks.`);
     }
-    if (scanRange.start > scanRange.end) {
-      errors.push("Start ID must be <= End ID.");
+    const minimum = offerMinCollateral(selectedOffer);
+    if (acceptCollateral.error) errors.push(acceptCollateral.error);
+    if (acceptCollateral.units !== null && acceptCollateral.units < minimum) {
+      const amount = assetAmount(tokens, minimum, selectedOffer.collateral_token);
+      errors.push(`Collateral must be at least ${amount}.`);
     }
     return errors;
-  }, [scanRange]);
+  }, [acceptCollateral, acceptTerms, selectedOffer, tokens]);
 
   const isCooldownActive = Date.now() - lastActionAt < cooldownMs;
 
+  const chainTipLabel = currentBlock
+    ? `Block ${currentBlock} · burn ${chainTip.burnHeight}${chainTip.stale ? " (stale)" : ""}`
+    : chainTip.error
+      ? "Chain tip unavailable"
+      : "Syncing chain tip";
+
+  const chainTipBadgeClass = chainTip.stale
+    ? "border-amber-500/40 bg-amber-900/40 text-amber-200"
+    : "border-slate-700 bg-slate-900";
+
   const isDashboard = location.pathname === "/";
-  const isLoans = location.pathname === "/loans";
+  const isLoans = location.pathname === "/loans" || loanMatch !== null;
   const isAdmin = location.pathname === "/admin";
 
-  const expectedChainId = config.apiUrl.includes("mainnet")
-    ? "stacks:mainnet"
-    : "stacks:testnet";
+  const expectedChainId = profile.chainId;
   const hasChainMismatch = Boolean(chainId && chainId !== expectedChainId);
 
   const pushToast = (title: string, message: string, tone: ToastItem["tone"]) => {
@@ -352,41 +663,54 @@ export default function App() {
     }, 6000);
   };
 
+  const calcAsset = {
+    symbol: tokenSymbol(tokens, calcInput.token || undefined),
+    decimals: assetDecimals(tokens, calcInput.token || undefined) ?? 0,
+  };
+
+  const formatCalcAmount = (units: bigint) =>
+    formatAmount(units, calcAsset.decimals, { symbol: calcAsset.symbol });
+
+  // Amounts are parsed to base units of the calculator's asset before any math.
   const repaymentSummary = useMemo(() => {
-    const principal = calcInput.principal;
-    const repay = calcInput.repay;
-    const duration = calcInput.duration;
-    const blocksPerYear = calcInput.blocksPerYear || BLOCKS_PER_YEAR;
+    const parse = (input: string) => parseAmountOrNull(input, calcAsset.decimals, calcAsset.symbol);
+    const principal = parse(calcInput.principal) ?? 0n;
+    const repay = parse(calcInput.repay) ?? 0n;
+    const repaid = parse(calcInput.repaid) ?? 0n;
+    const lateFeePerBlock = parse(calcInput.lateFeePerBlock) ?? 0n;
+    const duration = wholeBlocks(calcInput.duration);
+    const blocksPerYear = wholeBlocks(calcInput.blocksPerYear) ?? BigInt(BLOCKS_PER_YEAR);
     if (!principal || !repay || !duration) {
       return null;
     }
-    const interest = Math.max(0, repay - principal);
-    const interestRate = interest / principal;
-    const apr = (interestRate * (blocksPerYear / duration)) * 100;
-    const perBlock = interest / duration;
-    const checkpoints = [0.25, 0.5, 0.75, 1].map((ratio) => {
-      const block = Math.round(duration * ratio);
-      const accrued = Math.round(perBlock * block);
-      return {
-        label: `${Math.round(ratio * 100)}%`,
-        block,
-        accrued,
-        totalDue: principal + accrued,
-      };
-    });
+    const apr = aprBps(principal, repay, duration, blocksPerYear);
+    const checkpoints = checkpointSchedule(principal, repay, duration).map((point) => ({
+      ...point,
+      label: `${bpsToPercent(point.bps)}%`,
+    }));
+    const balance = repay > repaid ? repay - repaid : 0n;
+    const count = wholeBlocks(calcInput.installments) ?? 1n;
+    const gracePeriod = wholeBlocks(calcInput.gracePeriod) ?? 0n;
+    const maxLateFee = gracePeriod * lateFeePerBlock;
 
     return {
-      interest,
+      interest: interestOf(principal, repay),
       apr,
-      perBlock,
+      apy: apyBps(apr, duration, blocksPerYear),
+      perBlock: perBlockAccrual(principal, repay, duration),
       totalDue: repay,
+      balance,
       checkpoints,
+      installmentPlan: installmentPlan(balance, count, duration),
+      grace: {
+        blocks: gracePeriod,
+        feePerBlock: lateFeePerBlock,
+        maxLateFee,
+        lastRepayBlock: duration + gracePeriod,
+        maxTotalDue: balance + maxLateFee,
+      },
     };
-  }, [calcInput]);
-
-  useEffect(() => {
-    localStorage.setItem(LOAN_INDEX_STORAGE_KEY, JSON.stringify(indexedLoanIds));
-  }, [indexedLoanIds]);
+  }, [calcInput, tokens]);
 
   const canRead = useMemo(
     () =>
@@ -397,23 +721,84 @@ export default function App() {
     [config]
   );
 
+  const priceSource = useMemo(() => {
+    const oracle = contractOracle || profile.priceOracle;
+    return oracle ? createOraclePriceSource(config, oracle) : createFilePriceSource(PRICE_FILE_URL);
+  }, [config, contractOracle, profile]);
+
+  const createTokens = {
+    principal: createForm.principalIsStx ? undefined : selectedPrincipalToken?.contract,
+    collateral: createForm.collateralIsStx ? undefined : selectedCollateralToken?.contract,
+  };
+
+  const pricedAssets = useMemo(() => {
+    const assets = new Map<string, PricedAsset>([["STX", { symbol: "STX" }]]);
+    const used = Object.values(loanSources).flatMap((loan) => [
+      loan.principal_is_stx ? undefined : loan.principal_token,
+      loan.collateral_is_stx ? undefined : loan.collateral_token,
+    ]);
+    [...used, createTokens.principal, createTokens.collateral].forEach((token) => {
+      if (token) assets.set(token, { token, symbol: tokenSymbol(tokens, token) });
+    });
+    return [...assets.values()];
+  }, [createTokens.collateral, createTokens.principal, loanSources, tokens]);
+
+  const pricedAssetKey = pricedAssets.map((asset) => asset.token ?? asset.symbol).join(",");
+
+  const refreshPrices = async () => {
+    try {
+      setPrices(await priceSource.fetchPrices(pricedAssets));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`Price lookup failed (${priceSource.name}): ${message}`, current));
+    }
+  };
+
+  useEffect(() => {
+    void refreshPrices();
+  }, [priceSource, pricedAssetKey]);
+
+  const createPrices = {
+    principal: prices[assetKey(createTokens.principal)],
+    collateral: prices[assetKey(createTokens.collateral)],
+  };
+  const collateralPresetReady =
+    createPrices.principal !== undefined && createPrices.collateral !== undefined;
+
+  const loanHealthById = useMemo(() => {
+    const decimals = (token?: string) => assetDecimals(tokens, token);
+    return Object.fromEntries(
+      Object.entries(loanSources).map(([id, loan]) => [
+        Number(id),
+        loanHealth(loan, prices, decimals),
+      ])
+    ) as Record<number, LoanHealth | null>;
+  }, [loanSources, prices, tokens]);
+
+  // Loans stay raw in loanSources; amounts are formatted here so they pick up token
+  // decimals whenever the token list loads or changes.
+  const snapshotLoans = (ids: number[]) =>
+    ids.flatMap((id) => (loanSources[id] ? [formatLoan(id, loanSources[id], tokens)] : []));
+  const accountLoans = useMemo(
+    () => snapshotLoans(accountLoanIds),
+    [accountLoanIds, loanSources, tokens]
+  );
+  const scannedLoans = useMemo(
+    () => snapshotLoans(scannedLoanIds),
+    [loanSources, scannedLoanIds, tokens]
+  );
+
   const borrowerLoans = useMemo(() => {
     if (!address) return scannedLoans;
-    const normalized = normalizeAddress(address);
-    return scannedLoans.filter(
-      (loan) => normalizeAddress(loan.borrower) === normalized
-    );
-  }, [address, scannedLoans]);
+    return accountLoans.filter((loan) => borrowerLoanIds.includes(loan.id));
+  }, [accountLoans, address, borrowerLoanIds, scannedLoans]);
 
   const lenderLoans = useMemo(() => {
     if (!address) {
       return scannedLoans.filter((loan) => Boolean(loan.lender));
     }
-    const normalized = normalizeAddress(address);
-    return scannedLoans.filter(
-      (loan) => normalizeAddress(loan.lender) === normalized
-    );
-  }, [address, scannedLoans]);
+    return accountLoans.filter((loan) => lenderLoanIds.includes(loan.id));
+  }, [accountLoans, address, lenderLoanIds, scannedLoans]);
 
   const buildDashboard = (loans: LoanSnapshot[]) => {
     const dueLoans =
@@ -460,23 +845,37 @@ export default function App() {
     const defaulted = lenderLoans.filter((loan) => loan.status === STATUS.DEFAULTED).length;
     const settled = repaid + defaulted;
     const defaultRate = settled ? Math.round((defaulted / settled) * 100) : 0;
-    const ratios = lenderLoans
-      .map((loan) => {
-        const source = loanSources[loan.id];
-        if (!source || !Number(source.principal_amount)) return null;
-        return Number(source.collateral_amount) / Number(source.principal_amount);
-      })
+    const ltvs = lenderLoans
+      .map((loan) => loanHealthById[loan.id]?.ltv ?? null)
       .filter((value): value is number => value !== null && Number.isFinite(value));
-    const avgCollateralRatio =
-      ratios.length ? ratios.reduce((sum, value) => sum + value, 0) / ratios.length : 0;
-    return { total, repaid, defaulted, defaultRate, avgCollateralRatio };
-  }, [lenderLoans, loanSources]);
-
-  const riskLabel = (ratio: number) => {
-    if (!ratio) return "Unknown";
-    if (ratio < 1.2) return "High risk";
-    if (ratio < 1.5) return "Moderate risk";
-    return "Low risk";
+    const avgLtv = ltvs.length ? ltvs.reduce((sum, value) => sum + value, 0) / ltvs.length : null;
+    const atRisk = lenderLoans.filter(
+      (loan) => riskLevel(loanHealthById[loan.id] ?? null) === "high"
+    ).length;
+    return { total, repaid, defaulted, defaultRate, avgLtv, atRisk };
+  }, [lenderLoans, loanHealthById]);
+
+  const formatHealth = (health: LoanHealth | null | undefined) =>
+    health
+      ? {
+          ltv: Number.isFinite(health.ltv) ? `${(health.ltv * 100).toFixed(1)}%` : "—",
+          healthFactor: Number.isFinite(health.healthFactor)
+            ? health.healthFactor.toFixed(2)
+            : "∞",
+        }
+      : { ltv: "—", healthFactor: "—" };
+
+  const riskBadgeClass = (level: string) => {
+    switch (level) {
+      case "high":
+        return "border-rose-500/40 bg-rose-900/40 text-rose-200";
+      case "moderate":
+        return "border-amber-500/40 bg-amber-900/40 text-amber-200";
+      case "low":
+        return "border-emerald-500/40 bg-emerald-900/40 text-emerald-200";
+      default:
+        return "border-slate-700 bg-slate-800 text-slate-300";
+    }
   };
 
   const statusBadgeClass = (status: bigint) => {
@@ -490,6 +889,7 @@ export default function App() {
       case STATUS.DEFAULTED:
         return "border-rose-500/40 bg-rose-900/40 text-rose-200";
       case STATUS.CANCELLED:
+      case STATUS.EXPIRED:
         return "border-slate-700 bg-slate-800 text-slate-300";
       default:
         return "";
@@ -549,11 +949,17 @@ export default function App() {
         if (label !== statusFilter) return false;
       }
 
-      if (assetFilter !== "all") {
-        if (assetFilter === "principal-stx" && !loan.principalIsStx) return false;
-        if (assetFilter === "principal-token" && loan.principalIsStx) return false;
-        if (assetFilter === "collateral-stx" && !loan.collateralIsStx) return false;
-        if (assetFilter === "collateral-token" && loan.collateralIsStx) return false;
+      if (
+        !matchesAssetFilter(assetFilter, {
+          principal: loan.principalToken,
+          collateral: loan.collateralToken,
+        })
+      ) {
+        return false;
+      }
+
+      if (riskFilter !== "all" && riskLevel(loanHealthById[loan.id] ?? null) !== riskFilter) {
+        return false;
       }
 
       const source = loanSources[loan.id];
@@ -564,14 +970,44 @@ export default function App() {
       if (maxDuration !== null && durationValue > maxDuration) return false;
 
       if (source) {
-        const aprValue = calculateApr(source);
+        const aprValue = loanApr(source);
         if (minApr !== null && aprValue < minApr) return false;
         if (maxApr !== null && aprValue > maxApr) return false;
       }
 
       return true;
     });
-  }, [aprFilter, assetFilter, durationFilter, loanSources, scannedLoans, statusFilter]);
+  }, [
+    aprFilter,
+    assetFilter,
+    durationFilter,
+    loanHealthById,
+    loanSources,
+    riskFilter,
+    scannedLoans,
+    statusFilter,
+  ]);
+
+  const assetFilterOptions = useMemo(() => {
+    const options = ASSET_SIDES.flatMap((side) => {
+      const name = side === "principal" ? "Principal" : "Collateral";
+      return [
+        { value: `${side}-stx`, label: `${name}: STX` },
+        { value: `${side}-token`, label: `${name}: Any token` },
+        ...tokens.map((token) => ({
+          value: `${side}-${token.contract}`,
+          label: `${name}: ${token.symbol}`,
+        })),
+      ];
+    });
+    // A shared link may name a token whose metadata has not loaded yet.
+    const linked = parseAssetFilter(assetFilter);
+    if (linked && !options.some((option) => option.value === assetFilter)) {
+      const name = linked.side === "principal" ? "Principal" : "Collateral";
+      options.push({ value: assetFilter, label: `${name}: ${tokenSymbol(tokens, linked.asset)}` });
+    }
+    return options;
+  }, [assetFilter, tokens]);
 
   const totalPages = Math.max(1, Math.ceil(filteredLoans.length / pageSize));
   const pagedLoans = useMemo(() => {
@@ -579,23 +1015,158 @@ export default function App() {
     return filteredLoans.slice(start, start + pageSize);
   }, [filteredLoans, page, pageSize]);
 
+  const explorerFilters = useMemo<ExplorerFilters>(
+    () => ({
+      status: statusFilter,
+      asset: assetFilter,
+      risk: riskFilter,
+      apr: aprFilter,
+      duration: durationFilter,
+      page,
+      pageSize,
+    }),
+    [aprFilter, assetFilter, durationFilter, page, pageSize, riskFilter, statusFilter]
+  );
+
+  useEffect(() => {
+    if (!isLoans) return;
+    setStatusFilter(linkedFilters.status);
+    setAssetFilter(linkedFilters.asset);
+    setRiskFilter(linkedFilters.risk);
+    setAprFilter(linkedFilters.apr);
+    setDurationFilter(linkedFilters.duration);
+    setPage(linkedFilters.page);
+    setPageSize(linkedFilters.pageSize);
+    setSelectedLoanId(linkedLoanId);
+    if (linkedLoanId !== null) setManageLoanId(linkedLoanId);
+  }, [location.pathname, location.search]);
+
+  // Keyed on explorer state only: a back/forward navigation must not be
+  // overwritten by the state it is about to replace.
+  useEffect(() => {
+    if (!isLoans) return;
+    const target = loansPath(selectedLoanId, explorerFilters);
+    if (target === `${location.pathname}${location.search}`) return;
+    navigate(target, { replace: linkedLoanId === selectedLoanId });
+  }, [explorerFilters, selectedLoanId]);
+
+  useEffect(() => {
+    if (scannedLoans.length && page > totalPages) setPage(totalPages);
+  }, [page, scannedLoans.length, totalPages]);
+
   const selectedLoan = useMemo(() => {
     if (selectedLoanId === null) return null;
     return scannedLoans.find((loan) => loan.id === selectedLoanId) ?? null;
   }, [scannedLoans, selectedLoanId]);
 
+  const selectedTimeline = selectedLoan ? timelines[selectedLoan.id] : undefined;
+
+  const timelineRows = useMemo(() => {
+    if (!selectedLoan || !selectedTimeline) return [];
+    const source = loanSources[selectedLoan.id];
+    return selectedTimeline.entries.map((entry) => {
+      const amounts = source
+        ? timelineAmounts(entry.event, source).map(
+            ({ label, side, amount }) =>
+              `${label} ${assetAmount(
+                tokens,
+                amount,
+                side === "principal" ? source.principal_token : source.collateral_token
+              )}`
+          )
+        : [];
+      const repayAmount = (amount: bigint) =>
+        source ? assetAmount(tokens, amount, source.principal_token) : amount.toString();
+      const extension =
+        entry.event.event === "extend-loan"
+          ? extensionHistory.find((record) => Number(record.accepted_at) === entry.blockHeight)
+          : undefined;
+      if (entry.event.event === "extend-loan") {
+        const { end_block, repay_amount } = entry.event;
+        amounts.push(
+          extension
+            ? `End block ${extension.previous_end_block} → ${end_block}, ` +
+                `repay ${repayAmount(extension.previous_repay_amount)} → ` +
+                `${repayAmount(repay_amount)}`
+            : `End block ${end_block}, repay ${repayAmount(repay_amount)}`
+        );
+      } else if (entry.event.event === "propose-extension") {
+        const { end_block, repay_amount } = entry.event;
+        amounts.push(`End block ${end_block}, repay ${repayAmount(repay_amount)}`);
+      }
+      return {
+        entry,
+        label: EVENT_LABELS[entry.event.event],
+        time: entry.timestamp ? new Date(entry.timestamp * 1000).toLocaleString() : "—",
+        amounts,
+      };
+    });
+  }, [extensionHistory, loanSources, selectedLoan, selectedTimeline, tokens]);
+
+  const extensionLoan = selectedLoanId !== null ? loanSources[selectedLoanId] : undefined;
+  const extensionRepay = useMemo(
+    () =>
+      parseAssetField(
+        tokens,
+        "Repay amount",
+        extensionDraft.repayAmount,
+        extensionLoan?.principal_token
+      ),
+    [extensionDraft.repayAmount, extensionLoan, tokens]
+  );
+
+  const extensionErrors = useMemo(() => {
+    const errors: string[] = [];
+    const loan = extensionLoan;
+    if (!loan) return ["Load the selected loan first."];
+    if (loan.status !== STATUS.FUNDED) errors.push("Only funded loans can be extended.");
+    if (extensionDraft.endBlock <= Number(loan.end_block)) {
+      errors.push("New end block must be after the current end block.");
+    }
+    if (currentBlock && extensionDraft.endBlock <= currentBlock) {
+      errors.push("New end block must be in the future.");
+    }
+    const repay = extensionRepay.units;
+    if (extensionRepay.error) errors.push(extensionRepay.error);
+    if (repay !== null && repay < loan.principal_amount) {
+      errors.push("New repay amount must cover the principal.");
+    }
+    if (repay !== null && repay <= loan.amount_repaid) {
+      errors.push("New repay amount must exceed what has already been repaid.");
+    }
+    return errors;
+  }, [currentBlock, extensionDraft, extensionLoan, extensionRepay]);
+
+  const isBorrowerOfSelected =
+    Boolean(address && selectedLoan) &&
+    normalizeAddress(address) === normalizeAddress(selectedLoan?.borrower ?? "");
+  const isLenderOfSelected =
+    Boolean(address && selectedLoan?.lender) &&
+    normalizeAddress(address) === normalizeAddress(selectedLoan?.lender ?? "");
+  const canAcceptExtension =
+    Boolean(extensionProposal) &&
+    (isBorrowerOfSelected || isLenderOfSelected) &&
+    normalizeAddress(address) !== normalizeAddress(extensionProposal?.proposer ?? "");
+
   const reminders = useMemo(() => {
     if (currentBlock === 0) {
       return [];
     }
     const windowSize = Math.max(0, reminderWindow);
-    const upcomingLoans = scannedLoans.filter((loan) => {
+    const sourceLoans = address ? accountLoans : scannedLoans;
+    const upcomingLoans = sourceLoans.filter((loan) => {
       if (loan.status !== STATUS.FUNDED) return false;
       const delta = loan.endBlock - currentBlock;
       return delta > 0 && delta <= windowSize;
     });
-    const overdueLoans = scannedLoans.filter(
-      (loan) => loan.status === STATUS.FUNDED && loan.endBlock <= currentBlock
+    const overdueLoans = sourceLoans.filter(
+      (loan) => loan.status === STATUS.FUNDED && loan.endBlock + loan.gracePeriod <= currentBlock
+    );
+    const graceLoans = sourceLoans.filter(
+      (loan) =>
+        loan.status === STATUS.FUNDED &&
+        loan.endBlock <= currentBlock &&
+        currentBlock < loan.endBlock + loan.gracePeriod
     );
 
     const upcomingBorrower = upcomingLoans.filter((loan) =>
@@ -610,6 +1181,12 @@ export default function App() {
     const overdueLender = overdueLoans.filter((loan) =>
       address ? normalizeAddress(loan.lender) === normalizeAddress(address) : true
     );
+    const expiringRequests = sourceLoans.filter(
+      (loan) =>
+        loan.status === STATUS.OPEN &&
+        loan.expiryBlock !== undefined &&
+        (address ? normalizeAddress(loan.borrower) === normalizeAddress(address) : true)
+    );
 
     const items: { id: string; message: string; tone: string }[] = [];
     upcomingBorrower.forEach((loan) => {
@@ -644,19 +1221,127 @@ export default function App() {
         tone: "border-rose-500/40 bg-rose-900/40 text-rose-200",
       });
     });
+    graceLoans.forEach((loan) => {
+      const isBorrower = address
+        ? normalizeAddress(loan.borrower) === normalizeAddress(address)
+        : true;
+      const isLender = address ? normalizeAddress(loan.lender) === normalizeAddress(address) : true;
+      if (!isBorrower && !isLender) return;
+      const blocksLeft = loan.endBlock + loan.gracePeriod - currentBlock;
+      const fee = assetAmount(
+        tokens,
+        BigInt(currentBlock - loan.endBlock) * loan.lateFeePerBlock,
+        loan.principalToken
+      );
+      items.push({
+        id: `${isBorrower ? "borrower" : "lender"}-upcoming-grace-${loan.id}`,
+        message: `${isBorrower ? "Borrower alert" : "Lender heads-up"}: Loan #${
+          loan.id
+        } is in grace period, ${blocksLeft} blocks left, fee ${fee}.`,
+        tone: "border-orange-500/40 bg-orange-900/40 text-orange-200",
+      });
+    });
+    expiringRequests.forEach((loan) => {
+      const delta = (loan.expiryBlock ?? 0) - currentBlock;
+      if (delta < 0) {
+        items.push({
+          id: `borrower-overdue-expired-${loan.id}`,
+          message: `Borrower alert: Loan request #${loan.id} expired unfunded. Sweep it to recover collateral.`,
+          tone: "border-rose-500/40 bg-rose-900/40 text-rose-200",
+        });
+      } else if (delta <= windowSize) {
+        items.push({
+          id: `borrower-upcoming-expiry-${loan.id}`,
+          message: `Borrower reminder: Loan request #${loan.id} expires unfunded in ${delta} blocks.`,
+          tone: "border-amber-500/40 bg-amber-900/40 text-amber-200",
+        });
+      }
+    });
 
     return items;
-  }, [address, currentBlock, reminderWindow, scannedLoans]);
+  }, [accountLoans, address, currentBlock, reminderWindow, scannedLoans, tokens]);
 
   const pushReminder = (message: string) => {
     setLogs((current) => logLine(`Reminder queued: ${message}`, current));
   };
 
   const handleConnect = () => {
-    connect(expectedChainId);
+    connect(profile);
+  };
+
+  const handleNetworkChange = (name: NetworkName) => {
+    const next = NETWORK_PROFILES[name];
+    saveNetworkName(name);
+    setNetworkName(name);
+    setConfig(profileConfig(next));
+    // Everything read from the previous network's contract, tokens and oracle.
+    setTokens([]);
+    setPrices({});
+    setContractOwner("");
+    setContractOracle(undefined);
+    setSelectedPrincipalTokenId("");
+    setSelectedCollateralTokenId("");
+    setScannedLoanIds([]);
+    setAccountLoanIds([]);
+    setBorrowerLoanIds([]);
+    setLenderLoanIds([]);
+    setLoanSources({});
+    setLoanCount(null);
+    setSelectedLoanId(null);
+    setExtensionProposal(null);
+    setExtensionHistory([]);
+    setOfferCount(null);
+    setOffers({});
+    setSelectedOfferId(null);
+    setPositionListings({});
+    setDiagResult("");
+    setLogs((current) => logLine(`Switched to ${next.label} (${next.apiUrl}).`, current));
+  };
+
+  const assetBalanceChecks = async (
+    sender: string,
+    needs: AssetNeed[],
+    assets: { principal?: string; collateral?: string }
+  ) =>
+    Promise.all(
+      needs
+        .filter((need) => need.amount > 0n)
+        .map(async ({ side, amount }): Promise<PreflightCheck> => {
+          const token = assets[side];
+          const label = `${side === "principal" ? "Principal" : "Collateral"} ${assetAmount(
+            tokens,
+            amount,
+            token
+          )}`;
+          try {
+            const held = token
+              ? await fetchTokenBalance(config, token, sender)
+              : await fetchStxBalance(config, sender);
+            return balanceCheck(
+              `${label} (wallet holds ${assetAmount(tokens, held, token)})`,
+              amount,
+              held
+            );
+          } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            return { label: `${label} (balance lookup failed: ${message})`, ok: false };
+          }
+        })
+    );
+
+  // Returns true when every check passes; otherwise shows the checklist, whose
+  // "Submit anyway" re-runs the handler without the preflight.
+  const passesPreflight = (action: string, checks: PreflightCheck[], submitAnyway: () => void) => {
+    const failed = checks.filter((check) => !check.ok);
+    if (!failed.length) return true;
+    setPreflight({ action, checks, submitAnyway });
+    setLogs((current) =>
+      logLine(`${action} preflight: ${failed.length} check(s) would fail.`, current)
+    );
+    return false;
   };
 
-  const handleCreate = async () => {
+  const handleCreate = async (skipPreflight = false) => {
     if (isCooldownActive) {
       setLogs((current) => logLine("Slow down: action cooldown active.", current));
       pushToast("Cooldown", "Please wait before submitting another transaction.", "info");
@@ -669,17 +1354,66 @@ export default function App() {
       pushToast("Missing config", "Add the contract address before creating a loan.", "error");
       return;
     }
-    if (createErrors.length) {
+    const units = createAmounts.units;
+    if (createErrors.length || !units) {
       setLogs((current) => logLine("Fix create form validation errors.", current));
       pushToast("Validation error", "Fix the create loan form inputs.", "error");
       return;
     }
+    if (!address) {
+      setLogs((current) => logLine("Connect a wallet before creating a loan.", current));
+      pushToast("Wallet required", "Connect a wallet to build post-conditions.", "error");
+      return;
+    }
     try {
+      const principalToken = createForm.principalIsStx ? undefined : selectedPrincipalToken;
+      const collateralToken = createForm.collateralIsStx ? undefined : selectedCollateralToken;
+      const terms = {
+        principalToken: principalToken?.contract,
+        principalAmount: units.principal,
+        repayAmount: units.repay,
+        duration: createForm.duration,
+        collateralToken: collateralToken?.contract,
+        collateralAmount: units.collateral,
+        expiryBlock: createForm.expiryBlock || undefined,
+        gracePeriod: createForm.gracePeriod,
+        lateFeePerBlock: units.lateFeePerBlock,
+        liquidationRatioBps: Math.round(createForm.liquidationRatio * 100) || undefined,
+      };
+      if (!skipPreflight) {
+        const block = currentBlock && !chainTip.stale ? currentBlock + 1 : undefined;
+        const checks = [
+          ...createChecks(terms, { allowed: await fetchAllowedAssets(config), block }),
+          ...(await assetBalanceChecks(
+            address,
+            [{ side: "collateral", amount: units.collateral }],
+            { collateral: collateralToken?.contract }
+          )),
+        ];
+        if (!passesPreflight("create-loan", checks, () => void handleCreate(true))) return;
+      }
+      const postConditions = loanPostConditions(
+        "create-loan",
+        {
+          principal_is_stx: createForm.principalIsStx,
+          principal_amount: units.principal,
+          collateral_is_stx: createForm.collateralIsStx,
+          collateral_amount: units.collateral,
+          repay_amount: units.repay,
+          amount_repaid: 0n,
+        },
+        {
+          sender: address,
+          contract: contractId(config),
+          assets: { principal: principalToken, collateral: collateralToken },
+        }
+      );
       pushToast("Submitting", "Review and approve create-loan in your wallet.", "info");
-      await callCreate(config, createForm);
+      const txId = await callContract(config, "create-loan", createLoanArgs(terms), postConditions);
       setLastActionAt(Date.now());
-      setLogs((current) => logLine("Create-loan submitted.", current));
+      setLogs((current) => logLine(`Create-loan submitted (${txId}).`, current));
       pushToast("Submitted", "Create-loan transaction submitted.", "success");
+      trackTransaction(txId, "create-loan");
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       setLogs((current) => logLine(`Create-loan failed: ${message}`, current));
@@ -687,138 +1421,123 @@ export default function App() {
     }
   };
 
-  const applyPresets = (principal = createForm.principalAmount, duration = createForm.duration) => {
+  // Presets run on base units and write the result back as an editable amount,
+  // keeping the field unchanged while the principal does not parse.
+  const presetRepay = (form: typeof createForm, apr = aprPreset) => {
+    const { symbol, decimals } = createAssets.principal;
+    const principal = parseAmountOrNull(form.principalAmount, decimals, symbol);
+    if (principal === null) return form.repayAmount;
+    const duration = wholeBlocks(form.duration);
+    if (duration === null) return form.repayAmount;
+    return formatAmount(repayForApr(principal, BigInt(apr), duration), decimals, {
+      grouping: false,
+    });
+  };
+
+  // Converts the principal's USD value into collateral, so it stays unchanged
+  // until both assets are priced.
+  const presetCollateral = (form: typeof createForm, ratio = collateralPreset) => {
+    const { principal: principalAsset, collateral: collateralAsset } = createAssets;
+    const principal = parseAmountOrNull(
+      form.principalAmount,
+      principalAsset.decimals,
+      principalAsset.symbol
+    );
+    if (principal === null) return form.collateralAmount;
+    const collateral = collateralForUsdRatio(
+      principal,
+      BigInt(ratio),
+      { decimals: principalAsset.decimals, usd: createPrices.principal },
+      { decimals: collateralAsset.decimals, usd: createPrices.collateral }
+    );
+    if (collateral === null) return form.collateralAmount;
+    return formatAmount(collateral, collateralAsset.decimals, { grouping: false });
+  };
+
+  const applyPresets = () => {
     setCreateForm((current) => ({
       ...current,
-      repayAmount: calcRepayFromApr(principal, aprPreset, duration),
-      collateralAmount: calcCollateralFromRatio(principal, collateralPreset),
+      repayAmount: presetRepay(current),
+      collateralAmount: presetCollateral(current),
     }));
   };
 
-  const handleAddToken = () => {
-    const symbol = tokenDraft.symbol.trim();
-    const name = tokenDraft.name.trim();
-    const contract = tokenDraft.contract.trim();
-    if (!symbol || !contract) {
-      setLogs((current) => logLine("Token requires a symbol and contract.", current));
+  const handleAssetAction = async (action: "add-asset" | "remove-asset", contract: string) => {
+    if (!config.address) {
+      pushToast("Missing config", "Add the contract address before submitting.", "error");
       return;
     }
-    const id = symbol.toLowerCase();
-    const entry: TokenMeta = {
-      id,
-      symbol,
-      name: name || symbol,
-      contract,
-      decimals: Number(tokenDraft.decimals) || 8,
-    };
-    setTokens((current) => {
-      const without = current.filter((token) => token.id !== id);
-      return [...without, entry];
-    });
-    setTokenDraft({ symbol: "", name: "", contract: "", decimals: 8 });
-    if (!defaultTokenId) {
-      setDefaultTokenId(id);
-    }
-    setSelectedPrincipalTokenId(id);
-    setSelectedCollateralTokenId(id);
-  };
-
-  const handleRemoveToken = (tokenId: string) => {
-    setTokens((current) => {
-      const nextTokens = current.filter((token) => token.id !== tokenId);
-      const fallback = nextTokens[0]?.id ?? "";
-      setDefaultTokenId((currentDefault) =>
-        currentDefault === tokenId ? fallback : currentDefault
-      );
-      setSelectedPrincipalTokenId((currentSelected) =>
-        currentSelected === tokenId ? fallback : currentSelected
-      );
-      setSelectedCollateralTokenId((currentSelected) =>
-        currentSelected === tokenId ? fallback : currentSelected
-      );
-      return nextTokens;
-    });
-  };
-
-  const handleAddIndexedLoan = () => {
-    const value = Number(indexerInput);
-    if (!value || value <= 0) {
-      setLogs((current) => logLine("Enter a valid loan ID.", current));
+    if (!/^S[A-Z0-9]+\.[a-zA-Z][a-zA-Z0-9-]*$/.test(contract)) {
+      setLogs((current) => logLine(`Invalid token contract: ${contract || "empty"}.`, current));
+      pushToast("Validation error", "Enter a token contract as ADDRESS.contract-name.", "error");
       return;
     }
-    setIndexedLoanIds((current) => {
-      const next = Array.from(new Set([...current, value])).sort((a, b) => a - b);
-      return next;
-    });
-    setIndexerInput("");
-  };
-
-  const handleImportIndexedLoans = () => {
-    if (!indexerImport.trim()) return;
-    const ids = indexerImport
-      .split(/[\s,]+/)
-      .map((value) => Number(value))
-      .filter((value) => Number.isFinite(value) && value > 0);
-    if (!ids.length) {
-      setLogs((current) => logLine("No valid IDs found in import.", current));
+    if (!isContractOwner) {
+      pushToast("Owner only", "Connect the contract owner wallet to manage assets.", "error");
       return;
     }
-    setIndexedLoanIds((current) => {
-      const next = Array.from(new Set([...current, ...ids])).sort((a, b) => a - b);
-      return next;
-    });
-    setIndexerImport("");
+    try {
+      pushToast("Submitting", `Review and approve ${action} in your wallet.`, "info");
+      const txId = await callContract(config, action, principalArg(contract), []);
+      trackTransaction(txId, action);
+      setLogs((current) => logLine(`${action} submitted for ${contract}.`, current));
+      pushToast("Submitted", `${action} transaction submitted.`, "success");
+      if (action === "add-asset") setAssetDraft("");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`${action} failed: ${message}`, current));
+      pushToast("Submission failed", message, "error");
+    }
   };
 
-  const fetchLoansByIds = async (ids: number[], label: string) => {
-    if (!canRead) {
-      setLogs((current) =>
-        logLine("Provide API URL, contract, and read-only sender.", current)
+  const readLoans = async (ids: number[]) => {
+    const { loans, failed } = await fetchLoans(config, ids);
+    if (failed.length) {
+      failed.forEach(({ id, message }) =>
+        setLogs((current) => logLine(`Read-only failed (ID ${id}): ${message}`, current))
+      );
+      pushToast(
+        "Partial load",
+        `${failed.length} of ${ids.length} loans could not be read. See the activity log.`,
+        "error"
       );
-      pushToast("Missing config", "Set API URL, contract, and read-only sender.", "error");
-      return;
     }
+    return { ids: Object.keys(loans).map(Number), sources: loans };
+  };
 
+  const fetchLoansByIds = async (ids: number[], label: string) => {
     if (!ids.length) {
       setLogs((current) => logLine("No loan IDs to fetch.", current));
-      pushToast("Nothing to fetch", "Add loan IDs or scan a range first.", "info");
+      pushToast("Nothing to fetch", "No loans have been created yet.", "info");
       return;
     }
 
-    const cards: LoanSnapshot[] = [];
-    const sources: Record<number, Loan> = {};
-    for (const id of ids) {
-      try {
-        const result = await callReadOnly(config, "get-loan", [uintCV(id)]);
-        if (result && typeof result === "object" && "value" in result) {
-          const loan = (result as { value: Loan }).value;
-          cards.push(formatLoan(id, loan, defaultToken?.symbol ?? "SIP-010"));
-          sources[id] = loan;
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "Unknown error";
-        setLogs((current) => logLine(`Read-only failed (ID ${id}): ${message}`, current));
-        pushToast("Read-only error", `Loan ${id}: ${message}`, "error");
-      }
-    }
-    setScannedLoans(cards);
-    setLoanSources(sources);
+    const { ids: loaded, sources } = await readLoans(ids);
+    showLoans(loaded, sources, label);
+  };
+
+  const showLoans = (ids: number[], sources: Record<number, Loan>, label: string) => {
+    setScannedLoanIds(ids);
+    setLoanSources((current) => ({ ...current, ...sources }));
     setLogs((current) => logLine(label, current));
-    pushToast("Loans refreshed", `${cards.length} loans loaded.`, "success");
-    setPage(1);
+    pushToast("Loans refreshed", `${ids.length} loans loaded.`, "success");
     setSelectedLoanId((current) => {
       if (current === null) {
-        const next = cards[0]?.id ?? null;
+        const next = ids[0] ?? null;
         if (next !== null) setManageLoanId(next);
         return next;
       }
-      const next = cards.some((loan) => loan.id === current) ? current : cards[0]?.id ?? null;
+      const next = ids.includes(current) ? current : ids[0] ?? null;
       if (next !== null) setManageLoanId(next);
       return next;
     });
   };
 
-  const handleAction = async (action: string) => {
+  const handleAction = async (
+    action: Exclude<LoanAction, "create-loan">,
+    amount?: bigint,
+    skipPreflight = false
+  ) => {
     if (isCooldownActive) {
       setLogs((current) => logLine("Slow down: action cooldown active.", current));
       pushToast("Cooldown", "Please wait before submitting another transaction.", "info");
@@ -831,14 +1550,62 @@ export default function App() {
       pushToast("Missing config", "Add the contract address before submitting.", "error");
       return;
     }
+    if (action === "repay-partial" && (!amount || amount <= 0n)) {
+      setLogs((current) => logLine("Enter an installment amount above zero.", current));
+      pushToast("Validation error", "Installment amount must be greater than zero.", "error");
+      return;
+    }
     if (manageErrors.length) {
       setLogs((current) => logLine("Fix manage loan validation errors.", current));
       pushToast("Validation error", "Fix the manage loan inputs.", "error");
       return;
     }
+    if (!address) {
+      setLogs((current) => logLine(`Connect a wallet before ${action}.`, current));
+      pushToast("Wallet required", "Connect a wallet to build post-conditions.", "error");
+      return;
+    }
     try {
+      // Re-read the loan so the preflight sees its current status and terms.
+      const loan =
+        (await fetchLoans(config, [manageLoanId])).loans[manageLoanId] ??
+        loanSources[manageLoanId];
+      if (!loan) {
+        throw new Error(`Loan ${manageLoanId} not found.`);
+      }
+      if (!skipPreflight) {
+        // Block checks need a live chain tip; without one they are listed as unchecked.
+        const block = currentBlock && !chainTip.stale ? currentBlock + 1 : undefined;
+        const checks = [
+          ...loanChecks(action, loan, {
+            sender: address,
+            block,
+            amount,
+            oracle: contractOracle,
+            liquidatable: loanHealthById[manageLoanId]?.liquidatable,
+          }),
+          ...(await assetBalanceChecks(
+            address,
+            requiredAssets(action, loan, { amount, block }),
+            { principal: loan.principal_token, collateral: loan.collateral_token }
+          )),
+        ];
+        const submitAnyway = () => void handleAction(action, amount, true);
+        if (!passesPreflight(action, checks, submitAnyway)) return;
+      }
+      const postConditions = loanPostConditions(action, loan, {
+        sender: address,
+        contract: contractId(config),
+        assets: {
+          principal: await resolveAsset(loan.principal_token),
+          collateral: await resolveAsset(loan.collateral_token),
+        },
+        amount,
+      });
+      const args = loanActionArgs(action, manageLoanId, loan, amount, contractOracle);
       pushToast("Submitting", `Review and approve ${action}.`, "info");
-      await callContract(config, action, loanIdArg(manageLoanId));
+      const txId = await callContract(config, action, args, postConditions);
+      trackTransaction(txId, action, manageLoanId);
       setLastActionAt(Date.now());
       setLogs((current) => logLine(`${action} submitted.`, current));
       pushToast("Submitted", `${action} transaction submitted.`, "success");
@@ -849,32 +1616,608 @@ export default function App() {
     }
   };
 
+  const handleExtensionAction = async (action: ExtensionAction) => {
+    if (isCooldownActive) {
+      setLogs((current) => logLine("Slow down: action cooldown active.", current));
+      pushToast("Cooldown", "Please wait before submitting another transaction.", "info");
+      return;
+    }
+    if (!config.address || selectedLoanId === null) {
+      pushToast("Missing config", "Select a loan and set the contract address first.", "error");
+      return;
+    }
+    if (!address) {
+      pushToast("Wallet required", "Connect the borrower or lender wallet.", "error");
+      return;
+    }
+    const repayAmount = extensionRepay.units;
+    if (action === "propose-extension" && (extensionErrors.length || repayAmount === null)) {
+      pushToast("Validation error", extensionErrors[0], "error");
+      return;
+    }
+    if (action === "accept-extension" && !extensionProposal) {
+      pushToast("No proposal", "Load the pending proposal before accepting it.", "error");
+      return;
+    }
+    try {
+      const args =
+        action === "propose-extension" && repayAmount !== null
+          ? proposeExtensionArgs(selectedLoanId, { endBlock: extensionDraft.endBlock, repayAmount })
+          : action === "accept-extension" && extensionProposal
+            ? acceptExtensionArgs(selectedLoanId, extensionProposal)
+            : extensionArgs(selectedLoanId);
+      pushToast("Submitting", `Review and approve ${action}.`, "info");
+      const txId = await callContract(config, action, args, []);
+      trackTransaction(txId, action, selectedLoanId);
+      setLastActionAt(Date.now());
+      setLogs((current) => logLine(`${action} submitted for loan ${selectedLoanId}.`, current));
+      pushToast("Submitted", `${action} transaction submitted.`, "success");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`${action} failed: ${message}`, current));
+      pushToast("Submission failed", message, "error");
+    }
+  };
+
+  const resolveAsset = async (contract?: string) => {
+    if (!contract) return undefined;
+    return (
+      tokens.find((entry) => entry.contract === contract) ??
+      (await fetchTokenMeta(config, contract))
+    );
+  };
+
+  const handleLoadOffers = async () => {
+    if (!canRead) {
+      pushToast("Missing config", "Set API URL, contract, and read-only sender.", "error");
+      return;
+    }
+    try {
+      const count = await fetchOfferCount(config);
+      const { offers: loaded, failed } = await fetchOffers(config, loanIdRange(count));
+      failed.forEach(({ id, message }) =>
+        setLogs((current) => logLine(`Read-only failed (offer ${id}): ${message}`, current))
+      );
+      setOfferCount(count);
+      setOffers(loaded);
+      setLogs((current) => logLine(`Loaded ${count} offers from get-offer-count.`, current));
+      pushToast("Offers refreshed", `${Object.keys(loaded).length} offers loaded.`, "success");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`Offer lookup failed: ${message}`, current));
+      pushToast("Read-only error", message, "error");
+    }
+  };
+
+  const handlePostOffer = async () => {
+    if (!config.address) {
+      pushToast("Missing config", "Add the contract address before posting an offer.", "error");
+      return;
+    }
+    if (!address) {
+      pushToast("Wallet required", "Connect a wallet to build post-conditions.", "error");
+      return;
+    }
+    const principalAmount = offerPrincipal.units;
+    if (offerErrors.length || principalAmount === null) {
+      pushToast("Validation error", "Fix the offer form inputs.", "error");
+      return;
+    }
+    const principalToken =
+      offerForm.principalToken === "stx" ? undefined : offerForm.principalToken;
+    const collateralToken =
+      offerForm.collateralToken === "stx" ? undefined : offerForm.collateralToken;
+    try {
+      const postConditions = offerPostConditions(
+        "post-offer",
+        {
+          principal_is_stx: !principalToken,
+          principal_amount: principalAmount,
+          collateral_is_stx: !collateralToken,
+        },
+        {
+          sender: address,
+          contract: contractId(config),
+          assets: { principal: await resolveAsset(principalToken) },
+        }
+      );
+      pushToast("Submitting", "Review and approve post-offer in your wallet.", "info");
+      const txId = await callContract(
+        config,
+        "post-offer",
+        postOfferArgs({
+          principalToken,
+          principalAmount,
+          collateralToken,
+          minCollateralBps: Math.round(offerForm.minCollateralPct * 100),
+          rateBps: Math.round(offerForm.ratePct * 100),
+          maxDuration: offerForm.maxDuration,
+          expiresIn: offerForm.expiresIn,
+        }),
+        postConditions
+      );
+      trackTransaction(txId, "post-offer");
+      setLastActionAt(Date.now());
+      setLogs((current) => logLine("post-offer submitted.", current));
+      pushToast("Submitted", "post-offer transaction submitted.", "success");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`post-offer failed: ${message}`, current));
+      pushToast("Submission failed", message, "error");
+    }
+  };
+
+  const handleOfferAction = async (action: "accept-offer" | "cancel-offer", offerId: number) => {
+    const offer = offers[offerId];
+    if (!offer) return;
+    if (isCooldownActive) {
+      setLogs((current) => logLine("Slow down: action cooldown active.", current));
+      pushToast("Cooldown", "Please wait before submitting another transaction.", "info");
+      return;
+    }
+    if (!address) {
+      pushToast("Wallet required", "Connect a wallet to build post-conditions.", "error");
+      return;
+    }
+    const collateralAmount = acceptCollateral.units ?? 0n;
+    if (action === "accept-offer" && (acceptErrors.length || acceptCollateral.units === null)) {
+      pushToast("Validation error", acceptErrors[0], "error");
+      return;
+    }
+    try {
+      const postConditions = offerPostConditions(action, offer, {
+        sender: address,
+        contract: contractId(config),
+        assets: {
+          principal: await resolveAsset(offer.principal_token),
+          collateral: await resolveAsset(offer.collateral_token),
+        },
+        collateralAmount,
+      });
+      const args =
+        action === "accept-offer"
+          ? acceptOfferArgs(offerId, offer, { duration: acceptTerms.duration, collateralAmount })
+          : cancelOfferArgs(offerId, offer);
+      pushToast("Submitting", `Review and approve ${action}.`, "info");
+      const txId = await callContract(config, action, args, postConditions);
+      trackTransaction(txId, action);
+      setLastActionAt(Date.now());
+      setLogs((current) => logLine(`${action} submitted for offer #${offerId}.`, current));
+      pushToast("Submitted", `${action} transaction submitted.`, "success");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`${action} failed: ${message}`, current));
+      pushToast("Submission failed", message, "error");
+    }
+  };
+
+  const handleLoadPositions = async () => {
+    if (!canRead) {
+      pushToast("Missing config", "Set API URL, contract, and read-only sender.", "error");
+      return;
+    }
+    try {
+      const count = await fetchLoanCount(config);
+      const { listings, failed } = await fetchPositionListings(config, loanIdRange(count));
+      failed.forEach(({ id, message }) =>
+        setLogs((current) => logLine(`Read-only failed (listing ${id}): ${message}`, current))
+      );
+      const { loans } = await fetchLoans(config, Object.keys(listings).map(Number));
+      const active = Object.fromEntries(
+        Object.entries(listings).filter(([id, listing]) => {
+          const loan = loans[Number(id)];
+          return loan?.status === STATUS.FUNDED && loan.lender === listing.seller;
+        })
+      );
+      setLoanSources((current) => ({ ...current, ...loans }));
+      setPositionListings(active);
+      setLogs((current) =>
+        logLine(`Loaded ${Object.keys(active).length} positions for sale.`, current)
+      );
+      pushToast("Positions refreshed", `${Object.keys(active).length} positions for sale.`, "success");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`Position lookup failed: ${message}`, current));
+      pushToast("Read-only error", message, "error");
+    }
+  };
+
+  const handlePositionAction = async (action: PositionAction, loanId: number) => {
+    if (isCooldownActive) {
+      setLogs((current) => logLine("Slow down: action cooldown active.", current));
+      pushToast("Cooldown", "Please wait before submitting another transaction.", "info");
+      return;
+    }
+    if (!config.address) {
+      pushToast("Missing config", "Add the contract address before submitting.", "error");
+      return;
+    }
+    if (!address) {
+      pushToast("Wallet required", "Connect a wallet to build post-conditions.", "error");
+      return;
+    }
+    const price = positionPrice.units;
+    if (action === "list-position" && (positionErrors.length || price === null)) {
+      pushToast("Validation error", positionErrors[0], "error");
+      return;
+    }
+    if (action === "transfer-position" && !/^S[A-Z0-9]{38,40}$/.test(positionForm.recipient)) {
+      pushToast("Validation error", "Enter the recipient's standard principal.", "error");
+      return;
+    }
+    try {
+      let args;
+      let postConditions: PostCondition[] = [];
+      if (action === "buy-position") {
+        const listing = positionListings[loanId];
+        const loan = loanSources[loanId];
+        if (!listing || !loan) {
+          throw new Error(`Position ${loanId} is not listed.`);
+        }
+        postConditions = positionPostConditions(loan, listing, {
+          sender: address,
+          assets: { principal: await resolveAsset(loan.principal_token) },
+        });
+        args = buyPositionArgs(loanId, loan, listing);
+      } else if (action === "list-position" && price !== null) {
+        args = listPositionArgs(loanId, {
+          price,
+          buyer: positionForm.buyer || undefined,
+        });
+      } else if (action === "transfer-position") {
+        args = transferPositionArgs(loanId, positionForm.recipient);
+      } else {
+        args = [uintCV(loanId)];
+      }
+      pushToast("Submitting", `Review and approve ${action}.`, "info");
+      const txId = await callContract(config, action, args, postConditions);
+      trackTransaction(txId, action, loanId);
+      setLastActionAt(Date.now());
+      setLogs((current) => logLine(`${action} submitted for loan #${loanId}.`, current));
+      pushToast("Submitted", `${action} transaction submitted.`, "success");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`${action} failed: ${message}`, current));
+      pushToast("Submission failed", message, "error");
+    }
+  };
+
+  const handleLoadLoanIntoCalculator = () => {
+    if (!selectedLoan) {
+      pushToast("Calculator", "Select a loan to build an installment plan.", "info");
+      return;
+    }
+    const source = loanSources[selectedLoan.id];
+    if (!source) return;
+    const token = source.principal_is_stx ? "" : source.principal_token ?? "";
+    const decimals = assetDecimals(tokens, token || undefined) ?? 0;
+    const amount = (value: bigint) => formatAmount(value, decimals, { grouping: false });
+    setCalcInput((current) => ({
+      ...current,
+      token,
+      principal: amount(source.principal_amount),
+      repay: amount(source.repay_amount),
+      repaid: amount(source.amount_repaid),
+      duration: Math.max(1, Number(source.end_block - source.start_block)),
+      gracePeriod: Number(source.grace_period),
+      lateFeePerBlock: amount(source.late_fee_per_block),
+    }));
+    setManageLoanId(selectedLoan.id);
+  };
+
   const handleScan = async () => {
-    if (scanErrors.length) {
-      setLogs((current) => logLine("Fix scan validation errors.", current));
-      pushToast("Validation error", "Fix scan range before searching.", "error");
+    if (config.indexerUrl) {
+      try {
+        const { loans, total } = await fetchIndexedLoans(config.indexerUrl);
+        setLoanCount(total);
+        showLoans(Object.keys(loans).map(Number), loans, `Loaded ${total} loans from the indexer.`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        setLogs((current) => logLine(`Indexer lookup failed: ${message}`, current));
+        pushToast("Indexer error", message, "error");
+      }
+      return;
+    }
+    if (!canRead) {
+      setLogs((current) =>
+        logLine("Provide API URL, contract, and read-only sender.", current)
+      );
+      pushToast("Missing config", "Set API URL, contract, and read-only sender.", "error");
       return;
     }
-    const ids: number[] = [];
-    for (let id = scanRange.start; id <= scanRange.end; id += 1) {
-      ids.push(id);
+    try {
+      const count = await fetchLoanCount(config);
+      setLoanCount(count);
+      await fetchLoansByIds(loanIdRange(count), `Loaded ${count} loans from get-loan-count.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`Loan count failed: ${message}`, current));
+      pushToast("Read-only error", message, "error");
     }
-    await fetchLoansByIds(
-      ids,
-      `Scanned loans ${scanRange.start} → ${scanRange.end}.`
+  };
+
+  const readIndexedAccountLoans = async (account: string, indexerUrl: string) => {
+    const [borrowed, lent] = await Promise.all([
+      fetchIndexedLoans(indexerUrl, { borrower: account }),
+      fetchIndexedLoans(indexerUrl, { lender: account }),
+    ]);
+    const sources = { ...borrowed.loans, ...lent.loans };
+    return {
+      borrowerIds: Object.keys(borrowed.loans).map(Number),
+      lenderIds: Object.keys(lent.loans).map(Number),
+      ids: Object.keys(sources)
+        .map(Number)
+        .sort((a, b) => a - b),
+      sources,
+    };
+  };
+
+  const readAccountLoans = async (account: string) => {
+    const [borrowerIds, lenderIds] = await Promise.all([
+      fetchBorrowerLoanIds(config, account),
+      fetchLenderLoanIds(config, account),
+    ]);
+    const ids = Array.from(new Set([...borrowerIds, ...lenderIds])).sort((a, b) => a - b);
+    return { borrowerIds, lenderIds, ...(await readLoans(ids)) };
+  };
+
+  const refreshAccountLoans = async () => {
+    if (!(canRead || config.indexerUrl) || !address) return;
+    try {
+      const { borrowerIds, lenderIds, ids, sources } = config.indexerUrl
+        ? await readIndexedAccountLoans(address, config.indexerUrl)
+        : await readAccountLoans(address);
+      setBorrowerLoanIds(borrowerIds);
+      setLenderLoanIds(lenderIds);
+      setAccountLoanIds(ids);
+      setLoanSources((current) => ({ ...current, ...sources }));
+      setLogs((current) =>
+        logLine(
+          `Wallet loans refreshed: ${borrowerIds.length} borrowed, ${lenderIds.length} lent.`,
+          current
+        )
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`Wallet loan lookup failed: ${message}`, current));
+      pushToast("Read-only error", message, "error");
+    }
+  };
+
+  const refreshLoan = async (loanId: number) => {
+    const { sources } = await readLoans([loanId]);
+    setLoanSources((current) => ({ ...current, ...sources }));
+  };
+
+  const loadLinkedLoan = async (loanId: number) => {
+    try {
+      const { ids, sources } = await readLoans([loanId]);
+      setLoanSources((current) => ({ ...current, ...sources }));
+      setScannedLoanIds((current) => [...current.filter((id) => id !== loanId), ...ids]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`Linked loan #${loanId} lookup failed: ${message}`, current));
+    }
+  };
+
+  const handleCopyLoanLink = async (loanId: number) => {
+    const link = `${window.location.origin}${loansPath(loanId, explorerFilters)}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      pushToast("Link copied", `Loan #${loanId}: ${link}`, "success");
+    } catch {
+      pushToast("Copy failed", link, "error");
+    }
+  };
+
+  const refreshTimeline = async (loanId: number) => {
+    setTimelines((current) => ({
+      ...current,
+      [loanId]: { ...(current[loanId] ?? { entries: [], complete: false }), loading: true },
+    }));
+    try {
+      const timeline = config.indexerUrl
+        ? await fetchIndexedLoanTimeline(config.indexerUrl, loanId)
+        : await fetchLoanTimeline(config, loanId);
+      setTimelines((current) => ({ ...current, [loanId]: { ...timeline, loading: false } }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setTimelines((current) => ({
+        ...current,
+        [loanId]: { ...(current[loanId] ?? { entries: [], complete: false }), loading: false },
+      }));
+      setLogs((current) => logLine(`Event history for loan #${loanId} failed: ${message}`, current));
+    }
+  };
+
+  const updateTransaction = (txId: string, patch: Partial<TrackedTransaction>) =>
+    setTransactions((current) =>
+      current.map((entry) => (entry.txId === txId ? { ...entry, ...patch } : entry))
     );
-    if (indexerAddScan && ids.length) {
-      setIndexedLoanIds((current) => {
-        const next = Array.from(new Set([...current, ...ids])).sort((a, b) => a - b);
-        return next;
+
+  const networkConfig = (network: NetworkName) =>
+    network === config.network ? config : profileConfig(NETWORK_PROFILES[network]);
+
+  const watchTransaction = async ({
+    txId,
+    action,
+    loanId,
+    network,
+  }: Pick<TrackedTransaction, "txId" | "action" | "loanId" | "network">) => {
+    const onCurrentNetwork = network === config.network;
+    try {
+      const tx = await waitForTransaction(networkConfig(network), txId);
+      if (!tx) {
+        updateTransaction(txId, {
+          status: "unknown",
+          message: "Not confirmed yet; check again later.",
+        });
+        setLogs((current) => logLine(`${action} still unconfirmed (${txId}).`, current));
+        return;
+      }
+      const outcome = decodeTransactionResult(tx);
+      if (outcome.status === "failed") {
+        const info = outcome.code !== undefined ? contractError(outcome.code) : undefined;
+        const label = info ? `${info.name} (u${info.code})` : "Transaction failed";
+        updateTransaction(txId, { status: "failed", message: outcome.message });
+        setLogs((current) =>
+          logLine(`${action} failed on-chain: ${label} ${outcome.message}`, current)
+        );
+        pushToast(label, outcome.message, "error");
+        return;
+      }
+      const createdId =
+        action === "create-loan" || action === "accept-offer"
+          ? createdLoanIdFromTx(tx)
+          : undefined;
+      const affected = loanId ?? createdId;
+      updateTransaction(txId, {
+        status: "success",
+        loanId: affected,
+        message: createdId !== undefined ? `Loan #${createdId}` : undefined,
+      });
+      setLogs((current) => logLine(`${action} confirmed (${txId}).`, current));
+      if (!onCurrentNetwork) return;
+      if (createdId !== undefined) {
+        setManageLoanId(createdId);
+        pushToast("Loan created", `Your loan was assigned ID #${createdId}.`, "success");
+      } else {
+        pushToast("Confirmed", `${action} confirmed on-chain.`, "success");
+      }
+      if (affected !== undefined) {
+        await refreshLoan(affected);
+        void refreshTimeline(affected);
+      }
+      void refreshAccountLoans();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      updateTransaction(txId, { status: "unknown", message: `Lookup failed: ${message}` });
+      setLogs((current) => logLine(`Tracking ${txId} failed: ${message}`, current));
+    }
+  };
+
+  const trackTransaction = (txId: string, action: string, loanId?: number) => {
+    const entry: TrackedTransaction = {
+      txId,
+      action,
+      loanId,
+      network: config.network,
+      status: "pending",
+      submittedAt: Date.now(),
+    };
+    setTransactions((current) => [entry, ...current.slice(0, 19)]);
+    void watchTransaction(entry);
+  };
+
+  const recheckTransaction = (entry: TrackedTransaction) => {
+    updateTransaction(entry.txId, { status: "pending", message: undefined });
+    void watchTransaction(entry);
+  };
+
+  useEffect(() => {
+    transactions
+      .filter((entry) => entry.status === "pending")
+      .forEach((entry) => void watchTransaction(entry));
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(TRANSACTIONS_KEY, JSON.stringify(transactions));
+  }, [transactions]);
+
+  const refreshAssets = async () => {
+    if (!canRead) return;
+    try {
+      const [owner, contracts, oracle] = await Promise.all([
+        fetchContractOwner(config),
+        fetchAllowedAssets(config),
+        fetchPriceOracle(config),
+      ]);
+      const results = await Promise.allSettled(
+        contracts.map((contract) => fetchTokenMeta(config, contract))
+      );
+      const loaded: TokenMeta[] = [];
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled") {
+          loaded.push(result.value);
+        } else {
+          const message = result.reason instanceof Error ? result.reason.message : "Unknown error";
+          setLogs((current) =>
+            logLine(`Token metadata failed (${contracts[index]}): ${message}`, current)
+          );
+        }
       });
+      setContractOwner(owner);
+      setContractOracle(oracle);
+      setTokens(loaded);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`Asset whitelist lookup failed: ${message}`, current));
     }
   };
 
-  const handleIndexRefresh = async () => {
-    await fetchLoansByIds(indexedLoanIds, "Refreshed indexed loans.");
+  useEffect(() => {
+    void refreshAssets();
+  }, [config]);
+
+  const refreshExtensions = async (loanId: number) => {
+    try {
+      const [proposal, history] = await Promise.all([
+        fetchExtensionProposal(config, loanId),
+        fetchExtensionHistory(config, loanId),
+      ]);
+      setExtensionProposal(proposal);
+      setExtensionHistory(history);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setLogs((current) => logLine(`Extension lookup failed: ${message}`, current));
+    }
   };
 
+  useEffect(() => {
+    setExtensionProposal(null);
+    setExtensionHistory([]);
+    if (selectedLoanId === null || !canRead) return;
+    setExtensionDraft({ endBlock: 0, repayAmount: "" });
+    void refreshExtensions(selectedLoanId);
+  }, [selectedLoanId, config]);
+
+  // Fills the draft once the loan is loaded, and the repay amount once its token's
+  // decimals are known; fields already holding a value are left alone.
+  useEffect(() => {
+    if (!extensionLoan) return;
+    setExtensionDraft((current) => ({
+      endBlock: current.endBlock || Number(extensionLoan.end_block),
+      repayAmount:
+        current.repayAmount ||
+        fieldAmount(tokens, extensionLoan.repay_amount, extensionLoan.principal_token),
+    }));
+  }, [extensionLoan, tokens]);
+
+  useEffect(() => {
+    if (selectedLoanId === null || !canRead) return;
+    if (scannedLoans.some((loan) => loan.id === selectedLoanId)) return;
+    void loadLinkedLoan(selectedLoanId);
+  }, [selectedLoanId, config]);
+
+  useEffect(() => {
+    setTimelines({});
+  }, [config]);
+
+  useEffect(() => {
+    if (selectedLoanId === null || !(config.address || config.indexerUrl)) return;
+    void refreshTimeline(selectedLoanId);
+  }, [selectedLoanId, config]);
+
+  useEffect(() => {
+    if (!address) {
+      setBorrowerLoanIds([]);
+      setLenderLoanIds([]);
+      setAccountLoanIds([]);
+      return;
+    }
+    void refreshAccountLoans();
+  }, [address, config]);
+
   const handleDiagnosticsRead = async () => {
     if (!canRead) {
       pushToast("Missing config", "Set API URL, contract, and read-only sender.", "error");
@@ -903,12 +2246,18 @@ export default function App() {
         status: STATUS_LABELS[loan.status.toString()] ?? "Unknown",
         borrower: loan.borrower,
         lender: loan.lender ?? "",
-        principal: loan.principal,
-        collateral: loan.collateral,
-        repay: loan.repay,
+        principal: source
+          ? csvAmount(tokens, source.principal_amount, source.principal_token)
+          : loan.principal,
+        principalAsset: tokenSymbol(tokens, source?.principal_token),
+        collateral: source
+          ? csvAmount(tokens, source.collateral_amount, source.collateral_token)
+          : loan.collateral,
+        collateralAsset: tokenSymbol(tokens, source?.collateral_token),
+        repay: source ? csvAmount(tokens, source.repay_amount, source.principal_token) : loan.repay,
         duration: loan.duration,
         endBlock: loan.endBlock,
-        apr: source ? calculateApr(source).toFixed(2) : "",
+        apr: source ? loanApr(source).toFixed(2) : "",
       };
     });
     downloadCsv("loans-export.csv", rows);
@@ -920,47 +2269,20 @@ export default function App() {
       pushToast("Export", "Select a loan to export history.", "info");
       return;
     }
-    const status = selectedLoan.status;
-    const rows: CsvRow[] = [
-      {
-        loanId: selectedLoan.id,
-        event: "Created",
-        status: STATUS_LABELS[STATUS.OPEN.toString()],
-        note: "Loan created",
-      },
-    ];
-    if (status >= STATUS.FUNDED) {
-      rows.push({
-        loanId: selectedLoan.id,
-        event: "Funded",
-        status: STATUS_LABELS[STATUS.FUNDED.toString()],
-        note: "Principal released",
-      });
-    }
-    if (status === STATUS.REPAID) {
-      rows.push({
-        loanId: selectedLoan.id,
-        event: "Repaid",
-        status: STATUS_LABELS[STATUS.REPAID.toString()],
-        note: "Loan repaid",
-      });
-    }
-    if (status === STATUS.DEFAULTED) {
-      rows.push({
-        loanId: selectedLoan.id,
-        event: "Defaulted",
-        status: STATUS_LABELS[STATUS.DEFAULTED.toString()],
-        note: "Collateral claimed",
-      });
-    }
-    if (status === STATUS.CANCELLED) {
-      rows.push({
-        loanId: selectedLoan.id,
-        event: "Cancelled",
-        status: STATUS_LABELS[STATUS.CANCELLED.toString()],
-        note: "Loan cancelled",
-      });
+    if (!timelineRows.length) {
+      pushToast("Export", "No events loaded for this loan yet.", "info");
+      return;
     }
+    const rows: CsvRow[] = timelineRows.map(({ entry, label, amounts }) => ({
+      loanId: selectedLoan.id,
+      event: label,
+      blockHeight: entry.blockHeight,
+      timestamp: entry.timestamp ? new Date(entry.timestamp * 1000).toISOString() : "",
+      txId: entry.txId,
+      actor: entry.actor,
+      amounts: amounts.join("; "),
+      explorer: explorerTxUrl(config, entry.txId),
+    }));
     downloadCsv(`loan-${selectedLoan.id}-history.csv`, rows);
     pushToast("Export", "Repayment history CSV downloaded.", "success");
   };
@@ -987,6 +2309,55 @@ export default function App() {
           </Card>
         ))}
       </div>
+      {preflight ? (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-950/70 p-4">
+          <Card className="w-full max-w-lg">
+            <CardHeader>
+              <CardTitle>Preflight: {preflight.action}</CardTitle>
+              <CardDescription>
+                Checked against the contract's rules and your wallet balances before the wallet
+                opens. Failing checks would abort the transaction.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {preflight.checks.map((check) => (
+                <div
+                  key={check.label}
+                  className="flex items-center justify-between gap-3 rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2"
+                >
+                  <span>
+                    {check.label}
+                    {check.error ? (
+                      <span className="block text-xs text-slate-400">{check.error.message}</span>
+                    ) : null}
+                  </span>
+                  <Badge
+                    className={
+                      check.ok
+                        ? "border-emerald-500/40 bg-emerald-900/40 text-emerald-200"
+                        : "border-rose-500/40 bg-rose-900/40 text-rose-200"
+                    }
+                  >
+                    {check.ok ? "OK" : check.error?.name ?? "Unchecked"}
+                  </Badge>
+                </div>
+              ))}
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => setPreflight(null)}>Close</button>
+                <button
+                  className="ghost"
+                  onClick={() => {
+                    setPreflight(null);
+                    preflight.submitAnyway();
+                  }}
+                >
+                  Submit anyway
+                </button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      ) : null}
       <header className="site-header">
         <div className="topbar">
           <div className="topbar-brand">
@@ -997,7 +2368,10 @@ export default function App() {
             <NavLink to="/" end className={({ isActive }) => (isActive ? "active" : "")}>
               Dashboard
             </NavLink>
-            <NavLink to="/loans" className={({ isActive }) => (isActive ? "active" : "")}>
+            <NavLink
+              to={loansPath(selectedLoanId, explorerFilters)}
+              className={isLoans ? "active" : ""}
+            >
               Loans
             </NavLink>
             <NavLink to="/admin" className={({ isActive }) => (isActive ? "active" : "")}>
@@ -1005,6 +2379,17 @@ export default function App() {
             </NavLink>
           </nav>
           <div className="topbar-actions">
+            <select
+              aria-label="Network"
+              value={networkName}
+              onChange={(event) => handleNetworkChange(event.target.value as NetworkName)}
+            >
+              {NETWORK_NAMES.map((name) => (
+                <option key={name} value={name}>
+                  {NETWORK_PROFILES[name].label}
+                </option>
+              ))}
+            </select>
             <button className="primary" onClick={handleConnect} disabled={isConnecting}>
               {isConnected
                 ? `Connected: ${address}`
@@ -1038,15 +2423,15 @@ export default function App() {
               <h2 className="mb-2">Borrower + Lender Overview</h2>
               <p className="subtitle small">
                 Track active positions, repayment pressure, and defaults from the
-                latest scan.
+                on-chain borrower and lender indexes.
               </p>
             </div>
             <div className="flex flex-wrap gap-2">
               <Badge className="border-slate-700 bg-slate-900">
-                Scanned loans {scannedLoans.length}
+                {address ? `Wallet loans ${accountLoans.length}` : `Scanned loans ${scannedLoans.length}`}
               </Badge>
-              <Badge className="border-slate-700 bg-slate-900">
-                Current block {currentBlock || "Not set"}
+              <Badge className={chainTipBadgeClass}>
+                {chainTipLabel}
               </Badge>
               <Badge className="border-slate-700 bg-slate-900">
                 {address ? "Filtered to wallet" : "Connect wallet for filtering"}
@@ -1075,7 +2460,7 @@ export default function App() {
                   <CardHeader>
                     <CardTitle>Repayments Due</CardTitle>
                     <CardDescription>
-                      Set current block height to detect overdue loans.
+                      Compared against the live chain tip.
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -1119,7 +2504,7 @@ export default function App() {
                       borrowerDashboard.dueLoans,
                       currentBlock
                         ? "No repayments due."
-                        : "Add a current block to compute due loans."
+                        : "Waiting for the chain tip to compute due loans."
                     )}
                   </CardContent>
                 </Card>
@@ -1242,7 +2627,7 @@ export default function App() {
                   {address ? "Wallet-linked" : "Connect wallet for borrower filtering"}
                 </Badge>
                 <Badge className="border-slate-700 bg-slate-800 text-slate-300">
-                  Based on scanned loans
+                  Based on get-borrower-loans
                 </Badge>
               </div>
             </CardContent>
@@ -1279,7 +2664,7 @@ export default function App() {
             <CardHeader>
               <CardTitle>Lender Risk Indicators</CardTitle>
               <CardDescription>
-                Collateral ratio insights, volatility notes, and repayment history.
+                USD loan-to-value, health factors, and repayment history.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -1297,18 +2682,22 @@ export default function App() {
                   <p className="text-2xl font-semibold">{lenderRisk.defaultRate}%</p>
                 </div>
                 <div>
-                  <p className="text-sm text-slate-400">Avg collateral ratio</p>
+                  <p className="text-sm text-slate-400">Avg LTV (USD)</p>
                   <p className="text-2xl font-semibold">
-                    {lenderRisk.avgCollateralRatio
-                      ? lenderRisk.avgCollateralRatio.toFixed(2) + "x"
-                      : "—"}
+                    {lenderRisk.avgLtv !== null ? `${(lenderRisk.avgLtv * 100).toFixed(1)}%` : "—"}
                   </p>
                 </div>
               </div>
               <div className="mt-4 flex flex-wrap items-center gap-2">
                 <Badge className="border-slate-700 bg-slate-800 text-slate-300">
-                  Volatility note: assumes stable pricing
+                  Prices: {priceSource.name}
+                </Badge>
+                <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                  {lenderRisk.atRisk} below health 1.0
                 </Badge>
+                <button className="ghost" onClick={() => void refreshPrices()}>
+                  Refresh prices
+                </button>
                 <Badge className="border-slate-700 bg-slate-800 text-slate-300">
                   {address ? "Wallet-linked" : "Connect wallet for lender filtering"}
                 </Badge>
@@ -1316,10 +2705,8 @@ export default function App() {
               <div className="mt-4 space-y-2">
                 {lenderLoans.length ? (
                   lenderLoans.slice(0, 3).map((loan) => {
-                    const source = loanSources[loan.id];
-                    const ratio = source
-                      ? Number(source.collateral_amount) / Number(source.principal_amount || 1)
-                      : 0;
+                    const health = loanHealthById[loan.id];
+                    const shown = formatHealth(health);
                     return (
                       <div
                         key={loan.id}
@@ -1332,10 +2719,13 @@ export default function App() {
                           </div>
                         </div>
                         <Badge className="border-slate-700 bg-slate-800 text-slate-300">
-                          Collateral ratio {ratio ? ratio.toFixed(2) + "x" : "—"}
+                          LTV {shown.ltv}
                         </Badge>
                         <Badge className="border-slate-700 bg-slate-800 text-slate-300">
-                          {riskLabel(ratio)}
+                          Health {shown.healthFactor}
+                        </Badge>
+                        <Badge className={riskBadgeClass(riskLevel(health ?? null))}>
+                          {RISK_LABELS[riskLevel(health ?? null)]}
                         </Badge>
                       </div>
                     );
@@ -1366,7 +2756,8 @@ export default function App() {
                   </span>
                 </div>
                 <div className="rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2 text-xs text-slate-400">
-                  Add oracle pricing to improve collateral volatility scoring.
+                  Health factor is collateral value × 80% over the outstanding debt in USD;
+                  below 1.0 the collateral no longer covers the loan with a safety margin.
                 </div>
               </div>
             </CardContent>
@@ -1374,6 +2765,100 @@ export default function App() {
         </section>
         ) : null}
 
+        {isAdmin ? (
+          <section className="grid gap-4 lg:grid-cols-3">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Asset Whitelist</CardTitle>
+                <CardDescription>
+                  SIP-010 tokens the lending contract accepts as principal or collateral.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                    Owner {formatAddress(contractOwner)}
+                  </Badge>
+                  {isContractOwner ? (
+                    <Badge className="border-emerald-500/40 bg-emerald-900/40 text-emerald-200">
+                      Connected as owner
+                    </Badge>
+                  ) : null}
+                  <button className="ghost" onClick={() => void refreshAssets()}>
+                    Refresh
+                  </button>
+                </div>
+                <div className="mt-4 space-y-3">
+                  {tokens.length ? (
+                    tokens.map((token) => (
+                      <div
+                        key={token.contract}
+                        className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-700/70 bg-slate-900/80 p-3 text-sm"
+                      >
+                        <div className="space-y-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-semibold">{token.symbol}</span>
+                            <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                              {token.name}
+                            </Badge>
+                            <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                              {token.decimals} decimals
+                            </Badge>
+                          </div>
+                          <div className="text-xs text-slate-400">
+                            {token.contract}::{token.assetName}
+                          </div>
+                        </div>
+                        <button
+                          className="ghost"
+                          onClick={() => handleAssetAction("remove-asset", token.contract)}
+                          disabled={!isContractOwner}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-sm text-slate-400">
+                      No SIP-010 tokens whitelisted yet. STX is always accepted.
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Add Asset</CardTitle>
+                <CardDescription>Whitelist another SIP-010 token (owner only).</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  <label>
+                    Token contract
+                    <input
+                      placeholder="SP...token-name"
+                      value={assetDraft}
+                      onChange={(event) => setAssetDraft(event.target.value)}
+                    />
+                  </label>
+                  <button
+                    className="primary"
+                    onClick={() => handleAssetAction("add-asset", assetDraft.trim())}
+                    disabled={!isContractOwner}
+                  >
+                    Add asset
+                  </button>
+                  {!isContractOwner ? (
+                    <p className="text-xs text-slate-400">
+                      Connect the contract owner wallet to change the whitelist.
+                    </p>
+                  ) : null}
+                </div>
+              </CardContent>
+            </Card>
+          </section>
+        ) : null}
+
         {isAdmin && import.meta.env.DEV ? (
           <section className="grid gap-4 lg:grid-cols-3">
             <Card className="lg:col-span-2">
@@ -1451,7 +2936,7 @@ export default function App() {
                     Track errors via the activity log and toast stack.
                   </div>
                   <div className="rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2">
-                    Extend with event indexing once a backend indexer is live.
+                    Indexer {config.indexerUrl || "not set"}. Start it with npm start in indexer/.
                   </div>
                 </div>
               </CardContent>
@@ -1472,7 +2957,7 @@ export default function App() {
             <CardHeader>
               <CardTitle>Wallet-Based Notifications</CardTitle>
               <CardDescription>
-                Create reminders for upcoming end-block deadlines based on the latest scan.
+                Create reminders for upcoming end-block deadlines for your wallet loans.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -1486,120 +2971,33 @@ export default function App() {
                     onChange={(event) => setReminderWindow(Number(event.target.value))}
                   />
                 </div>
-                <Badge className="border-slate-700 bg-slate-900">
-                  Current block {currentBlock || "Not set"}
+                <Badge className={chainTipBadgeClass}>
+                  {chainTipLabel}
                 </Badge>
                 <Badge className="border-slate-700 bg-slate-900">
                   {address ? "Filtered to wallet" : "Connect wallet for targeting"}
                 </Badge>
               </div>
               <div className="mt-4 space-y-2">
-                {reminders.length ? (
-                  reminders.map((item) => (
-                    <div
-                      key={item.id}
-                      className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-700/70 bg-slate-900/80 p-3 text-sm"
-                    >
-                      <Badge className={item.tone}>{item.message}</Badge>
-                      <button
-                        className="rounded-full border border-slate-700 bg-slate-900 px-3 py-1 text-xs font-medium text-slate-200 shadow-sm transition hover:bg-slate-800"
-                        onClick={() => pushReminder(item.message)}
-                      >
-                        Add to activity log
-                      </button>
-                    </div>
-                  ))
-                ) : (
-                  <p className="text-sm text-slate-400">
-                    No upcoming reminders yet. Set current block and scan loans to populate
-                    alerts.
-                  </p>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardHeader>
-              <CardTitle>Reminder Summary</CardTitle>
-              <CardDescription>Quick totals for your wallet view.</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3 text-sm">
-                <div className="flex items-center justify-between">
-                  <span className="text-slate-400">Upcoming</span>
-                  <span className="font-semibold">
-                    {reminders.filter((item) => item.id.includes("upcoming")).length}
-                  </span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-slate-400">Overdue</span>
-                  <span className="font-semibold">
-                    {reminders.filter((item) => item.id.includes("overdue")).length}
-                  </span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-slate-400">Total reminders</span>
-                  <span className="font-semibold">{reminders.length}</span>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </section>
-        ) : null}
-
-        {isLoans ? (
-        <section className="grid gap-4 lg:grid-cols-3">
-          <Card className="lg:col-span-2">
-            <CardHeader>
-              <CardTitle>SIP-010 Token Registry</CardTitle>
-              <CardDescription>
-                Manage supported tokens for loan creation and display labels.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {tokens.length ? (
-                  tokens.map((token) => (
-                    <div
-                      key={token.id}
-                      className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-700/70 bg-slate-900/80 p-3 text-sm"
-                    >
-                      <div className="space-y-1">
-                        <div className="flex flex-wrap items-center gap-2">
-                          <span className="font-semibold">{token.symbol}</span>
-                          <Badge className="border-slate-700 bg-slate-800 text-slate-300">
-                            {token.name}
-                          </Badge>
-                          {token.id === defaultTokenId ? (
-                            <Badge className="border-emerald-500/40 bg-emerald-900/40 text-emerald-200">
-                              Default
-                            </Badge>
-                          ) : null}
-                        </div>
-                        <div className="text-xs text-slate-400">
-                          {token.contract}
-                        </div>
-                      </div>
-                      <div className="flex flex-wrap gap-2">
-                        <button
-                          className="ghost"
-                          onClick={() => setDefaultTokenId(token.id)}
-                          disabled={token.id === defaultTokenId}
-                        >
-                          Set default
-                        </button>
-                        <button
-                          className="ghost"
-                          onClick={() => handleRemoveToken(token.id)}
-                        >
-                          Remove
-                        </button>
-                      </div>
+                {reminders.length ? (
+                  reminders.map((item) => (
+                    <div
+                      key={item.id}
+                      className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-700/70 bg-slate-900/80 p-3 text-sm"
+                    >
+                      <Badge className={item.tone}>{item.message}</Badge>
+                      <button
+                        className="rounded-full border border-slate-700 bg-slate-900 px-3 py-1 text-xs font-medium text-slate-200 shadow-sm transition hover:bg-slate-800"
+                        onClick={() => pushReminder(item.message)}
+                      >
+                        Add to activity log
+                      </button>
                     </div>
                   ))
                 ) : (
                   <p className="text-sm text-slate-400">
-                    No tokens configured yet.
+                    No upcoming reminders yet. Load loans once the chain tip is available to
+                    populate alerts.
                   </p>
                 )}
               </div>
@@ -1607,65 +3005,27 @@ export default function App() {
           </Card>
           <Card>
             <CardHeader>
-              <CardTitle>Add Token</CardTitle>
-              <CardDescription>Register another SIP-010 asset.</CardDescription>
+              <CardTitle>Reminder Summary</CardTitle>
+              <CardDescription>Quick totals for your wallet view.</CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-3">
-                <label>
-                  Symbol
-                  <input
-                    value={tokenDraft.symbol}
-                    onChange={(event) =>
-                      setTokenDraft((current) => ({
-                        ...current,
-                        symbol: event.target.value,
-                      }))
-                    }
-                  />
-                </label>
-                <label>
-                  Name
-                  <input
-                    value={tokenDraft.name}
-                    onChange={(event) =>
-                      setTokenDraft((current) => ({
-                        ...current,
-                        name: event.target.value,
-                      }))
-                    }
-                  />
-                </label>
-                <label>
-                  Contract
-                  <input
-                    placeholder="SP...token-name"
-                    value={tokenDraft.contract}
-                    onChange={(event) =>
-                      setTokenDraft((current) => ({
-                        ...current,
-                        contract: event.target.value,
-                      }))
-                    }
-                  />
-                </label>
-                <label>
-                  Decimals
-                  <input
-                    type="number"
-                    min={0}
-                    value={tokenDraft.decimals}
-                    onChange={(event) =>
-                      setTokenDraft((current) => ({
-                        ...current,
-                        decimals: Number(event.target.value),
-                      }))
-                    }
-                  />
-                </label>
-                <button className="primary" onClick={handleAddToken}>
-                  Add token
-                </button>
+              <div className="space-y-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-400">Upcoming</span>
+                  <span className="font-semibold">
+                    {reminders.filter((item) => item.id.includes("upcoming")).length}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-400">Overdue</span>
+                  <span className="font-semibold">
+                    {reminders.filter((item) => item.id.includes("overdue")).length}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-400">Total reminders</span>
+                  <span className="font-semibold">{reminders.length}</span>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -1678,96 +3038,77 @@ export default function App() {
             <CardHeader>
               <CardTitle>Loan Indexer</CardTitle>
               <CardDescription>
-                Keep a local index of loan IDs and refresh them without range scans.
+                Loan IDs for the connected wallet, read from the indexer service when one is set
+                or enumerated on-chain by the lending contract otherwise.
               </CardDescription>
             </CardHeader>
             <CardContent>
+              <label className="mb-3 block">
+                Indexer URL
+                <input
+                  type="url"
+                  placeholder="http://localhost:3700"
+                  value={config.indexerUrl ?? ""}
+                  onChange={(event) =>
+                    setConfig((current) => ({ ...current, indexerUrl: event.target.value.trim() }))
+                  }
+                />
+              </label>
               <div className="flex flex-wrap items-center gap-3">
                 <Badge className="border-slate-700 bg-slate-900">
-                  Indexed loans {indexedLoanIds.length}
+                  {config.indexerUrl ? "Indexed loans" : "On-chain loans"} {loanCount ?? "—"}
                 </Badge>
-                <button className="primary" onClick={handleIndexRefresh}>
-                  Refresh indexed loans
+                <button className="primary" onClick={refreshAccountLoans} disabled={!address}>
+                  Refresh wallet loans
                 </button>
-                <button
-                  className="ghost"
-                  onClick={() => setIndexedLoanIds([])}
-                  disabled={!indexedLoanIds.length}
-                >
-                  Clear index
+                <button className="ghost" onClick={handleScan}>
+                  Load all loans
                 </button>
               </div>
-              <div className="mt-4 space-y-3">
-                {indexedLoanIds.length ? (
-                  <div className="flex flex-wrap gap-2 text-xs text-slate-300">
-                    {indexedLoanIds.map((id) => (
-                      <Badge key={id} className="border-slate-700 bg-slate-800 text-slate-300">
-                        #{id}
-                      </Badge>
-                    ))}
-                  </div>
-                ) : (
-                  <p className="text-sm text-slate-400">
-                    Add loan IDs to build the index, or scan a range and save them.
-                  </p>
-                )}
-              </div>
-              <div className="mt-6 grid gap-3 md:grid-cols-2">
-                <label>
-                  Add loan ID
-                  <div className="flex gap-2">
-                    <input
-                      type="number"
-                      min={1}
-                      value={indexerInput}
-                      onChange={(event) => setIndexerInput(event.target.value)}
-                    />
-                    <button className="ghost" type="button" onClick={handleAddIndexedLoan}>
-                      Add
-                    </button>
-                  </div>
-                </label>
-                <label>
-                  Import IDs (comma or space separated)
-                  <div className="flex gap-2">
-                    <input
-                      value={indexerImport}
-                      onChange={(event) => setIndexerImport(event.target.value)}
-                      placeholder="1, 2, 3"
-                    />
-                    <button className="ghost" type="button" onClick={handleImportIndexedLoans}>
-                      Import
-                    </button>
+              <div className="mt-4 grid gap-4 md:grid-cols-2">
+                {[
+                  { label: "Borrowed", ids: borrowerLoanIds },
+                  { label: "Lent", ids: lenderLoanIds },
+                ].map((group) => (
+                  <div key={group.label} className="space-y-2">
+                    <p className="text-sm font-semibold text-slate-400">{group.label}</p>
+                    {group.ids.length ? (
+                      <div className="flex flex-wrap gap-2 text-xs text-slate-300">
+                        {group.ids.map((id) => (
+                          <Badge key={id} className="border-slate-700 bg-slate-800 text-slate-300">
+                            #{id}
+                          </Badge>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-slate-400">
+                        {address ? "No loans yet." : "Connect a wallet to load loan IDs."}
+                      </p>
+                    )}
                   </div>
-                </label>
+                ))}
               </div>
             </CardContent>
           </Card>
           <Card>
             <CardHeader>
-              <CardTitle>Indexer Options</CardTitle>
-              <CardDescription>Control how scans update the index.</CardDescription>
+              <CardTitle>Index Sources</CardTitle>
+              <CardDescription>
+                {config.indexerUrl ? "Indexer endpoints" : "Read-only calls"} that back each view.
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-3">
-                <label>
-                  Add scanned IDs to indexer
-                  <select
-                    value={indexerAddScan ? "yes" : "no"}
-                    onChange={(event) => setIndexerAddScan(event.target.value === "yes")}
-                  >
-                    <option value="yes">Yes</option>
-                    <option value="no">No</option>
-                  </select>
-                </label>
-                <label>
-                  Indexed loans
-                  <p className="text-sm text-slate-400">
-                    {indexedLoanIds.length
-                      ? `Next refresh will fetch ${indexedLoanIds.length} IDs.`
-                      : "No indexed loans yet."}
-                  </p>
-                </label>
+              <div className="space-y-2 text-sm text-slate-300">
+                <div className="rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2">
+                  Loan Explorer: {config.indexerUrl ? "GET /loans" : "get-loan-count"}
+                </div>
+                <div className="rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2">
+                  Borrower dashboard:{" "}
+                  {config.indexerUrl ? "GET /loans?borrower=" : "get-borrower-loans"}
+                </div>
+                <div className="rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2">
+                  Lender dashboard: {config.indexerUrl ? "GET /loans?lender=" : "get-lender-loans"}
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -1786,29 +3127,43 @@ export default function App() {
             <CardContent>
               <div className="grid gap-3 md:grid-cols-2">
                 <label>
-                  Principal amount
+                  Asset
+                  <select
+                    value={calcInput.token}
+                    onChange={(event) =>
+                      setCalcInput((current) => ({ ...current, token: event.target.value }))
+                    }
+                  >
+                    <option value="">STX</option>
+                    {tokens.map((token) => (
+                      <option key={token.contract} value={token.contract}>
+                        {token.symbol}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Principal amount ({calcAsset.symbol})
                   <input
-                    type="number"
-                    min={0}
+                    inputMode="decimal"
                     value={calcInput.principal}
                     onChange={(event) =>
                       setCalcInput((current) => ({
                         ...current,
-                        principal: Number(event.target.value),
+                        principal: event.target.value,
                       }))
                     }
                   />
                 </label>
                 <label>
-                  Repay amount
+                  Repay amount ({calcAsset.symbol})
                   <input
-                    type="number"
-                    min={0}
+                    inputMode="decimal"
                     value={calcInput.repay}
                     onChange={(event) =>
                       setCalcInput((current) => ({
                         ...current,
-                        repay: Number(event.target.value),
+                        repay: event.target.value,
                       }))
                     }
                   />
@@ -1841,6 +3196,75 @@ export default function App() {
                     }
                   />
                 </label>
+                <label>
+                  Already repaid ({calcAsset.symbol})
+                  <input
+                    inputMode="decimal"
+                    value={calcInput.repaid}
+                    onChange={(event) =>
+                      setCalcInput((current) => ({
+                        ...current,
+                        repaid: event.target.value,
+                      }))
+                    }
+                  />
+                </label>
+                <label>
+                  Installments
+                  <input
+                    type="number"
+                    min={1}
+                    value={calcInput.installments}
+                    onChange={(event) =>
+                      setCalcInput((current) => ({
+                        ...current,
+                        installments: Number(event.target.value),
+                      }))
+                    }
+                  />
+                </label>
+                <label>
+                  Grace period (blocks)
+                  <input
+                    type="number"
+                    min={0}
+                    value={calcInput.gracePeriod}
+                    onChange={(event) =>
+                      setCalcInput((current) => ({
+                        ...current,
+                        gracePeriod: Number(event.target.value),
+                      }))
+                    }
+                  />
+                </label>
+                <label>
+                  Late fee per block ({calcAsset.symbol})
+                  <input
+                    inputMode="decimal"
+                    value={calcInput.lateFeePerBlock}
+                    onChange={(event) =>
+                      setCalcInput((current) => ({
+                        ...current,
+                        lateFeePerBlock: event.target.value,
+                      }))
+                    }
+                  />
+                </label>
+              </div>
+              <div className="mt-3 flex flex-wrap items-center gap-3">
+                <button
+                  className="ghost"
+                  type="button"
+                  onClick={handleLoadLoanIntoCalculator}
+                  disabled={!selectedLoan}
+                >
+                  Use selected loan
+                </button>
+                <span className="text-xs text-slate-400">
+                  {selectedLoan
+                    ? `Loan #${selectedLoan.id} selected.`
+                    : "Select a loan in the explorer to prefill the calculator."}
+                </span>
               </div>
               {repaymentSummary ? (
                 <div className="mt-4 grid gap-3 md:grid-cols-3">
@@ -1851,10 +3275,10 @@ export default function App() {
                     </CardHeader>
                     <CardContent>
                       <div className="text-2xl font-semibold">
-                        {repaymentSummary.totalDue}
+                        {formatCalcAmount(repaymentSummary.totalDue)}
                       </div>
                       <p className="text-xs text-slate-400">
-                        Interest: {repaymentSummary.interest}
+                        Interest: {formatCalcAmount(repaymentSummary.interest)}
                       </p>
                     </CardContent>
                   </Card>
@@ -1865,10 +3289,19 @@ export default function App() {
                     </CardHeader>
                     <CardContent>
                       <div className="text-2xl font-semibold">
-                        {repaymentSummary.apr.toFixed(2)}%
+                        {bpsToPercent(repaymentSummary.apr).toFixed(2)}%
                       </div>
                       <p className="text-xs text-slate-400">
-                        Per-block interest: {repaymentSummary.perBlock.toFixed(2)}
+                        Effective APY if rolled over:{" "}
+                        {bpsToPercent(repaymentSummary.apy).toFixed(2)}%
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        Per-block interest:{" "}
+                        {formatAmount(
+                          repaymentSummary.perBlock,
+                          calcAsset.decimals + ACCRUAL_DECIMALS,
+                          { symbol: calcAsset.symbol }
+                        )}
                       </p>
                     </CardContent>
                   </Card>
@@ -1886,6 +3319,23 @@ export default function App() {
                       </p>
                     </CardContent>
                   </Card>
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Grace Period</CardTitle>
+                      <CardDescription>Late repayment window before default.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-2xl font-semibold">
+                        {repaymentSummary.grace.blocks.toString()} blocks
+                      </div>
+                      <p className="text-xs text-slate-400">
+                        Fee {formatCalcAmount(repaymentSummary.grace.feePerBlock)}/block, up to{" "}
+                        {formatCalcAmount(repaymentSummary.grace.maxLateFee)} (max due{" "}
+                        {formatCalcAmount(repaymentSummary.grace.maxTotalDue)}). Repay by block{" "}
+                        {repaymentSummary.grace.lastRepayBlock.toString()} of the term.
+                      </p>
+                    </CardContent>
+                  </Card>
                 </div>
               ) : (
                 <p className="mt-4 text-sm text-slate-400">
@@ -1907,8 +3357,8 @@ export default function App() {
                       key={point.label}
                       className="flex items-center justify-between rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2"
                     >
-                      <span>{point.label} • block {point.block}</span>
-                      <span className="font-semibold">{point.totalDue}</span>
+                      <span>{point.label} • block {point.block.toString()}</span>
+                      <span className="font-semibold">{formatCalcAmount(point.totalDue)}</span>
                     </div>
                   ))}
                 </div>
@@ -1919,6 +3369,54 @@ export default function App() {
               )}
             </CardContent>
           </Card>
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <CardTitle>Installment Plan</CardTitle>
+              <CardDescription>
+                Split the outstanding balance into repay-partial calls for loan #{manageLoanId}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {repaymentSummary?.installmentPlan.length ? (
+                <div className="space-y-3 text-sm">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                      Outstanding {formatCalcAmount(repaymentSummary.balance)}
+                    </Badge>
+                    <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                      {repaymentSummary.installmentPlan.length} installments
+                    </Badge>
+                  </div>
+                  {repaymentSummary.installmentPlan.map((installment) => (
+                    <div
+                      key={installment.index}
+                      className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2"
+                    >
+                      <span>
+                        #{installment.index} • by block +{installment.block.toString()}
+                      </span>
+                      <div className="flex items-center gap-3">
+                        <span className="font-semibold">
+                          {formatCalcAmount(installment.amount)}
+                        </span>
+                        <button
+                          className="ghost"
+                          onClick={() => handleAction("repay-partial", installment.amount)}
+                          disabled={Boolean(manageErrors.length) || isCooldownActive}
+                        >
+                          Submit
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-slate-400">
+                  Nothing left to repay for the current inputs.
+                </p>
+              )}
+            </CardContent>
+          </Card>
         </section>
         ) : null}
 
@@ -1928,97 +3426,123 @@ export default function App() {
             <h2>Create Loan</h2>
             <div className="panel-grid">
               <label>
-                Loan ID
+                Duration (blocks)
                 <input
                   type="number"
-                  min={0}
-                  value={createForm.loanId}
+                  min={1}
+                  value={createForm.duration}
+                  onChange={(event) =>
+                    setCreateForm((current) => {
+                      const duration = Number(event.target.value);
+                      if (!autoApplyPresets) {
+                        return { ...current, duration };
+                      }
+                      return {
+                        ...current,
+                        duration,
+                        repayAmount: presetRepay({ ...current, duration }),
+                      };
+                    })
+                  }
+                />
+              </label>
+              <label>
+                Repay amount ({createAssets.principal.symbol ?? "token"})
+                <input
+                  inputMode="decimal"
+                  value={createForm.repayAmount}
                   onChange={(event) =>
                     setCreateForm((current) => ({
                       ...current,
-                      loanId: Number(event.target.value),
+                      repayAmount: event.target.value,
                     }))
                   }
                 />
               </label>
               <label>
-                Duration (blocks)
+                Principal amount ({createAssets.principal.symbol ?? "token"})
                 <input
-                  type="number"
-                  min={1}
-                  value={createForm.duration}
+                  inputMode="decimal"
+                  value={createForm.principalAmount}
                   onChange={(event) =>
                     setCreateForm((current) => {
-                      const duration = Number(event.target.value);
+                      const next = { ...current, principalAmount: event.target.value };
                       if (!autoApplyPresets) {
-                        return { ...current, duration };
+                        return next;
                       }
                       return {
-                        ...current,
-                        duration,
-                        repayAmount: calcRepayFromApr(
-                          current.principalAmount,
-                          aprPreset,
-                          duration
-                        ),
+                        ...next,
+                        repayAmount: presetRepay(next),
+                        collateralAmount: presetCollateral(next),
                       };
                     })
                   }
                 />
               </label>
               <label>
-                Repay amount
+                Collateral amount ({createAssets.collateral.symbol ?? "token"})
+                <input
+                  inputMode="decimal"
+                  value={createForm.collateralAmount}
+                  onChange={(event) =>
+                    setCreateForm((current) => ({
+                      ...current,
+                      collateralAmount: event.target.value,
+                    }))
+                  }
+                />
+              </label>
+              <label>
+                Grace period (blocks)
+                <input
+                  type="number"
+                  min={0}
+                  value={createForm.gracePeriod}
+                  onChange={(event) =>
+                    setCreateForm((current) => ({
+                      ...current,
+                      gracePeriod: Number(event.target.value),
+                    }))
+                  }
+                />
+              </label>
+              <label>
+                Late fee per block ({createAssets.principal.symbol ?? "token"})
                 <input
-                  type="number"
-                  min={1}
-                  value={createForm.repayAmount}
+                  inputMode="decimal"
+                  value={createForm.lateFeePerBlock}
                   onChange={(event) =>
                     setCreateForm((current) => ({
                       ...current,
-                      repayAmount: Number(event.target.value),
+                      lateFeePerBlock: event.target.value,
                     }))
                   }
                 />
               </label>
               <label>
-                Principal amount
+                Liquidation ratio % (0 = none)
                 <input
                   type="number"
-                  min={1}
-                  value={createForm.principalAmount}
+                  min={0}
+                  value={createForm.liquidationRatio}
                   onChange={(event) =>
-                    setCreateForm((current) => {
-                      const principalAmount = Number(event.target.value);
-                      if (!autoApplyPresets) {
-                        return { ...current, principalAmount };
-                      }
-                      return {
-                        ...current,
-                        principalAmount,
-                        repayAmount: calcRepayFromApr(
-                          principalAmount,
-                          aprPreset,
-                          current.duration
-                        ),
-                        collateralAmount: calcCollateralFromRatio(
-                          principalAmount,
-                          collateralPreset
-                        ),
-                      };
-                    })
+                    setCreateForm((current) => ({
+                      ...current,
+                      liquidationRatio: Number(event.target.value),
+                    }))
                   }
                 />
               </label>
               <label>
-                Collateral amount
+                Expiry block (0 = none)
                 <input
                   type="number"
-                  min={1}
-                  value={createForm.collateralAmount}
+                  min={0}
+                  value={createForm.expiryBlock}
                   onChange={(event) =>
                     setCreateForm((current) => ({
                       ...current,
-                      collateralAmount: Number(event.target.value),
+                      expiryBlock: Number(event.target.value),
                     }))
                   }
                 />
@@ -2028,7 +3552,7 @@ export default function App() {
               <label>
                 Principal token
                 <select
-                  value={createForm.principalIsStx ? "stx" : selectedPrincipalTokenId}
+                  value={createForm.principalIsStx ? "stx" : selectedPrincipalToken?.contract ?? ""}
                   onChange={(event) => {
                     const next = event.target.value;
                     if (next === "stx") {
@@ -2041,7 +3565,7 @@ export default function App() {
                 >
                   <option value="stx">STX</option>
                   {tokens.map((token) => (
-                    <option key={token.id} value={token.id}>
+                    <option key={token.contract} value={token.contract}>
                       {token.symbol}
                     </option>
                   ))}
@@ -2050,7 +3574,7 @@ export default function App() {
               <label>
                 Collateral token
                 <select
-                  value={createForm.collateralIsStx ? "stx" : selectedCollateralTokenId}
+                  value={createForm.collateralIsStx ? "stx" : selectedCollateralToken?.contract ?? ""}
                   onChange={(event) => {
                     const next = event.target.value;
                     if (next === "stx") {
@@ -2063,7 +3587,7 @@ export default function App() {
                 >
                   <option value="stx">STX</option>
                   {tokens.map((token) => (
-                    <option key={token.id} value={token.id}>
+                    <option key={token.contract} value={token.contract}>
                       {token.symbol}
                     </option>
                   ))}
@@ -2081,11 +3605,7 @@ export default function App() {
                     if (autoApplyPresets) {
                       setCreateForm((current) => ({
                         ...current,
-                        repayAmount: calcRepayFromApr(
-                          current.principalAmount,
-                          next,
-                          current.duration
-                        ),
+                        repayAmount: presetRepay(current, next),
                       }));
                     }
                   }}
@@ -2099,18 +3619,21 @@ export default function App() {
               </label>
               <label>
                 Collateral ratio preset
+                {collateralPresetReady ? null : (
+                  <span className="text-xs text-slate-400">
+                    Needs USD prices for both assets ({priceSource.name}).
+                  </span>
+                )}
                 <select
                   value={collateralPreset}
+                  disabled={!collateralPresetReady}
                   onChange={(event) => {
                     const next = Number(event.target.value);
                     setCollateralPreset(next);
                     if (autoApplyPresets) {
                       setCreateForm((current) => ({
                         ...current,
-                        collateralAmount: calcCollateralFromRatio(
-                          current.principalAmount,
-                          next
-                        ),
+                        collateralAmount: presetCollateral(current, next),
                       }));
                     }
                   }}
@@ -2226,7 +3749,7 @@ export default function App() {
             </div>
             <button
               className="primary"
-              onClick={handleCreate}
+              onClick={() => handleCreate()}
               disabled={Boolean(createErrors.length) || isCooldownActive}
             >
               Create loan
@@ -2238,7 +3761,10 @@ export default function App() {
                 ))}
               </div>
             ) : null}
-            <p className="hint">Collateral is escrowed in the contract on create.</p>
+            <p className="hint">
+              Collateral is escrowed in the contract on create. The loan ID is assigned
+              on-chain once the transaction confirms.
+            </p>
           </article>
 
           <article className="panel">
@@ -2253,6 +3779,14 @@ export default function App() {
                   onChange={(event) => setManageLoanId(Number(event.target.value))}
                 />
               </label>
+              <label>
+                Installment amount ({tokenSymbol(tokens, manageLoan?.principal_token)})
+                <input
+                  inputMode="decimal"
+                  value={installmentAmount}
+                  onChange={(event) => setInstallmentAmount(event.target.value)}
+                />
+              </label>
             </div>
             <div className="action-row">
               <button
@@ -2267,12 +3801,26 @@ export default function App() {
               >
                 Repay
               </button>
+              <button
+                onClick={() => handleAction("repay-partial", installment.units ?? undefined)}
+                disabled={
+                  Boolean(manageErrors.length || installment.error) || isCooldownActive
+                }
+              >
+                Repay installment
+              </button>
               <button
                 onClick={() => handleAction("claim-default")}
                 disabled={Boolean(manageErrors.length) || isCooldownActive}
               >
                 Claim default
               </button>
+              <button
+                onClick={() => handleAction("liquidate")}
+                disabled={Boolean(manageErrors.length) || isCooldownActive || !contractOracle}
+              >
+                Liquidate
+              </button>
               <button
                 className="ghost"
                 onClick={() => handleAction("cancel-loan")}
@@ -2280,6 +3828,13 @@ export default function App() {
               >
                 Cancel
               </button>
+              <button
+                className="ghost"
+                onClick={() => handleAction("expire-loan")}
+                disabled={Boolean(manageErrors.length) || isCooldownActive}
+              >
+                Expire request
+              </button>
             </div>
             {manageErrors.length ? (
               <div className="space-y-1 text-sm text-rose-600">
@@ -2288,6 +3843,9 @@ export default function App() {
                 ))}
               </div>
             ) : null}
+            {installmentAmount && installment.error ? (
+              <div className="text-sm text-rose-600">{installment.error}</div>
+            ) : null}
             <p className="hint">
               Funding sends the principal to escrow and immediately releases it to
               the borrower.
@@ -2299,63 +3857,34 @@ export default function App() {
               <div>
                 <h2>Loan Explorer</h2>
                 <p className="subtitle small">
-                  Scan a range of loan IDs, then filter by asset, status, APR, or duration.
+                  Load every loan from the contract, then filter by asset, status, APR, or duration.
                 </p>
               </div>
               <div className="panel-grid compact">
-                <label>
-                  Start ID
-                  <input
-                    type="number"
-                    min={0}
-                    value={scanRange.start}
-                    onChange={(event) =>
-                      setScanRange((current) => ({
-                        ...current,
-                        start: Number(event.target.value),
-                      }))
-                    }
-                  />
-                </label>
-                <label>
-                  End ID
-                  <input
-                    type="number"
-                    min={0}
-                    value={scanRange.end}
-                    onChange={(event) =>
-                      setScanRange((current) => ({
-                        ...current,
-                        end: Number(event.target.value),
-                      }))
-                    }
-                  />
-                </label>
-                <button
-                  className="primary"
-                  onClick={handleScan}
-                  disabled={Boolean(scanErrors.length)}
-                >
-                  Scan
+                <Badge className="border-slate-700 bg-slate-900">
+                  On-chain loans {loanCount ?? "—"}
+                </Badge>
+                <button className="primary" onClick={handleScan}>
+                  Load loans
                 </button>
               </div>
             </div>
-            {scanErrors.length ? (
-              <div className="space-y-1 text-sm text-rose-600">
-                {scanErrors.map((error) => (
-                  <div key={error}>{error}</div>
-                ))}
-              </div>
-            ) : null}
+            <Tabs defaultValue="loans" className="w-full">
+            <TabsList>
+              <TabsTrigger value="loans">Loans</TabsTrigger>
+              <TabsTrigger value="offers">Offers</TabsTrigger>
+              <TabsTrigger value="positions">Positions for sale</TabsTrigger>
+            </TabsList>
+            <TabsContent value="loans">
             <div className="flex flex-wrap items-center justify-between gap-3">
               <p className="hint">
-                Use the Loan Indexer to refresh known IDs without scanning ranges.
+                Your borrowed and lent loans load automatically when a wallet is connected.
               </p>
-              <button className="ghost" onClick={handleIndexRefresh}>
-                Refresh indexed loans
+              <button className="ghost" onClick={refreshAccountLoans} disabled={!address}>
+                Refresh wallet loans
               </button>
             </div>
-            <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-4">
+            <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-5">
               <label>
                 Status
                 <select
@@ -2371,6 +3900,7 @@ export default function App() {
                   <option value="repaid">Repaid</option>
                   <option value="defaulted">Defaulted</option>
                   <option value="cancelled">Cancelled</option>
+                  <option value="expired">Expired</option>
                 </select>
               </label>
               <label>
@@ -2383,10 +3913,27 @@ export default function App() {
                   }}
                 >
                   <option value="all">All</option>
-                  <option value="principal-stx">Principal: STX</option>
-                  <option value="principal-token">Principal: Token</option>
-                  <option value="collateral-stx">Collateral: STX</option>
-                  <option value="collateral-token">Collateral: Token</option>
+                  {assetFilterOptions.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Risk (USD health)
+                <select
+                  value={riskFilter}
+                  onChange={(event) => {
+                    setRiskFilter(event.target.value);
+                    setPage(1);
+                  }}
+                >
+                  <option value="all">All</option>
+                  <option value="low">Low risk</option>
+                  <option value="moderate">Moderate risk</option>
+                  <option value="high">High risk</option>
+                  <option value="unknown">Unpriced</option>
                 </select>
               </label>
               <label>
@@ -2456,7 +4003,7 @@ export default function App() {
               {pagedLoans.length ? (
                 pagedLoans.map((loan) => {
                   const source = loanSources[loan.id];
-                  const aprValue = source ? calculateApr(source) : 0;
+                  const aprValue = source ? loanApr(source) : 0;
                   return (
                   <div
                     className="loan-card cursor-pointer transition hover:-translate-y-0.5 hover:shadow-lg"
@@ -2477,6 +4024,19 @@ export default function App() {
                     <span className="loan-tag">
                       APR: {aprValue ? `${aprValue.toFixed(1)}%` : "—"}
                     </span>
+                    <span className="loan-tag">
+                      LTV: {formatHealth(loanHealthById[loan.id]).ltv} ·{" "}
+                      {RISK_LABELS[riskLevel(loanHealthById[loan.id] ?? null)]}
+                    </span>
+                    <button
+                      className="ghost"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        void handleCopyLoanLink(loan.id);
+                      }}
+                    >
+                      Copy link
+                    </button>
                   </div>
                   );
                 })
@@ -2519,9 +4079,33 @@ export default function App() {
                           <Badge className="border-slate-700 bg-slate-800 text-slate-300">
                             Repay {selectedLoan.repay}
                           </Badge>
+                          <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                            Remaining {selectedLoan.remaining}
+                          </Badge>
                           <Badge className="border-slate-700 bg-slate-800 text-slate-300">
                             End block {selectedLoan.endBlock}
                           </Badge>
+                          {selectedLoan.gracePeriod ? (
+                            <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                              Grace {selectedLoan.gracePeriod} blocks · fee{" "}
+                              {assetAmount(
+                                tokens,
+                                selectedLoan.lateFeePerBlock,
+                                selectedLoan.principalToken
+                              )}
+                              /block
+                            </Badge>
+                          ) : null}
+                          {selectedLoan.liquidationRatio ? (
+                            <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                              Liquidates below {selectedLoan.liquidationRatio / 100}% collateral
+                            </Badge>
+                          ) : null}
+                          {selectedLoan.expiryBlock !== undefined ? (
+                            <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                              Request expires {selectedLoan.expiryBlock}
+                            </Badge>
+                          ) : null}
                         </div>
                       </div>
                       <div className="space-y-3">
@@ -2547,6 +4131,16 @@ export default function App() {
                           >
                             Claim default
                           </button>
+                          {loanHealthById[selectedLoan.id]?.liquidatable ? (
+                            <button
+                              onClick={() => handleAction("liquidate")}
+                              disabled={
+                                Boolean(manageErrors.length) || isCooldownActive || !contractOracle
+                              }
+                            >
+                              Liquidate
+                            </button>
+                          ) : null}
                           <button
                             className="ghost"
                             onClick={() => handleAction("cancel-loan")}
@@ -2554,36 +4148,158 @@ export default function App() {
                           >
                             Cancel
                           </button>
+                          <button
+                            className="ghost"
+                            onClick={() => handleAction("expire-loan")}
+                            disabled={Boolean(manageErrors.length) || isCooldownActive}
+                          >
+                            Expire request
+                          </button>
                         </div>
                         <p className="text-xs text-slate-400">
                           Actions run against the selected loan ID.
                         </p>
+                        <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+                          Term Extension
+                        </h3>
+                        {extensionProposal ? (
+                          <div className="space-y-2 rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2 text-sm text-slate-300">
+                            <div>
+                              Proposed by {formatAddress(extensionProposal.proposer)} at block{" "}
+                              {extensionProposal.proposed_at.toString()}
+                            </div>
+                            <div className="text-slate-400">
+                              End block {selectedLoan.endBlock} →{" "}
+                              {extensionProposal.end_block.toString()} · Repay{" "}
+                              {assetAmount(
+                                tokens,
+                                extensionProposal.repay_amount,
+                                selectedLoan.principalToken
+                              )}
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                              <button
+                                onClick={() => handleExtensionAction("accept-extension")}
+                                disabled={!canAcceptExtension}
+                              >
+                                Accept
+                              </button>
+                              <button
+                                className="ghost"
+                                onClick={() => handleExtensionAction("reject-extension")}
+                                disabled={!isBorrowerOfSelected && !isLenderOfSelected}
+                              >
+                                Reject
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="space-y-2">
+                            <div className="grid gap-2 sm:grid-cols-2">
+                              <label>
+                                New end block
+                                <input
+                                  type="number"
+                                  min={0}
+                                  value={extensionDraft.endBlock}
+                                  onChange={(event) =>
+                                    setExtensionDraft((current) => ({
+                                      ...current,
+                                      endBlock: Number(event.target.value),
+                                    }))
+                                  }
+                                />
+                              </label>
+                              <label>
+                                New repay amount (
+                                {tokenSymbol(tokens, selectedLoan.principalToken)})
+                                <input
+                                  inputMode="decimal"
+                                  value={extensionDraft.repayAmount}
+                                  onChange={(event) =>
+                                    setExtensionDraft((current) => ({
+                                      ...current,
+                                      repayAmount: event.target.value,
+                                    }))
+                                  }
+                                />
+                              </label>
+                            </div>
+                            {extensionErrors.length ? (
+                              <div className="space-y-1 text-sm text-rose-600">
+                                {extensionErrors.map((error) => (
+                                  <div key={error}>{error}</div>
+                                ))}
+                              </div>
+                            ) : null}
+                            <button
+                              onClick={() => handleExtensionAction("propose-extension")}
+                              disabled={
+                                Boolean(extensionErrors.length) ||
+                                (!isBorrowerOfSelected && !isLenderOfSelected)
+                              }
+                            >
+                              Propose extension
+                            </button>
+                          </div>
+                        )}
                       </div>
                       <div className="space-y-3">
                         <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
                           Transaction History
                         </h3>
-                    <div className="space-y-2 text-sm text-slate-300">
-                      <div className="flex items-center justify-between rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2">
-                        <span>Created</span>
-                        <span className="text-slate-400">On-chain</span>
-                      </div>
-                          <div className="flex items-center justify-between rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2">
-                            <span>Funded</span>
-                            <span className="text-slate-400">
-                              {selectedLoan.status >= STATUS.FUNDED ? "Confirmed" : "Pending"}
-                            </span>
-                          </div>
-                          <div className="flex items-center justify-between rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2">
-                            <span>Repayment</span>
-                            <span className="text-slate-400">
-                              {selectedLoan.status >= STATUS.REPAID ? "Settled" : "Awaiting"}
-                            </span>
-                          </div>
+                        <div className="space-y-2 text-sm text-slate-300">
+                          {timelineRows.length ? (
+                            timelineRows.map(({ entry, label, time, amounts }) => (
+                              <div
+                                key={`${entry.txId}-${entry.eventIndex}`}
+                                className="rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2"
+                              >
+                                <div className="flex items-center justify-between gap-2">
+                                  <span>{label}</span>
+                                  <a
+                                    className="text-xs text-slate-400"
+                                    href={explorerTxUrl(config, entry.txId)}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                  >
+                                    Block {entry.blockHeight}
+                                  </a>
+                                </div>
+                                <p className="text-xs text-slate-400">
+                                  {time} · {formatAddress(entry.actor)}
+                                </p>
+                                {amounts.map((amount) => (
+                                  <p key={amount} className="text-xs text-slate-300">
+                                    {amount}
+                                  </p>
+                                ))}
+                              </div>
+                            ))
+                          ) : (
+                            <p className="text-slate-400">
+                              {selectedTimeline?.loading
+                                ? "Loading contract events…"
+                                : "No events found for this loan yet."}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <p className="text-xs text-slate-400">
+                            {config.indexerUrl
+                              ? "Events from the indexer."
+                              : selectedTimeline && !selectedTimeline.complete
+                                ? "Only recent contract events were scanned; older entries may be missing."
+                                : "Events from the Stacks API contract event log."}
+                          </p>
+                          <button
+                            className="ghost"
+                            onClick={() => refreshTimeline(selectedLoan.id)}
+                            disabled={selectedTimeline?.loading}
+                          >
+                            Refresh events
+                          </button>
                         </div>
-                        <p className="text-xs text-slate-400">
-                          Hook up an indexer later for detailed timestamps.
-                        </p>
                         <button className="ghost" onClick={handleExportRepaymentHistory}>
                           Export repayment history CSV
                         </button>
@@ -2591,7 +4307,7 @@ export default function App() {
                     </div>
                   ) : (
                     <p className="text-sm text-slate-400">
-                      Scan loans to populate the detail view.
+                      Load loans to populate the detail view.
                     </p>
                   )}
                 </CardContent>
@@ -2614,9 +4330,11 @@ export default function App() {
                       setPage(1);
                     }}
                   >
-                    <option value={4}>4</option>
-                    <option value={6}>6</option>
-                    <option value={9}>9</option>
+                    {PAGE_SIZES.map((size) => (
+                      <option key={size} value={size}>
+                        {size}
+                      </option>
+                    ))}
                   </select>
                 </label>
                 <button
@@ -2640,10 +4358,526 @@ export default function App() {
                 </button>
               </div>
             </div>
+            </TabsContent>
+            <TabsContent value="offers">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="hint">
+                  Lenders escrow principal up front; a borrower takes an offer by posting
+                  collateral and receives the principal in the same transaction.
+                </p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge className="border-slate-700 bg-slate-900">
+                    On-chain offers {offerCount ?? "—"}
+                  </Badge>
+                  <button className="ghost" onClick={handleLoadOffers}>
+                    Load offers
+                  </button>
+                </div>
+              </div>
+              <div className="loan-list">
+                {Object.keys(offers).length ? (
+                  Object.entries(offers).map(([id, offer]) => (
+                    <div
+                      className="loan-card cursor-pointer transition hover:-translate-y-0.5 hover:shadow-lg"
+                      key={id}
+                      onClick={() => {
+                        setSelectedOfferId(Number(id));
+                        setAcceptTerms({
+                          duration: Number(offer.max_duration),
+                          collateralAmount: fieldAmount(
+                            tokens,
+                            offerMinCollateral(offer),
+                            offer.collateral_token
+                          ),
+                        });
+                      }}
+                    >
+                      <strong>Offer #{id}</strong>
+                      <span className="loan-tag">
+                        Status: {OFFER_STATUS_LABELS[offer.status.toString()] ?? "Unknown"}
+                      </span>
+                      <span className="loan-tag">
+                        Principal:{" "}
+                        {assetAmount(tokens, offer.principal_amount, offer.principal_token)}
+                      </span>
+                      <span className="loan-tag">
+                        Collateral: {tokenSymbol(tokens, offer.collateral_token)} ≥{" "}
+                        {Number(offer.min_collateral_bps) / 100}%
+                      </span>
+                      <span className="loan-tag">Rate: {Number(offer.rate_bps) / 100}%</span>
+                      <span className="loan-tag">Max duration: {offer.max_duration.toString()}</span>
+                      <span className="loan-tag">Expires: block {offer.expiry_block.toString()}</span>
+                    </div>
+                  ))
+                ) : (
+                  <p className="hint">No offers loaded yet.</p>
+                )}
+              </div>
+              <div className="mt-6 grid gap-4 lg:grid-cols-2">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Take Offer</CardTitle>
+                    <CardDescription>
+                      Choose a term up to the offer's maximum and post enough collateral.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {selectedOffer && selectedOfferId !== null ? (
+                      <div className="space-y-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-lg font-semibold">Offer #{selectedOfferId}</span>
+                          <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                            Lender {formatAddress(selectedOffer.lender)}
+                          </Badge>
+                          <Badge className="border-slate-700 bg-slate-800 text-slate-300">
+                            Repay{" "}
+                            {assetAmount(
+                              tokens,
+                              offerRepayAmount(selectedOffer),
+                              selectedOffer.principal_token
+                            )}
+                          </Badge>
+                          {selectedOffer.loan_id !== undefined ? (
+                            <Badge className="border-emerald-500/40 bg-emerald-900/40 text-emerald-200">
+                              Loan #{selectedOffer.loan_id}
+                            </Badge>
+                          ) : null}
+                        </div>
+                        <div className="panel-grid">
+                          <label>
+                            Duration (blocks)
+                            <input
+                              type="number"
+                              min={1}
+                              max={Number(selectedOffer.max_duration)}
+                              value={acceptTerms.duration}
+                              onChange={(event) =>
+                                setAcceptTerms((current) => ({
+                                  ...current,
+                                  duration: Number(event.target.value),
+                                }))
+                              }
+                            />
+                          </label>
+                          <label>
+                            Collateral ({tokenSymbol(tokens, selectedOffer.collateral_token)})
+                            <input
+                              inputMode="decimal"
+                              value={acceptTerms.collateralAmount}
+                              onChange={(event) =>
+                                setAcceptTerms((current) => ({
+                                  ...current,
+                                  collateralAmount: event.target.value,
+                                }))
+                              }
+                            />
+                          </label>
+                        </div>
+                        {acceptErrors.length ? (
+                          <div className="space-y-1 text-sm text-rose-600">
+                            {acceptErrors.map((error) => (
+                              <div key={error}>{error}</div>
+                            ))}
+                          </div>
+                        ) : null}
+                        <div className="flex flex-wrap gap-2">
+                          <button
+                            className="primary"
+                            onClick={() => handleOfferAction("accept-offer", selectedOfferId)}
+                            disabled={
+                              selectedOffer.status !== OFFER_STATUS.OPEN ||
+                              Boolean(acceptErrors.length) ||
+                              isCooldownActive
+                            }
+                          >
+                            Accept offer
+                          </button>
+                          {normalizeAddress(address) === normalizeAddress(selectedOffer.lender) ? (
+                            <button
+                              className="ghost"
+                              onClick={() => handleOfferAction("cancel-offer", selectedOfferId)}
+                              disabled={selectedOffer.status !== OFFER_STATUS.OPEN}
+                            >
+                              Cancel offer
+                            </button>
+                          ) : null}
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-slate-400">Select an offer to take it.</p>
+                    )}
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Post Offer</CardTitle>
+                    <CardDescription>
+                      Escrow principal and let any borrower take it on your terms.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="panel-grid">
+                      <label>
+                        Principal token
+                        <select
+                          value={offerForm.principalToken}
+                          onChange={(event) =>
+                            setOfferForm((current) => ({
+                              ...current,
+                              principalToken: event.target.value,
+                            }))
+                          }
+                        >
+                          <option value="stx">STX</option>
+                          {tokens.map((token) => (
+                            <option key={token.contract} value={token.contract}>
+                              {token.symbol}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label>
+                        Principal amount ({tokenSymbol(tokens, offerPrincipalToken)})
+                        <input
+                          inputMode="decimal"
+                          value={offerForm.principalAmount}
+                          onChange={(event) =>
+                            setOfferForm((current) => ({
+                              ...current,
+                              principalAmount: event.target.value,
+                            }))
+                          }
+                        />
+                      </label>
+                      <label>
+                        Collateral token
+                        <select
+                          value={offerForm.collateralToken}
+                          onChange={(event) =>
+                            setOfferForm((current) => ({
+                              ...current,
+                              collateralToken: event.target.value,
+                            }))
+                          }
+                        >
+                          <option value="">Select</option>
+                          <option value="stx">STX</option>
+                          {tokens.map((token) => (
+                            <option key={token.contract} value={token.contract}>
+                              {token.symbol}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label>
+                        Min collateral (%)
+                        <input
+                          type="number"
+                          min={1}
+                          value={offerForm.minCollateralPct}
+                          onChange={(event) =>
+                            setOfferForm((current) => ({
+                              ...current,
+                              minCollateralPct: Number(event.target.value),
+                            }))
+                          }
+                        />
+                      </label>
+                      <label>
+                        Rate for the term (%)
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={offerForm.ratePct}
+                          onChange={(event) =>
+                            setOfferForm((current) => ({
+                              ...current,
+                              ratePct: Number(event.target.value),
+                            }))
+                          }
+                        />
+                      </label>
+                      <label>
+                        Max duration (blocks)
+                        <input
+                          type="number"
+                          min={1}
+                          value={offerForm.maxDuration}
+                          onChange={(event) =>
+                            setOfferForm((current) => ({
+                              ...current,
+                              maxDuration: Number(event.target.value),
+                            }))
+                          }
+                        />
+                      </label>
+                      <label>
+                        Expires in (blocks)
+                        <input
+                          type="number"
+                          min={1}
+                          value={offerForm.expiresIn}
+                          onChange={(event) =>
+                            setOfferForm((current) => ({
+                              ...current,
+                              expiresIn: Number(event.target.value),
+                            }))
+                          }
+                        />
+                      </label>
+                    </div>
+                    {offerErrors.length ? (
+                      <div className="space-y-1 text-sm text-rose-600">
+                        {offerErrors.map((error) => (
+                          <div key={error}>{error}</div>
+                        ))}
+                      </div>
+                    ) : null}
+                    <button
+                      className="primary mt-3"
+                      onClick={handlePostOffer}
+                      disabled={Boolean(offerErrors.length) || isCooldownActive}
+                    >
+                      Post offer
+                    </button>
+                  </CardContent>
+                </Card>
+              </div>
+            </TabsContent>
+            <TabsContent value="positions">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="hint">
+                  Lenders can sell a funded loan; the buyer pays the asking price in the
+                  principal asset and receives every later repayment or the defaulted collateral.
+                </p>
+                <button className="ghost" onClick={handleLoadPositions}>
+                  Load positions
+                </button>
+              </div>
+              <div className="loan-list">
+                {Object.keys(positionListings).length ? (
+                  Object.entries(positionListings).map(([id, listing]) => {
+                    const loan = loanSources[Number(id)];
+                    const reservedForOther =
+                      Boolean(listing.buyer) &&
+                      normalizeAddress(listing.buyer) !== normalizeAddress(address);
+                    return (
+                      <div className="loan-card" key={id}>
+                        <strong>Loan #{id}</strong>
+                        <span className="loan-tag">Seller: {formatAddress(listing.seller)}</span>
+                        <span className="loan-tag">
+                          Price:{" "}
+                          {loan
+                            ? assetAmount(tokens, listing.price, loan.principal_token)
+                            : `${listing.price} (base units)`}
+                        </span>
+                        {loan ? (
+                          <>
+                            <span className="loan-tag">
+                              Outstanding:{" "}
+                              {assetAmount(
+                                tokens,
+                                loan.repay_amount - loan.amount_repaid,
+                                loan.principal_token
+                              )}
+                            </span>
+                            <span className="loan-tag">Due: block {loan.end_block.toString()}</span>
+                          </>
+                        ) : null}
+                        {listing.buyer ? (
+                          <span className="loan-tag">Reserved: {formatAddress(listing.buyer)}</span>
+                        ) : null}
+                        <button
+                          className="primary"
+                          onClick={() => handlePositionAction("buy-position", Number(id))}
+                          disabled={
+                            reservedForOther ||
+                            normalizeAddress(address) === normalizeAddress(listing.seller) ||
+                            isCooldownActive
+                          }
+                        >
+                          Buy position
+                        </button>
+                      </div>
+                    );
+                  })
+                ) : (
+                  <p className="hint">No positions loaded yet.</p>
+                )}
+              </div>
+              <div className="mt-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Sell or Transfer Position</CardTitle>
+                    <CardDescription>
+                      Only the current lender of a funded loan can list, delist, or offer to
+                      transfer it.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="panel-grid">
+                      <label>
+                        Loan ID
+                        <input
+                          type="number"
+                          min={1}
+                          value={positionForm.loanId}
+                          onChange={(event) =>
+                            setPositionForm((current) => ({
+                              ...current,
+                              loanId: Number(event.target.value),
+                            }))
+                          }
+                        />
+                      </label>
+                      <label>
+                        Asking price (
+                        {positionLoan
+                          ? tokenSymbol(tokens, positionLoan.principal_token)
+                          : "principal asset"}
+                        )
+                        <input
+                          inputMode="decimal"
+                          value={positionForm.price}
+                          onChange={(event) =>
+                            setPositionForm((current) => ({
+                              ...current,
+                              price: event.target.value,
+                            }))
+                          }
+                        />
+                      </label>
+                      <label>
+                        Reserved buyer (optional)
+                        <input
+                          value={positionForm.buyer}
+                          placeholder="SP..."
+                          onChange={(event) =>
+                            setPositionForm((current) => ({
+                              ...current,
+                              buyer: event.target.value.trim(),
+                            }))
+                          }
+                        />
+                      </label>
+                      <label>
+                        Transfer recipient
+                        <input
+                          value={positionForm.recipient}
+                          placeholder="SP..."
+                          onChange={(event) =>
+                            setPositionForm((current) => ({
+                              ...current,
+                              recipient: event.target.value.trim(),
+                            }))
+                          }
+                        />
+                      </label>
+                    </div>
+                    {positionErrors.length ? (
+                      <div className="space-y-1 text-sm text-rose-600">
+                        {positionErrors.map((error) => (
+                          <div key={error}>{error}</div>
+                        ))}
+                      </div>
+                    ) : null}
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      <button
+                        className="primary"
+                        onClick={() => handlePositionAction("list-position", positionForm.loanId)}
+                        disabled={Boolean(positionErrors.length) || isCooldownActive}
+                      >
+                        List for sale
+                      </button>
+                      <button
+                        className="ghost"
+                        onClick={() => handlePositionAction("delist-position", positionForm.loanId)}
+                        disabled={positionForm.loanId <= 0 || isCooldownActive}
+                      >
+                        Delist
+                      </button>
+                      <button
+                        className="ghost"
+                        onClick={() =>
+                          handlePositionAction("transfer-position", positionForm.loanId)
+                        }
+                        disabled={!positionForm.recipient || isCooldownActive}
+                      >
+                        Offer transfer
+                      </button>
+                      <button
+                        className="ghost"
+                        onClick={() => handlePositionAction("claim-position", positionForm.loanId)}
+                        disabled={positionForm.loanId <= 0 || isCooldownActive}
+                      >
+                        Claim transfer
+                      </button>
+                    </div>
+                    <p className="hint">
+                      A transfer only moves the position once the recipient claims it here.
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+            </TabsContent>
+            </Tabs>
           </article>
         </section>
         ) : null}
 
+        {transactions.length ? (
+          <section className="panel">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2>Transactions</h2>
+              <button
+                className="ghost"
+                onClick={() =>
+                  setTransactions((current) =>
+                    current.filter(
+                      (entry) => entry.status === "pending" || entry.status === "unknown"
+                    )
+                  )
+                }
+              >
+                Clear finished
+              </button>
+            </div>
+            <div className="space-y-2 text-sm text-slate-300">
+              {transactions.map((entry) => (
+                <div
+                  key={entry.txId}
+                  className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-slate-700/70 bg-slate-900/80 px-3 py-2"
+                >
+                  <span>
+                    {entry.action}
+                    {entry.loanId !== undefined ? ` · loan #${entry.loanId}` : ""}
+                    {entry.network !== config.network ? ` · ${entry.network}` : ""}
+                    {entry.message ? (
+                      <span className="text-slate-400"> · {entry.message}</span>
+                    ) : null}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <Badge className={TX_STATUS_CLASSES[entry.status]}>{entry.status}</Badge>
+                    {entry.status === "unknown" ? (
+                      <button className="ghost" onClick={() => recheckTransaction(entry)}>
+                        Check again
+                      </button>
+                    ) : null}
+                    <a
+                      href={explorerTxUrl(networkConfig(entry.network), entry.txId)}
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      {formatAddress(entry.txId)}
+                    </a>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        ) : null}
+
         <section className="panel log-panel">
           <h2>Activity Log</h2>
           <pre className="log">{logs.join("\n")}</pre>
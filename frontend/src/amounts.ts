@@ -0,0 +1,74 @@
+import type { TokenMeta } from "./stacks";
+
+export const STX_DECIMALS = 6;
+
+export type AmountFormat = {
+  symbol?: string;
+  // Thousands separators for display; CSV exports turn them off.
+  grouping?: boolean;
+  // Truncates (never rounds up) the fraction shown.
+  maxFractionDigits?: number;
+};
+
+const AMOUNT_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Decimals for an asset as `(optional principal)`: STX when no token is given,
+// otherwise the SIP-010 `get-decimals` of a loaded token. Unknown tokens return
+// undefined so callers can fall back to base units.
+export const assetDecimals = (tokens: TokenMeta[], token?: string) =>
+  token ? tokens.find((entry) => entry.contract === token)?.decimals : STX_DECIMALS;
+
+// Parses "1,250.5" or "1.5 STX" into base units without going through floats.
+// A trailing symbol is only accepted when it matches `symbol`.
+export const parseAmount = (input: string, decimals: number, symbol?: string) => {
+  let value = input.trim();
+  if (symbol) {
+    value = value.replace(new RegExp(`\\s*${escapeRegExp(symbol)}$`, "i"), "");
+  }
+  value = value.replace(/[,_]/g, "");
+  if (value.startsWith("-")) throw new Error("Amount cannot be negative.");
+  const match = AMOUNT_PATTERN.exec(value);
+  if (!match || !/\d/.test(value)) {
+    throw new Error(`"${input.trim()}" is not a valid amount.`);
+  }
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    const places = decimals === 1 ? "place" : "places";
+    throw new Error(`${symbol ?? "This asset"} allows at most ${decimals} decimal ${places}.`);
+  }
+  const units = BigInt(fraction.padEnd(decimals, "0") || "0");
+  return BigInt(whole || "0") * 10n ** BigInt(decimals) + units;
+};
+
+export const parseAmountOrNull = (input: string, decimals: number, symbol?: string) => {
+  try {
+    return parseAmount(input, decimals, symbol);
+  } catch {
+    return null;
+  }
+};
+
+export const formatAmount = (
+  amount: bigint,
+  decimals: number,
+  { symbol, grouping = true, maxFractionDigits = decimals }: AmountFormat = {}
+) => {
+  const negative = amount < 0n;
+  const absolute = negative ? -amount : amount;
+  const scale = 10n ** BigInt(decimals);
+  const whole = (absolute / scale).toString();
+  const fraction = (absolute % scale)
+    .toString()
+    .padStart(decimals, "0")
+    .slice(0, Math.max(0, maxFractionDigits))
+    .replace(/0+$/, "");
+  const grouped = grouping ? whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",") : whole;
+  const number = `${negative ? "-" : ""}${grouped}${fraction ? `.${fraction}` : ""}`;
+  return symbol ? `${number} ${symbol}` : number;
+};
+
+// Moves an amount between two decimal scales, rounding down when precision is lost.
+export const rescaleAmount = (amount: bigint, from: number, to: number) =>
+  to >= from ? amount * 10n ** BigInt(to - from) : amount / 10n ** BigInt(from - to);
@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { fetchChainTip, isTipStale, type ChainTip, type ContractConfig } from "./stacks";
+
+export type ChainTipState = {
+  stacksHeight: number;
+  burnHeight: number;
+  updatedAt: number | null;
+  stale: boolean;
+  error: string | null;
+};
+
+export const useChainTip = (
+  config: Pick<ContractConfig, "apiUrl">,
+  { intervalMs = 15000, staleAfterMs = 120000 } = {}
+): ChainTipState => {
+  const [tip, setTip] = useState<ChainTip | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const { apiUrl } = config;
+
+  useEffect(() => {
+    setTip(null);
+    setError(null);
+    if (!apiUrl) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const next = await fetchChainTip({ apiUrl });
+        if (cancelled) return;
+        setTip(next);
+        setError(null);
+      } catch (pollError) {
+        if (cancelled) return;
+        setError(pollError instanceof Error ? pollError.message : "Unknown error");
+      } finally {
+        if (!cancelled) setNow(Date.now());
+      }
+    };
+
+    void poll();
+    const timer = setInterval(() => void poll(), intervalMs);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [apiUrl, intervalMs]);
+
+  return {
+    stacksHeight: tip?.stacksHeight ?? 0,
+    burnHeight: tip?.burnHeight ?? 0,
+    updatedAt: tip?.fetchedAt ?? null,
+    stale: isTipStale(tip, now, staleAfterMs),
+    error,
+  };
+};
@@ -0,0 +1,165 @@
+export type ErrorSource = "native" | "p2p-lending" | "sip-010" | "price-oracle";
+
+export type ContractErrorInfo = {
+  code: number;
+  name: string;
+  message: string;
+  actions: readonly string[];
+  source: ErrorSource;
+};
+
+const entry = (
+  code: number,
+  name: string,
+  message: string,
+  actions: readonly string[],
+  source: ErrorSource = "p2p-lending"
+): [number, ContractErrorInfo] => [code, { code, name, message, actions, source }];
+
+const REPAY = ["repay", "repay-partial"] as const;
+const TRANSFER = ["transfer"] as const;
+
+// Codes 1-3 come from the native stx-transfer? / ft-transfer? calls, u100+ from
+// p2p-lending.clar, u200+ from the SIP-010 token contracts (sbtc-token, mock-token)
+// and u300+ from mock-oracle.
+export const CONTRACT_ERRORS: Record<number, ContractErrorInfo> = Object.fromEntries([
+  entry(1, "INSUFFICIENT-BALANCE", "Insufficient balance for the transfer", TRANSFER, "native"),
+  entry(2, "SAME-PRINCIPAL", "Sender and recipient are the same account", TRANSFER, "native"),
+  entry(3, "NON-POSITIVE-AMOUNT", "Transfer amount must be positive", TRANSFER, "native"),
+  entry(100, "ERR-LOAN-EXISTS", "Loan already exists", ["create-loan", "accept-offer"]),
+  entry(101, "ERR-LOAN-NOT-FOUND", "Loan not found", [
+    "get-late-fee",
+    "cancel-loan",
+    "expire-loan",
+    "fund-loan",
+    ...REPAY,
+    "claim-default",
+    "liquidate",
+    "propose-extension",
+    "accept-extension",
+    "reject-extension",
+    "transfer-position",
+    "claim-position",
+    "list-position",
+    "buy-position",
+  ]),
+  entry(102, "ERR-NOT-BORROWER", "Only the borrower can do this", ["cancel-loan", ...REPAY]),
+  entry(103, "ERR-NOT-LENDER", "Only the lender can do this", [
+    "claim-default",
+    "liquidate",
+    "cancel-offer",
+    "transfer-position",
+    "list-position",
+    "delist-position",
+  ]),
+  entry(104, "ERR-NOT-OPEN", "Loan is not open", ["cancel-loan", "expire-loan", "fund-loan"]),
+  entry(105, "ERR-NOT-FUNDED", "Loan is not funded", [
+    ...REPAY,
+    "claim-default",
+    "liquidate",
+    "propose-extension",
+    "accept-extension",
+    "transfer-position",
+    "claim-position",
+    "list-position",
+    "buy-position",
+  ]),
+  entry(106, "ERR-PAST-DUE", "Loan is past due", REPAY),
+  entry(107, "ERR-NOT-PAST-DUE", "Loan is not past due yet", ["claim-default"]),
+  entry(108, "ERR-BAD-AMOUNT", "Invalid amount", ["create-loan", "repay-partial", "post-offer"]),
+  entry(109, "ERR-SAME-ASSET", "Principal and collateral must be different assets", [
+    "create-loan",
+    "post-offer",
+  ]),
+  entry(110, "ERR-NO-LENDER", "Loan has no lender", [...REPAY, "claim-default", "liquidate"]),
+  entry(111, "ERR-BAD-REPAY", "Repay amount must cover the principal", [
+    "create-loan",
+    "propose-extension",
+    "accept-extension",
+  ]),
+  entry(113, "ERR-WRONG-TOKEN", "Token does not match the loan", [
+    "cancel-loan",
+    "expire-loan",
+    "fund-loan",
+    ...REPAY,
+    "claim-default",
+    "liquidate",
+    "cancel-offer",
+    "accept-offer",
+    "buy-position",
+  ]),
+  entry(114, "ERR-NOT-OWNER", "Only the contract owner can do this", [
+    "set-contract-owner",
+    "set-price-oracle",
+    "add-asset",
+    "remove-asset",
+  ]),
+  entry(115, "ERR-ASSET-NOT-ALLOWED", "Asset is not whitelisted", ["create-loan", "post-offer"]),
+  entry(116, "ERR-TOO-MANY-ASSETS", "Asset whitelist is full", ["add-asset"]),
+  entry(117, "ERR-OFFER-NOT-FOUND", "Offer not found", ["cancel-offer", "accept-offer"]),
+  entry(118, "ERR-OFFER-NOT-OPEN", "Offer is not open", ["cancel-offer", "accept-offer"]),
+  entry(119, "ERR-OFFER-EXPIRED", "Offer has expired", ["accept-offer"]),
+  entry(120, "ERR-LOW-COLLATERAL", "Collateral is below the offer minimum", ["accept-offer"]),
+  entry(121, "ERR-BAD-DURATION", "Invalid duration", [
+    "create-loan",
+    "post-offer",
+    "accept-offer",
+    "propose-extension",
+    "accept-extension",
+  ]),
+  entry(122, "ERR-REQUEST-EXPIRED", "Loan request has expired", ["fund-loan"]),
+  entry(123, "ERR-NOT-EXPIRED", "Loan request has not expired yet", ["expire-loan"]),
+  entry(124, "ERR-IN-GRACE-PERIOD", "Loan is still in its grace period", ["claim-default"]),
+  entry(125, "ERR-NO-PROPOSAL", "No extension has been proposed", [
+    "accept-extension",
+    "reject-extension",
+  ]),
+  entry(126, "ERR-NOT-COUNTERPARTY", "Only the counterparty can accept", ["accept-extension"]),
+  entry(127, "ERR-NOT-PARTY", "Only the borrower or lender can do this", [
+    "propose-extension",
+    "reject-extension",
+  ]),
+  entry(128, "ERR-TOO-MANY-EXTENSIONS", "Extension history is full", ["accept-extension"]),
+  entry(129, "ERR-NOT-LISTED", "Position is not listed", ["delist-position", "buy-position"]),
+  entry(130, "ERR-NOT-BUYER", "Position is reserved for another buyer", ["buy-position"]),
+  entry(131, "ERR-SELF-TRANSFER", "Cannot transfer a position to yourself", [
+    "transfer-position",
+    "list-position",
+    "buy-position",
+  ]),
+  entry(132, "ERR-NO-THRESHOLD", "Loan has no liquidation ratio", ["liquidate"]),
+  entry(133, "ERR-WRONG-ORACLE", "Oracle is not the contract's price oracle", ["liquidate"]),
+  entry(134, "ERR-NO-PRICE", "Oracle has no price for a loan asset", ["liquidate"]),
+  entry(135, "ERR-NOT-UNDERCOLLATERALIZED", "Collateral still covers the liquidation ratio", [
+    "liquidate",
+  ]),
+  entry(136, "ERR-PROPOSAL-CHANGED", "Extension proposal changed since it was reviewed", [
+    "accept-extension",
+  ]),
+  entry(137, "ERR-NO-TRANSFER", "No position transfer is waiting for you", ["claim-position"]),
+  entry(138, "ERR-PRICE-CHANGED", "Position price changed since it was reviewed", ["buy-position"]),
+  entry(200, "ERR-NOT-OWNER", "Only the token owner can do this", ["mint"], "sip-010"),
+  entry(201, "ERR-UNAUTHORIZED", "Not authorized to move these tokens", TRANSFER, "sip-010"),
+  entry(300, "ERR-NOT-OWNER", "Only the oracle owner can set prices", ["set-price"], "price-oracle"),
+  entry(301, "ERR-NO-PRICE", "Oracle has no price for this asset", ["get-price"], "price-oracle"),
+]);
+
+export const contractError = (code: number): ContractErrorInfo =>
+  CONTRACT_ERRORS[code] ?? {
+    code,
+    name: `u${code}`,
+    message: `Contract error u${code}`,
+    actions: [],
+    source:
+      code >= 300 ? "price-oracle" : code >= 200 ? "sip-010" : code >= 100 ? "p2p-lending" : "native",
+  };
+
+export const errorCode = (name: string, source: ErrorSource = "p2p-lending") => {
+  const match = Object.values(CONTRACT_ERRORS).find(
+    (info) => info.name === name && info.source === source
+  );
+  if (!match) {
+    throw new Error(`Unknown ${source} error ${name}.`);
+  }
+  return match.code;
+};
@@ -0,0 +1,130 @@
+import type { Loan } from "./stacks";
+
+// Rates and ratios are basis points, like the contract's collateral, rate and
+// liquidation ratios. Amounts are base units and every result is a bigint, so
+// nothing is lost on large STX or sBTC balances.
+export const BPS = 10_000n;
+
+// Roughly 10-minute Stacks blocks.
+export const BLOCKS_PER_YEAR = 52_560;
+
+// `perBlockAccrual` keeps this many extra decimals below one base unit.
+export const ACCRUAL_DECIMALS = 4;
+
+const CHECKPOINTS_BPS = [2_500n, 5_000n, 7_500n, 10_000n];
+
+// Fixed-point scale for compounding in `apyBps`.
+const WAD = 10n ** 18n;
+
+const divRound = (numerator: bigint, denominator: bigint) =>
+  (numerator * 2n + denominator) / (denominator * 2n);
+
+const divCeil = (numerator: bigint, denominator: bigint) =>
+  (numerator + denominator - 1n) / denominator;
+
+const powWad = (base: bigint, exponent: bigint) => {
+  let result = WAD;
+  let factor = base;
+  for (let left = exponent; left > 0n; left /= 2n) {
+    if (left % 2n === 1n) result = (result * factor) / WAD;
+    factor = (factor * factor) / WAD;
+  }
+  return result;
+};
+
+export const interestOf = (principal: bigint, repay: bigint) =>
+  repay > principal ? repay - principal : 0n;
+
+// Simple annualised rate of a fixed repay amount over `duration` blocks.
+export const aprBps = (
+  principal: bigint,
+  repay: bigint,
+  duration: bigint,
+  blocksPerYear = BigInt(BLOCKS_PER_YEAR)
+) => {
+  if (principal <= 0n || duration <= 0n) return 0n;
+  return divRound(interestOf(principal, repay) * BPS * blocksPerYear, principal * duration);
+};
+
+// Open loans store their duration in `end-block` with no start block yet.
+export const loanAprBps = (
+  loan: Pick<Loan, "principal_amount" | "repay_amount" | "start_block" | "end_block">,
+  blocksPerYear = BigInt(BLOCKS_PER_YEAR)
+) =>
+  aprBps(
+    loan.principal_amount,
+    loan.repay_amount,
+    loan.end_block - loan.start_block,
+    blocksPerYear
+  );
+
+// Inverse of `aprBps`. Never below the principal, so the result always passes
+// the contract's `repay-amount >= principal-amount` check.
+export const repayForApr = (
+  principal: bigint,
+  apr: bigint,
+  duration: bigint,
+  blocksPerYear = BigInt(BLOCKS_PER_YEAR)
+) => {
+  if (principal <= 0n || apr <= 0n || duration <= 0n) return principal;
+  return principal + divRound(principal * apr * duration, BPS * blocksPerYear);
+};
+
+// Effective yearly rate if a lender rolls the same loan over for a year:
+// whole terms compound, a final partial term accrues linearly.
+export const apyBps = (apr: bigint, duration: bigint, blocksPerYear = BigInt(BLOCKS_PER_YEAR)) => {
+  if (apr <= 0n || duration <= 0n) return 0n;
+  const termRate = (apr * duration * WAD) / (BPS * blocksPerYear);
+  const terms = blocksPerYear / duration;
+  const rest = blocksPerYear % duration;
+  const growth = (powWad(WAD + termRate, terms) * (WAD + (termRate * rest) / duration)) / WAD;
+  return divRound((growth - WAD) * BPS, WAD);
+};
+
+// Interest earned by `block` blocks into the term, accruing linearly and
+// rounded down so it reaches the full interest exactly at `duration`.
+export const accruedAt = (principal: bigint, repay: bigint, duration: bigint, block: bigint) => {
+  if (duration <= 0n || block <= 0n) return 0n;
+  const elapsed = block < duration ? block : duration;
+  return (interestOf(principal, repay) * elapsed) / duration;
+};
+
+// Interest per block in base units scaled by 10^ACCRUAL_DECIMALS.
+export const perBlockAccrual = (principal: bigint, repay: bigint, duration: bigint) =>
+  duration > 0n ? (interestOf(principal, repay) * 10n ** BigInt(ACCRUAL_DECIMALS)) / duration : 0n;
+
+export const checkpointSchedule = (
+  principal: bigint,
+  repay: bigint,
+  duration: bigint,
+  checkpoints = CHECKPOINTS_BPS
+) =>
+  checkpoints.map((bps) => {
+    const block = divRound(duration * bps, BPS);
+    const accrued = accruedAt(principal, repay, duration, block);
+    return { bps, block, accrued, totalDue: principal + accrued };
+  });
+
+// Splits `balance` into `count` repay-partial amounts due at evenly spaced
+// blocks; the last installment absorbs the rounding remainder.
+export const installmentPlan = (balance: bigint, count: bigint, duration: bigint) => {
+  if (balance <= 0n || count <= 0n) return [];
+  const base = balance / count;
+  return Array.from({ length: Number(count) }, (_, index) => {
+    const number = BigInt(index + 1);
+    return {
+      index: index + 1,
+      block: divRound(duration * number, count),
+      amount: number === count ? balance - base * (count - 1n) : base,
+    };
+  }).filter((installment) => installment.amount > 0n);
+};
+
+// Rounded up so the collateral never falls short of the requested ratio.
+export const collateralForRatio = (principal: bigint, ratio: bigint) =>
+  principal > 0n && ratio > 0n ? divCeil(principal * ratio, BPS) : principal;
+
+export const collateralRatioBps = (principal: bigint, collateral: bigint) =>
+  principal > 0n ? (collateral * BPS) / principal : 0n;
+
+export const bpsToPercent = (bps: bigint) => Number(bps) / 100;
@@ -0,0 +1,122 @@
+export type RangeFilter = { min: string; max: string };
+
+export type ExplorerFilters = {
+  status: string;
+  asset: string;
+  risk: string;
+  apr: RangeFilter;
+  duration: RangeFilter;
+  page: number;
+  pageSize: number;
+};
+
+export const STATUS_FILTERS = [
+  "all",
+  "open",
+  "funded",
+  "repaid",
+  "defaulted",
+  "cancelled",
+  "expired",
+];
+export const ASSET_SIDES = ["principal", "collateral"] as const;
+
+export type AssetSide = (typeof ASSET_SIDES)[number];
+
+// `<side>-stx`, `<side>-token` for any SIP-010 token, or `<side>-<contract principal>`
+// for one token, e.g. `collateral-SP3...sbtc-token`.
+export type AssetFilter = { side: AssetSide; asset: string };
+export const RISK_FILTERS = ["all", "low", "moderate", "high", "unknown"];
+export const PAGE_SIZES = [4, 6, 9];
+
+export const DEFAULT_FILTERS: ExplorerFilters = {
+  status: "open",
+  asset: "all",
+  risk: "all",
+  apr: { min: "", max: "" },
+  duration: { min: "", max: "" },
+  page: 1,
+  pageSize: 6,
+};
+
+const oneOf = (value: string | null, allowed: string[], fallback: string) =>
+  value !== null && allowed.includes(value) ? value : fallback;
+
+const CONTRACT_PRINCIPAL = /^S[0-9A-Z]{28,41}\.[a-zA-Z][a-zA-Z0-9-]{0,127}$/;
+
+export const parseAssetFilter = (value: string): AssetFilter | null => {
+  const side = ASSET_SIDES.find((entry) => value.startsWith(`${entry}-`));
+  if (!side) return null;
+  const asset = value.slice(side.length + 1);
+  return asset === "stx" || asset === "token" || CONTRACT_PRINCIPAL.test(asset)
+    ? { side, asset }
+    : null;
+};
+
+// Tokens are contract principals, undefined for STX.
+export const matchesAssetFilter = (
+  value: string,
+  tokens: Record<AssetSide, string | undefined>
+) => {
+  const filter = parseAssetFilter(value);
+  if (!filter) return true;
+  const token = tokens[filter.side];
+  if (filter.asset === "stx") return !token;
+  if (filter.asset === "token") return Boolean(token);
+  return token === filter.asset;
+};
+
+const assetFilter = (value: string | null) =>
+  value !== null && parseAssetFilter(value) ? value : DEFAULT_FILTERS.asset;
+
+const bound = (value: string | null) =>
+  value !== null && value.trim() !== "" && Number.isFinite(Number(value)) ? value : "";
+
+const positiveInt = (value: string | null) => {
+  const parsed = Number(value);
+  return value !== null && Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const filtersFromSearch = (search: string): ExplorerFilters => {
+  const params = new URLSearchParams(search);
+  const pageSize = positiveInt(params.get("page_size"));
+  return {
+    status: oneOf(params.get("status"), STATUS_FILTERS, DEFAULT_FILTERS.status),
+    asset: assetFilter(params.get("asset")),
+    risk: oneOf(params.get("risk"), RISK_FILTERS, DEFAULT_FILTERS.risk),
+    apr: { min: bound(params.get("apr_min")), max: bound(params.get("apr_max")) },
+    duration: {
+      min: bound(params.get("duration_min")),
+      max: bound(params.get("duration_max")),
+    },
+    page: positiveInt(params.get("page")) ?? DEFAULT_FILTERS.page,
+    pageSize: pageSize !== null && PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_FILTERS.pageSize,
+  };
+};
+
+// Only non-default values are written so a fresh explorer stays at a bare `/loans`.
+export const filtersToSearch = (filters: ExplorerFilters) => {
+  const params = new URLSearchParams();
+  if (filters.status !== DEFAULT_FILTERS.status) params.set("status", filters.status);
+  if (filters.asset !== DEFAULT_FILTERS.asset) params.set("asset", filters.asset);
+  if (filters.risk !== DEFAULT_FILTERS.risk) params.set("risk", filters.risk);
+  if (filters.apr.min) params.set("apr_min", filters.apr.min);
+  if (filters.apr.max) params.set("apr_max", filters.apr.max);
+  if (filters.duration.min) params.set("duration_min", filters.duration.min);
+  if (filters.duration.max) params.set("duration_max", filters.duration.max);
+  if (filters.page !== DEFAULT_FILTERS.page) params.set("page", filters.page.toString());
+  if (filters.pageSize !== DEFAULT_FILTERS.pageSize) {
+    params.set("page_size", filters.pageSize.toString());
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
+
+export const loanIdFromParam = (value: string | undefined) => {
+  const parsed = Number(value);
+  // Loan IDs start at 1.
+  return value !== undefined && Number.isInteger(parsed) && parsed >= 1 ? parsed : null;
+};
+
+export const loansPath = (loanId: number | null, filters: ExplorerFilters) =>
+  `${loanId === null ? "/loans" : `/loans/${loanId}`}${filtersToSearch(filters)}`;
@@ -0,0 +1,104 @@
+import { StacksDevnet, StacksMainnet, StacksTestnet, type StacksNetwork } from "@stacks/network";
+import type { ContractConfig } from "./stacks";
+
+export type NetworkName = "devnet" | "testnet" | "mainnet";
+
+export type NetworkProfile = {
+  name: NetworkName;
+  label: string;
+  chainId: "stacks:mainnet" | "stacks:testnet";
+  apiUrl: string;
+  contractAddress: string;
+  contractName: string;
+  readOnlySender: string;
+  indexerUrl: string;
+  priceOracle: string;
+};
+
+const env: Record<string, string | undefined> = import.meta.env;
+
+// The deployer account from settings/Devnet.toml, which also deploys the
+// contracts on a local `clarinet devnet start`.
+const DEVNET_DEPLOYER = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+export const NETWORK_PROFILES: Record<NetworkName, NetworkProfile> = {
+  devnet: {
+    name: "devnet",
+    label: "Devnet",
+    // Wallets sign devnet transactions with the testnet chain ID.
+    chainId: "stacks:testnet",
+    apiUrl: env.VITE_DEVNET_API_URL ?? "http://localhost:3999",
+    contractAddress: env.VITE_DEVNET_CONTRACT_ADDRESS ?? DEVNET_DEPLOYER,
+    contractName: "p2p-lending",
+    readOnlySender: DEVNET_DEPLOYER,
+    indexerUrl: env.VITE_DEVNET_INDEXER_URL ?? "",
+    priceOracle: env.VITE_DEVNET_PRICE_ORACLE ?? "",
+  },
+  testnet: {
+    name: "testnet",
+    label: "Testnet",
+    chainId: "stacks:testnet",
+    apiUrl: env.VITE_TESTNET_API_URL ?? "https://api.testnet.hiro.so",
+    contractAddress: env.VITE_TESTNET_CONTRACT_ADDRESS ?? "",
+    contractName: "p2p-lending",
+    readOnlySender: env.VITE_TESTNET_CONTRACT_ADDRESS ?? "",
+    indexerUrl: env.VITE_TESTNET_INDEXER_URL ?? "",
+    priceOracle: env.VITE_TESTNET_PRICE_ORACLE ?? "",
+  },
+  mainnet: {
+    name: "mainnet",
+    label: "Mainnet",
+    chainId: "stacks:mainnet",
+    apiUrl: env.VITE_MAINNET_API_URL ?? "https://api.mainnet.hiro.so",
+    contractAddress: env.VITE_MAINNET_CONTRACT_ADDRESS ?? "",
+    contractName: "p2p-lending",
+    readOnlySender: env.VITE_MAINNET_CONTRACT_ADDRESS ?? "",
+    indexerUrl: env.VITE_MAINNET_INDEXER_URL ?? "",
+    priceOracle: env.VITE_MAINNET_PRICE_ORACLE ?? "",
+  },
+};
+
+// Used when the active profile has no price oracle; served from `public/`.
+export const PRICE_FILE_URL = env.VITE_PRICE_FILE ?? "/prices.json";
+
+export const NETWORK_NAMES = Object.keys(NETWORK_PROFILES) as NetworkName[];
+
+const NETWORK_KEY = "stacks-lend:network";
+
+const isNetworkName = (value: unknown): value is NetworkName =>
+  typeof value === "string" && value in NETWORK_PROFILES;
+
+export const loadNetworkName = (): NetworkName => {
+  const fallback = isNetworkName(env.VITE_NETWORK) ? env.VITE_NETWORK : "testnet";
+  try {
+    const stored = localStorage.getItem(NETWORK_KEY);
+    return isNetworkName(stored) ? stored : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveNetworkName = (name: NetworkName) => {
+  localStorage.setItem(NETWORK_KEY, name);
+};
+
+export const profileConfig = (profile: NetworkProfile): ContractConfig => ({
+  network: profile.name,
+  address: profile.contractAddress,
+  name: profile.contractName,
+  apiUrl: profile.apiUrl,
+  readOnlySender: profile.readOnlySender,
+  indexerUrl: profile.indexerUrl,
+});
+
+export const stacksNetwork = (config: Pick<ContractConfig, "network" | "apiUrl">): StacksNetwork => {
+  const options = { url: config.apiUrl };
+  if (config.network === "mainnet") return new StacksMainnet(options);
+  if (config.network === "testnet") return new StacksTestnet(options);
+  return new StacksDevnet(options);
+};
+
+export const explorerTxUrl = (config: Pick<ContractConfig, "network" | "apiUrl">, txId: string) =>
+  config.network === "devnet"
+    ? `https://explorer.hiro.so/txid/${txId}?chain=testnet&api=${encodeURIComponent(config.apiUrl)}`
+    : `https://explorer.hiro.so/txid/${txId}?chain=${config.network}`;
@@ -0,0 +1,194 @@
+import { contractError, errorCode, type ContractErrorInfo } from "./errors";
+import { lateFeeAt, STATUS, type CreateLoanTerms, type Loan, type LoanAction } from "./stacks";
+
+export type PreflightCheck = {
+  label: string;
+  ok: boolean;
+  // The error the transaction would abort with if submitted anyway.
+  error?: ContractErrorInfo;
+};
+
+export type AssetNeed = { side: "principal" | "collateral"; amount: bigint };
+
+export type LoanCheckContext = {
+  sender: string;
+  // The earliest block the transaction can be mined in: the chain tip + 1.
+  // Undefined while the tip is unknown or stale, leaving block checks unchecked.
+  block?: number;
+  amount?: bigint;
+  oracle?: string;
+  // From the app's price-based health check; skipped when unknown.
+  liquidatable?: boolean;
+};
+
+const check = (label: string, ok: boolean, name: string): PreflightCheck => ({
+  label,
+  ok,
+  error: ok ? undefined : contractError(errorCode(name)),
+});
+
+// Failed without an error name: the preflight could not tell either way.
+const unchecked = (label: string): PreflightCheck => ({
+  label: `${label} (chain tip unknown, not checked)`,
+  ok: false,
+});
+
+export const balanceCheck = (label: string, required: bigint, held: bigint): PreflightCheck => ({
+  label,
+  ok: held >= required,
+  error: held >= required ? undefined : contractError(errorCode("INSUFFICIENT-BALANCE", "native")),
+});
+
+// What the sender pays into the contract or to the lender, matching
+// `loanPostConditions`. Settling inside the grace period adds the late fee due
+// at `block`, which is left out when the block is unknown.
+export const requiredAssets = (
+  action: LoanAction,
+  loan: Pick<
+    Loan,
+    | "principal_amount"
+    | "collateral_amount"
+    | "repay_amount"
+    | "amount_repaid"
+    | "end_block"
+    | "late_fee_per_block"
+  >,
+  { amount, block }: { amount?: bigint; block?: number }
+): AssetNeed[] => {
+  const balance = loan.repay_amount - loan.amount_repaid;
+  const fee = block === undefined ? 0n : lateFeeAt(loan, block);
+  switch (action) {
+    case "create-loan":
+      return [{ side: "collateral", amount: loan.collateral_amount }];
+    case "fund-loan":
+      return [{ side: "principal", amount: loan.principal_amount }];
+    case "repay":
+      return [{ side: "principal", amount: balance + fee }];
+    case "repay-partial":
+      if (amount === undefined) return [];
+      return [{ side: "principal", amount: amount >= balance ? amount + fee : amount }];
+    case "cancel-loan":
+    case "expire-loan":
+    case "claim-default":
+    case "liquidate":
+      return [];
+  }
+};
+
+// Mirrors create-loan's asserts in order. `allowed` is the contract's asset
+// allow-list; STX needs no entry.
+export const createChecks = (
+  terms: CreateLoanTerms,
+  { allowed, block }: { allowed: string[]; block?: number }
+): PreflightCheck[] => {
+  const isAllowed = (token?: string) => token === undefined || allowed.includes(token);
+  const principal = BigInt(terms.principalAmount);
+  const expiry = terms.expiryBlock;
+  const ratio = terms.liquidationRatioBps;
+  const expiryLabel = `Expiry block ${expiry} is still ahead`;
+  return [
+    check(
+      "Principal and collateral are different assets",
+      terms.principalToken !== terms.collateralToken,
+      "ERR-SAME-ASSET"
+    ),
+    check("Principal asset is allowed", isAllowed(terms.principalToken), "ERR-ASSET-NOT-ALLOWED"),
+    check("Collateral asset is allowed", isAllowed(terms.collateralToken), "ERR-ASSET-NOT-ALLOWED"),
+    check("Principal is above zero", principal > 0n, "ERR-BAD-AMOUNT"),
+    check("Collateral is above zero", BigInt(terms.collateralAmount) > 0n, "ERR-BAD-AMOUNT"),
+    check("Duration is above zero", terms.duration > 0, "ERR-BAD-AMOUNT"),
+    check(
+      "Repay amount covers the principal",
+      BigInt(terms.repayAmount) >= principal,
+      "ERR-BAD-REPAY"
+    ),
+    expiry === undefined
+      ? check("Request has no expiry", true, "ERR-BAD-DURATION")
+      : block === undefined
+        ? unchecked(expiryLabel)
+        : check(expiryLabel, expiry > block, "ERR-BAD-DURATION"),
+    check("Liquidation ratio is above zero", ratio === undefined || ratio > 0, "ERR-BAD-AMOUNT"),
+  ];
+};
+
+// Mirrors the asserts each contract function runs against the stored loan, in
+// the same order, so the first failed check is the error the wallet would hit.
+export const loanChecks = (
+  action: Exclude<LoanAction, "create-loan">,
+  loan: Loan,
+  { sender, block, amount, oracle, liquidatable }: LoanCheckContext
+): PreflightCheck[] => {
+  const open = check("Loan is open", loan.status === STATUS.OPEN, "ERR-NOT-OPEN");
+  const funded = check("Loan is funded", loan.status === STATUS.FUNDED, "ERR-NOT-FUNDED");
+  const isBorrower = check("You are the borrower", sender === loan.borrower, "ERR-NOT-BORROWER");
+  const isLender = check("You are the lender", sender === loan.lender, "ERR-NOT-LENDER");
+  const atBlock = (label: string, ok: (block: number) => boolean, name: string) =>
+    block === undefined ? unchecked(label) : check(label, ok(block), name);
+  const endBlock = Number(loan.end_block);
+  const deadline = endBlock + Number(loan.grace_period);
+  const expiryBlock = loan.expiry_block !== undefined ? Number(loan.expiry_block) : undefined;
+
+  switch (action) {
+    case "fund-loan":
+      return [
+        open,
+        expiryBlock === undefined
+          ? check("Request has not expired", true, "ERR-REQUEST-EXPIRED")
+          : atBlock("Request has not expired", (at) => at <= expiryBlock, "ERR-REQUEST-EXPIRED"),
+      ];
+    case "repay":
+    case "repay-partial": {
+      const checks = [
+        funded,
+        isBorrower,
+        atBlock(`Repaid by block ${deadline}`, (at) => at <= deadline, "ERR-PAST-DUE"),
+      ];
+      if (action === "repay-partial") {
+        const installment = amount ?? 0n;
+        checks.push(
+          check("Installment is above zero", installment > 0n, "ERR-BAD-AMOUNT"),
+          check(
+            "Installment does not exceed the balance",
+            loan.amount_repaid + installment <= loan.repay_amount,
+            "ERR-BAD-AMOUNT"
+          )
+        );
+      }
+      return checks;
+    }
+    case "claim-default":
+      return [
+        funded,
+        atBlock(`Past the end block ${endBlock}`, (at) => at > endBlock, "ERR-NOT-PAST-DUE"),
+        atBlock(
+          `Grace period over after block ${deadline}`,
+          (at) => at > deadline,
+          "ERR-IN-GRACE-PERIOD"
+        ),
+        isLender,
+      ];
+    case "cancel-loan":
+      return [open, isBorrower];
+    case "expire-loan":
+      return [
+        open,
+        expiryBlock === undefined
+          ? check("Request has an expiry block", false, "ERR-NOT-EXPIRED")
+          : atBlock(
+              `Request expired after block ${expiryBlock}`,
+              (at) => at > expiryBlock,
+              "ERR-NOT-EXPIRED"
+            ),
+      ];
+    case "liquidate":
+      return [
+        funded,
+        check("Contract has a price oracle", Boolean(oracle), "ERR-WRONG-ORACLE"),
+        check("Loan has a liquidation ratio", Boolean(loan.liquidation_ratio), "ERR-NO-THRESHOLD"),
+        isLender,
+        ...(liquidatable === undefined
+          ? []
+          : [check("Collateral is below the ratio", liquidatable, "ERR-NOT-UNDERCOLLATERALIZED")]),
+      ];
+  }
+};
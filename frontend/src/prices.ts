@@ -0,0 +1,159 @@
+import { Cl, ClarityType } from "@stacks/transactions";
+import { callReadOnlyRaw, STATUS, type ContractConfig, type Loan } from "./stacks";
+
+export type PricedAsset = { token?: string; symbol: string };
+
+// USD per whole token, keyed by `assetKey`.
+export type Prices = Record<string, number>;
+
+export type PriceSource = {
+  name: string;
+  fetchPrices: (assets: PricedAsset[]) => Promise<Prices>;
+};
+
+export type LoanHealth = {
+  debtUsd: number;
+  collateralUsd: number;
+  ltv: number;
+  healthFactor: number;
+  liquidatable: boolean;
+};
+
+export type RiskLevel = "low" | "moderate" | "high" | "unknown";
+
+export const ORACLE_PRICE_DECIMALS = 8;
+export const DEFAULT_LIQUIDATION_LTV = 0.8;
+
+export const RISK_LABELS: Record<RiskLevel, string> = {
+  low: "Low risk",
+  moderate: "Moderate risk",
+  high: "High risk",
+  unknown: "Unknown",
+};
+
+export const assetKey = (token?: string) => token ?? "STX";
+
+// Looks an asset up by contract ID first, then by symbol, so a hand-written
+// price file can simply say `{ "STX": 1.2, "sBTC": 60000 }`.
+export const createStaticPriceSource = (
+  table: Record<string, number>,
+  name = "Static prices"
+): PriceSource => ({
+  name,
+  fetchPrices: async (assets) =>
+    Object.fromEntries(
+      assets.flatMap((asset) => {
+        const usd = table[assetKey(asset.token)] ?? table[asset.symbol];
+        return typeof usd === "number" && Number.isFinite(usd) ? [[assetKey(asset.token), usd]] : [];
+      })
+    ),
+});
+
+export const createFilePriceSource = (url: string): PriceSource => ({
+  name: `Price file ${url}`,
+  fetchPrices: async (assets) => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Price file request failed: ${response.status}`);
+    const table = (await response.json()) as Record<string, number>;
+    return createStaticPriceSource(table).fetchPrices(assets);
+  },
+});
+
+// Reads `(get-price (optional principal))` from a price-oracle-trait contract,
+// where `none` is STX and `(ok uint)` is scaled by ORACLE_PRICE_DECIMALS.
+export const createOraclePriceSource = (config: ContractConfig, oracle: string): PriceSource => ({
+  name: `Oracle ${oracle}`,
+  fetchPrices: async (assets) => {
+    const entries = await Promise.all(
+      assets.map(async (asset) => {
+        const result = await callReadOnlyRaw(
+          config,
+          "get-price",
+          [asset.token ? Cl.some(Cl.principal(asset.token)) : Cl.none()],
+          oracle
+        );
+        if (result.type !== ClarityType.ResponseOk || result.value.type !== ClarityType.UInt) {
+          return [];
+        }
+        const usd = Number(BigInt(result.value.value)) / 10 ** ORACLE_PRICE_DECIMALS;
+        return [[assetKey(asset.token), usd] as const];
+      })
+    );
+    return Object.fromEntries(entries.flat());
+  },
+});
+
+export const usdValue = (amount: bigint, decimals: number, usd: number) =>
+  (Number(amount) / 10 ** decimals) * usd;
+
+// Prices as integers with the oracle's decimals, so amount math stays in bigint.
+const scaledPrice = (usd: number) => BigInt(Math.round(usd * 10 ** ORACLE_PRICE_DECIMALS));
+
+// Collateral worth `ratio` basis points of the principal's USD value, rounded
+// up. Null when either price is missing or not positive.
+export const collateralForUsdRatio = (
+  principal: bigint,
+  ratio: bigint,
+  from: { decimals: number; usd?: number },
+  to: { decimals: number; usd?: number }
+) => {
+  if (from.usd === undefined || to.usd === undefined) return null;
+  const fromPrice = scaledPrice(from.usd);
+  const toPrice = scaledPrice(to.usd);
+  if (fromPrice <= 0n || toPrice <= 0n) return null;
+  const numerator = principal * fromPrice * ratio * 10n ** BigInt(to.decimals);
+  const denominator = 10_000n * toPrice * 10n ** BigInt(from.decimals);
+  return (numerator + denominator - 1n) / denominator;
+};
+
+// Open loans are valued on the principal they ask for, funded loans on what is
+// still owed. A loan's own liquidation ratio (basis points of the debt) replaces
+// the default threshold, matching the contract's `liquidate` check. Returns null
+// when either side has no price or known decimals.
+export const loanHealth = (
+  loan: Loan,
+  prices: Prices,
+  decimals: (token?: string) => number | undefined,
+  liquidationLtv = DEFAULT_LIQUIDATION_LTV
+): LoanHealth | null => {
+  const principalToken = loan.principal_is_stx ? undefined : loan.principal_token;
+  const collateralToken = loan.collateral_is_stx ? undefined : loan.collateral_token;
+  const principalPrice = prices[assetKey(principalToken)];
+  const collateralPrice = prices[assetKey(collateralToken)];
+  const principalDecimals = decimals(principalToken);
+  const collateralDecimals = decimals(collateralToken);
+  if (
+    principalPrice === undefined ||
+    collateralPrice === undefined ||
+    principalDecimals === undefined ||
+    collateralDecimals === undefined
+  ) {
+    return null;
+  }
+
+  const debt =
+    loan.status === STATUS.FUNDED
+      ? loan.repay_amount - loan.amount_repaid
+      : loan.principal_amount;
+  const debtUsd = usdValue(debt, principalDecimals, principalPrice);
+  const collateralUsd = usdValue(loan.collateral_amount, collateralDecimals, collateralPrice);
+  const threshold = loan.liquidation_ratio
+    ? 10_000 / Number(loan.liquidation_ratio)
+    : liquidationLtv;
+  const healthFactor = debtUsd ? (collateralUsd * threshold) / debtUsd : Infinity;
+  return {
+    debtUsd,
+    collateralUsd,
+    ltv: collateralUsd ? debtUsd / collateralUsd : Infinity,
+    healthFactor,
+    liquidatable:
+      loan.status === STATUS.FUNDED && Boolean(loan.liquidation_ratio) && healthFactor < 1,
+  };
+};
+
+export const riskLevel = (health: LoanHealth | null): RiskLevel => {
+  if (!health) return "unknown";
+  if (health.healthFactor < 1) return "high";
+  if (health.healthFactor < 1.25) return "moderate";
+  return "low";
+};
@@ -1,21 +1,40 @@
 import {
-  boolCV,
+  ClarityType,
+  contractPrincipalCV,
   cvToValue,
   deserializeCV,
+  listCV,
+  noneCV,
+  Pc,
+  principalCV,
+  someCV,
   serializeCV,
   uintCV,
+  type ClarityValue,
+  type ContractIdString,
+  type PostCondition,
+  type TupleCV,
 } from "@stacks/transactions";
+import { contractError } from "./errors";
+import type { NetworkName } from "./networks";
 
 export type Loan = {
   borrower: string;
   lender?: string;
   principal_is_stx: boolean;
+  principal_token?: string;
   principal_amount: bigint;
   collateral_is_stx: boolean;
+  collateral_token?: string;
   collateral_amount: bigint;
   repay_amount: bigint;
+  amount_repaid: bigint;
   start_block: bigint;
   end_block: bigint;
+  expiry_block?: bigint;
+  grace_period: bigint;
+  late_fee_per_block: bigint;
+  liquidation_ratio?: bigint;
   status: bigint;
 };
 
@@ -25,41 +44,354 @@ export const STATUS = {
   REPAID: 2n,
   DEFAULTED: 3n,
   CANCELLED: 4n,
+  EXPIRED: 5n,
 };
 
+export type ExtensionProposal = {
+  proposer: string;
+  end_block: bigint;
+  repay_amount: bigint;
+  proposed_at: bigint;
+};
+
+export type ExtensionRecord = {
+  proposer: string;
+  previous_end_block: bigint;
+  previous_repay_amount: bigint;
+  end_block: bigint;
+  repay_amount: bigint;
+  accepted_at: bigint;
+};
+
+export type ExtensionAction = "propose-extension" | "accept-extension" | "reject-extension";
+
+export type PositionListing = {
+  seller: string;
+  price: bigint;
+  buyer?: string;
+  listed_at: bigint;
+};
+
+export type PositionAction =
+  | "list-position"
+  | "delist-position"
+  | "buy-position"
+  | "transfer-position"
+  | "claim-position";
+
+export type Offer = {
+  lender: string;
+  principal_is_stx: boolean;
+  principal_token?: string;
+  principal_amount: bigint;
+  collateral_is_stx: boolean;
+  collateral_token?: string;
+  min_collateral_bps: bigint;
+  rate_bps: bigint;
+  max_duration: bigint;
+  expiry_block: bigint;
+  loan_id?: number;
+  status: bigint;
+};
+
+export const OFFER_STATUS = {
+  OPEN: 0n,
+  TAKEN: 1n,
+  CANCELLED: 2n,
+};
+
+export const LOAN_BATCH_SIZE = 50;
+
 export type ContractConfig = {
+  network: NetworkName;
   address: string;
   name: string;
   apiUrl: string;
   readOnlySender: string;
+  indexerUrl?: string;
 };
 
-export const createLoanArgs = (data: {
-  loanId: number;
-  principalIsStx: boolean;
-  principalAmount: number;
-  repayAmount: number;
+export type LoanAction =
+  | "create-loan"
+  | "fund-loan"
+  | "repay"
+  | "repay-partial"
+  | "cancel-loan"
+  | "expire-loan"
+  | "claim-default"
+  | "liquidate";
+
+export type OfferAction = "post-offer" | "accept-offer" | "cancel-offer";
+
+export type FungibleAsset = {
+  contract: string;
+  assetName: string;
+};
+
+export type LoanAssets = { principal?: FungibleAsset; collateral?: FungibleAsset };
+
+export type TokenMeta = FungibleAsset & {
+  symbol: string;
+  name: string;
+  decimals: number;
+};
+
+export const contractId = (config: ContractConfig) => `${config.address}.${config.name}`;
+
+const assetSender =
+  (sides: Pick<Loan, "principal_is_stx" | "collateral_is_stx">, assets: LoanAssets) =>
+  (from: string, side: "principal" | "collateral", amount: bigint, upTo = false) => {
+    const pc = upTo ? Pc.principal(from).willSendLte(amount) : Pc.principal(from).willSendEq(amount);
+    const isStx = side === "principal" ? sides.principal_is_stx : sides.collateral_is_stx;
+    if (isStx) return pc.ustx();
+    const asset = assets[side];
+    if (!asset) {
+      throw new Error(`Missing SIP-010 asset for the ${side} side.`);
+    }
+    return pc.ft(asset.contract as ContractIdString, asset.assetName);
+  };
+
+export const lateFeeAt = (
+  loan: Pick<Loan, "end_block" | "late_fee_per_block">,
+  block: number | bigint
+) => {
+  const late = BigInt(block) - loan.end_block;
+  return late > 0n ? late * loan.late_fee_per_block : 0n;
+};
+
+export const maxLateFee = (loan: Partial<Pick<Loan, "grace_period" | "late_fee_per_block">>) =>
+  (loan.grace_period ?? 0n) * (loan.late_fee_per_block ?? 0n);
+
+export const loanPostConditions = (
+  action: LoanAction,
+  loan: Pick<
+    Loan,
+    | "principal_is_stx"
+    | "principal_amount"
+    | "collateral_is_stx"
+    | "collateral_amount"
+    | "repay_amount"
+    | "amount_repaid"
+  > &
+    Partial<Pick<Loan, "grace_period" | "late_fee_per_block">>,
+  parties: { sender: string; contract: string; assets: LoanAssets; amount?: bigint }
+): PostCondition[] => {
+  const send = assetSender(loan, parties.assets);
+  const { sender, contract } = parties;
+  const balance = loan.repay_amount - loan.amount_repaid;
+  // Settling inside the grace period adds a late fee that depends on the mined block.
+  const feeCap = maxLateFee(loan);
+  const settle = (amount: bigint) =>
+    feeCap > 0n
+      ? send(sender, "principal", amount + feeCap, true)
+      : send(sender, "principal", amount);
+
+  switch (action) {
+    case "create-loan":
+      return [send(sender, "collateral", loan.collateral_amount)];
+    case "fund-loan":
+      return [
+        send(sender, "principal", loan.principal_amount),
+        send(contract, "principal", loan.principal_amount),
+      ];
+    case "repay":
+      return [settle(balance), send(contract, "collateral", loan.collateral_amount)];
+    case "repay-partial": {
+      if (parties.amount === undefined) {
+        throw new Error("repay-partial needs an installment amount.");
+      }
+      return parties.amount >= balance
+        ? [settle(parties.amount), send(contract, "collateral", loan.collateral_amount)]
+        : [send(sender, "principal", parties.amount)];
+    }
+    case "cancel-loan":
+    case "expire-loan":
+    case "claim-default":
+    case "liquidate":
+      return [send(contract, "collateral", loan.collateral_amount)];
+  }
+};
+
+export const offerPostConditions = (
+  action: OfferAction,
+  offer: Pick<Offer, "principal_is_stx" | "principal_amount" | "collateral_is_stx">,
+  parties: { sender: string; contract: string; assets: LoanAssets; collateralAmount?: bigint }
+): PostCondition[] => {
+  const send = assetSender(offer, parties.assets);
+  const { sender, contract } = parties;
+
+  switch (action) {
+    case "post-offer":
+      return [send(sender, "principal", offer.principal_amount)];
+    case "accept-offer":
+      if (parties.collateralAmount === undefined) {
+        throw new Error("accept-offer needs a collateral amount.");
+      }
+      return [
+        send(sender, "collateral", parties.collateralAmount),
+        send(contract, "principal", offer.principal_amount),
+      ];
+    case "cancel-offer":
+      return [send(contract, "principal", offer.principal_amount)];
+  }
+};
+
+export const positionPostConditions = (
+  loan: Pick<Loan, "principal_is_stx" | "collateral_is_stx">,
+  listing: Pick<PositionListing, "price">,
+  parties: { sender: string; assets: LoanAssets }
+): PostCondition[] =>
+  listing.price > 0n
+    ? [assetSender(loan, parties.assets)(parties.sender, "principal", listing.price)]
+    : [];
+
+export const tokenArg = (token?: string) => {
+  if (!token) return noneCV();
+  const [address, name] = token.split(".");
+  return someCV(contractPrincipalCV(address, name));
+};
+
+export type CreateLoanTerms = {
+  principalToken?: string;
+  principalAmount: number | bigint;
+  repayAmount: number | bigint;
   duration: number;
-  collateralIsStx: boolean;
-  collateralAmount: number;
-}) => [
-  uintCV(data.loanId),
-  boolCV(data.principalIsStx),
+  collateralToken?: string;
+  collateralAmount: number | bigint;
+  expiryBlock?: number;
+  gracePeriod?: number;
+  lateFeePerBlock?: number | bigint;
+  liquidationRatioBps?: number;
+};
+
+export const createLoanArgs = (data: CreateLoanTerms) => [
+  tokenArg(data.principalToken),
   uintCV(data.principalAmount),
   uintCV(data.repayAmount),
   uintCV(data.duration),
-  boolCV(data.collateralIsStx),
+  tokenArg(data.collateralToken),
   uintCV(data.collateralAmount),
+  data.expiryBlock ? someCV(uintCV(data.expiryBlock)) : noneCV(),
+  uintCV(data.gracePeriod ?? 0),
+  uintCV(data.lateFeePerBlock ?? 0),
+  data.liquidationRatioBps ? someCV(uintCV(data.liquidationRatioBps)) : noneCV(),
 ];
 
-export const loanIdArg = (loanId: number) => [uintCV(loanId)];
+export const loanActionArgs = (
+  action: Exclude<LoanAction, "create-loan">,
+  loanId: number,
+  loan: Pick<Loan, "principal_token" | "collateral_token">,
+  amount?: bigint,
+  oracle?: string
+): ClarityValue[] => {
+  const principal = tokenArg(loan.principal_token);
+  const collateral = tokenArg(loan.collateral_token);
+  switch (action) {
+    case "fund-loan":
+      return [uintCV(loanId), principal];
+    case "repay":
+      return [uintCV(loanId), principal, collateral];
+    case "repay-partial":
+      if (amount === undefined) {
+        throw new Error("repay-partial needs an installment amount.");
+      }
+      return [uintCV(loanId), uintCV(amount), principal, collateral];
+    case "cancel-loan":
+    case "expire-loan":
+    case "claim-default":
+      return [uintCV(loanId), collateral];
+    case "liquidate": {
+      if (!oracle) {
+        throw new Error("liquidate needs the contract's price oracle.");
+      }
+      const [address, name] = oracle.split(".");
+      return [uintCV(loanId), contractPrincipalCV(address, name), principal, collateral];
+    }
+  }
+};
 
-export const callReadOnly = async (
+export const postOfferArgs = (data: {
+  principalToken?: string;
+  principalAmount: bigint;
+  collateralToken?: string;
+  minCollateralBps: number;
+  rateBps: number;
+  maxDuration: number;
+  expiresIn: number;
+}) => [
+  tokenArg(data.principalToken),
+  uintCV(data.principalAmount),
+  tokenArg(data.collateralToken),
+  uintCV(data.minCollateralBps),
+  uintCV(data.rateBps),
+  uintCV(data.maxDuration),
+  uintCV(data.expiresIn),
+];
+
+export const acceptOfferArgs = (
+  offerId: number,
+  offer: Pick<Offer, "principal_token" | "collateral_token">,
+  terms: { duration: number; collateralAmount: bigint }
+) => [
+  uintCV(offerId),
+  uintCV(terms.duration),
+  uintCV(terms.collateralAmount),
+  tokenArg(offer.principal_token),
+  tokenArg(offer.collateral_token),
+];
+
+export const cancelOfferArgs = (offerId: number, offer: Pick<Offer, "principal_token">) => [
+  uintCV(offerId),
+  tokenArg(offer.principal_token),
+];
+
+export const proposeExtensionArgs = (
+  loanId: number,
+  terms: { endBlock: number; repayAmount: bigint }
+) => [uintCV(loanId), uintCV(terms.endBlock), uintCV(terms.repayAmount)];
+
+export const extensionArgs = (loanId: number) => [uintCV(loanId)];
+
+// The contract only accepts the proposal these terms were read from.
+export const acceptExtensionArgs = (
+  loanId: number,
+  proposal: Pick<ExtensionProposal, "end_block" | "repay_amount">
+) => [uintCV(loanId), uintCV(proposal.end_block), uintCV(proposal.repay_amount)];
+
+export const listPositionArgs = (loanId: number, terms: { price: bigint; buyer?: string }) => [
+  uintCV(loanId),
+  uintCV(terms.price),
+  terms.buyer ? someCV(principalCV(terms.buyer)) : noneCV(),
+];
+
+export const buyPositionArgs = (
+  loanId: number,
+  loan: Pick<Loan, "principal_token">,
+  listing: Pick<PositionListing, "price">
+) => [uintCV(loanId), uintCV(listing.price), tokenArg(loan.principal_token)];
+
+export const transferPositionArgs = (loanId: number, recipient: string) => [
+  uintCV(loanId),
+  principalCV(recipient),
+];
+
+export const offerRepayAmount = (offer: Pick<Offer, "principal_amount" | "rate_bps">) =>
+  offer.principal_amount + (offer.principal_amount * offer.rate_bps) / 10000n;
+
+export const offerMinCollateral = (
+  offer: Pick<Offer, "principal_amount" | "min_collateral_bps">
+) => (offer.principal_amount * offer.min_collateral_bps + 9999n) / 10000n;
+
+export const principalArg = (address: string) => [principalCV(address)];
+
+export const callReadOnlyRaw = async (
   config: ContractConfig,
   functionName: string,
-  args: ReturnType<typeof loanIdArg>
+  args: ClarityValue[],
+  contract = contractId(config)
 ) => {
-  const url = `${config.apiUrl}/v2/contracts/call-read/${config.address}/${config.name}/${functionName}`;
+  const [address, name] = contract.split(".");
+  const url = `${config.apiUrl}/v2/contracts/call-read/${address}/${name}/${functionName}`;
   const response = await fetch(url, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -78,5 +410,858 @@ export const callReadOnly = async (
     throw new Error(`Read-only error: ${payload.cause}`);
   }
 
-  return cvToValue(deserializeCV(payload.result));
+  return deserializeCV(payload.result);
+};
+
+export const callReadOnly = async (
+  config: ContractConfig,
+  functionName: string,
+  args: ClarityValue[]
+) => cvToValue(await callReadOnlyRaw(config, functionName, args));
+
+const decodeLoanIds = (value: ClarityValue) => {
+  if (value.type !== ClarityType.List) return [];
+  return value.value
+    .filter((item) => item.type === ClarityType.UInt)
+    .map((item) => Number(item.value));
+};
+
+export const fetchLoanCount = async (config: ContractConfig) => {
+  const value = await callReadOnlyRaw(config, "get-loan-count", []);
+  return value.type === ClarityType.UInt ? Number(value.value) : 0;
+};
+
+export const fetchOfferCount = async (config: ContractConfig) => {
+  const value = await callReadOnlyRaw(config, "get-offer-count", []);
+  return value.type === ClarityType.UInt ? Number(value.value) : 0;
+};
+
+// Accounts hold any number of loans, read a page of indexes at a time.
+const fetchAccountLoanIds = async (
+  config: ContractConfig,
+  role: "borrower" | "lender",
+  account: string
+) => {
+  const countValue = await callReadOnlyRaw(config, `get-${role}-loan-count`, principalArg(account));
+  const count = countValue.type === ClarityType.UInt ? Number(countValue.value) : 0;
+  const ids: number[] = [];
+  for (let from = 0; from < count; from += LOAN_BATCH_SIZE) {
+    const indexes = Array.from({ length: Math.min(LOAN_BATCH_SIZE, count - from) }, (_, index) =>
+      uintCV(from + index)
+    );
+    const page = await callReadOnlyRaw(config, `get-${role}-loans`, [
+      ...principalArg(account),
+      listCV(indexes),
+    ]);
+    ids.push(...decodeLoanIds(page));
+  }
+  return ids;
+};
+
+export const fetchBorrowerLoanIds = (config: ContractConfig, borrower: string) =>
+  fetchAccountLoanIds(config, "borrower", borrower);
+
+export const fetchLenderLoanIds = (config: ContractConfig, lender: string) =>
+  fetchAccountLoanIds(config, "lender", lender);
+
+const clarityUint = (value: ClarityValue) =>
+  value.type === ClarityType.UInt ? BigInt(value.value) : 0n;
+
+const clarityPrincipal = (value: ClarityValue) =>
+  value.type === ClarityType.PrincipalStandard || value.type === ClarityType.PrincipalContract
+    ? value.value
+    : "";
+
+export const fetchAllowedAssets = async (config: ContractConfig) => {
+  const value = await callReadOnlyRaw(config, "get-allowed-assets", []);
+  if (value.type !== ClarityType.List) return [];
+  return value.value.map((item) => clarityPrincipal(item)).filter(Boolean);
+};
+
+export const fetchContractOwner = async (config: ContractConfig) =>
+  clarityPrincipal(await callReadOnlyRaw(config, "get-contract-owner", []));
+
+export const fetchPriceOracle = async (config: ContractConfig) =>
+  clarityOptionalPrincipal(await callReadOnlyRaw(config, "get-price-oracle", []));
+
+// Spendable uSTX: locked (stacked) STX cannot be transferred.
+export const fetchStxBalance = async (config: ContractConfig, address: string) => {
+  const response = await fetch(`${config.apiUrl}/extended/v1/address/${address}/stx`);
+  if (!response.ok) {
+    throw new Error(`STX balance lookup failed: ${response.status}`);
+  }
+  const body = (await response.json()) as { balance: string; locked?: string };
+  return BigInt(body.balance) - BigInt(body.locked ?? "0");
+};
+
+export const fetchTokenBalance = async (config: ContractConfig, token: string, owner: string) => {
+  const result = await callReadOnlyRaw(config, "get-balance", principalArg(owner), token);
+  if (result.type !== ClarityType.ResponseOk || result.value.type !== ClarityType.UInt) {
+    throw new Error(`get-balance failed for ${token}.`);
+  }
+  return BigInt(result.value.value);
+};
+
+const clarityString = (value: ClarityValue) =>
+  value.type === ClarityType.ResponseOk &&
+  (value.value.type === ClarityType.StringASCII || value.value.type === ClarityType.StringUTF8)
+    ? value.value.value
+    : "";
+
+export const fetchTokenMeta = async (
+  config: ContractConfig,
+  contract: string
+): Promise<TokenMeta> => {
+  const [address, name] = contract.split(".");
+  const [symbol, tokenName, decimals, contractInterface] = await Promise.all([
+    callReadOnlyRaw(config, "get-symbol", [], contract),
+    callReadOnlyRaw(config, "get-name", [], contract),
+    callReadOnlyRaw(config, "get-decimals", [], contract),
+    fetch(`${config.apiUrl}/v2/contracts/interface/${address}/${name}`).then((response) => {
+      if (!response.ok) throw new Error(`Contract interface lookup failed: ${response.status}`);
+      return response.json() as Promise<{ fungible_tokens?: { name: string }[] }>;
+    }),
+  ]);
+  const assetName = contractInterface.fungible_tokens?.[0]?.name;
+  if (!assetName) {
+    throw new Error(`${contract} does not define a fungible token.`);
+  }
+  return {
+    contract,
+    assetName,
+    symbol: clarityString(symbol) || name,
+    name: clarityString(tokenName) || name,
+    decimals:
+      decimals.type === ClarityType.ResponseOk ? Number(clarityUint(decimals.value)) : 0,
+  };
+};
+
+const clarityOptionalPrincipal = (value?: ClarityValue) =>
+  value?.type === ClarityType.OptionalSome ? clarityPrincipal(value.value) : undefined;
+
+export const decodeLoan = (tuple: TupleCV): Loan => {
+  const fields = tuple.value;
+  const principalToken = clarityOptionalPrincipal(fields["principal-token"]);
+  const collateralToken = clarityOptionalPrincipal(fields["collateral-token"]);
+  return {
+    borrower: clarityPrincipal(fields.borrower),
+    lender: clarityOptionalPrincipal(fields.lender),
+    principal_is_stx: !principalToken,
+    principal_token: principalToken,
+    principal_amount: clarityUint(fields["principal-amount"]),
+    collateral_is_stx: !collateralToken,
+    collateral_token: collateralToken,
+    collateral_amount: clarityUint(fields["collateral-amount"]),
+    repay_amount: clarityUint(fields["repay-amount"]),
+    amount_repaid: clarityUint(fields["amount-repaid"]),
+    start_block: clarityUint(fields["start-block"]),
+    end_block: clarityUint(fields["end-block"]),
+    expiry_block:
+      fields["expiry-block"]?.type === ClarityType.OptionalSome
+        ? clarityUint(fields["expiry-block"].value)
+        : undefined,
+    grace_period: clarityUint(fields["grace-period"]),
+    late_fee_per_block: clarityUint(fields["late-fee-per-block"]),
+    liquidation_ratio:
+      fields["liquidation-ratio"]?.type === ClarityType.OptionalSome
+        ? clarityUint(fields["liquidation-ratio"].value)
+        : undefined,
+    status: clarityUint(fields.status),
+  };
+};
+
+export const fetchExtensionProposal = async (
+  config: ContractConfig,
+  loanId: number
+): Promise<ExtensionProposal | null> => {
+  const value = await callReadOnlyRaw(config, "get-extension-proposal", extensionArgs(loanId));
+  if (value.type !== ClarityType.OptionalSome || value.value.type !== ClarityType.Tuple) {
+    return null;
+  }
+  const fields = value.value.value;
+  return {
+    proposer: clarityPrincipal(fields.proposer),
+    end_block: clarityUint(fields["end-block"]),
+    repay_amount: clarityUint(fields["repay-amount"]),
+    proposed_at: clarityUint(fields["proposed-at"]),
+  };
+};
+
+export const fetchExtensionHistory = async (
+  config: ContractConfig,
+  loanId: number
+): Promise<ExtensionRecord[]> => {
+  const value = await callReadOnlyRaw(config, "get-extension-history", extensionArgs(loanId));
+  if (value.type !== ClarityType.List) return [];
+  return value.value
+    .filter((item): item is TupleCV => item.type === ClarityType.Tuple)
+    .map(({ value: fields }) => ({
+      proposer: clarityPrincipal(fields.proposer),
+      previous_end_block: clarityUint(fields["previous-end-block"]),
+      previous_repay_amount: clarityUint(fields["previous-repay-amount"]),
+      end_block: clarityUint(fields["end-block"]),
+      repay_amount: clarityUint(fields["repay-amount"]),
+      accepted_at: clarityUint(fields["accepted-at"]),
+    }));
+};
+
+export const decodePositionListing = (tuple: TupleCV): PositionListing => {
+  const fields = tuple.value;
+  return {
+    seller: clarityPrincipal(fields.seller),
+    price: clarityUint(fields.price),
+    buyer: clarityOptionalPrincipal(fields.buyer),
+    listed_at: clarityUint(fields["listed-at"]),
+  };
+};
+
+export type LoanEvent =
+  | {
+      event: "create-loan";
+      loan_id: number;
+      borrower: string;
+      principal_token?: string;
+      principal_amount: bigint;
+      collateral_token?: string;
+      collateral_amount: bigint;
+      repay_amount: bigint;
+      duration: bigint;
+      expiry_block?: bigint;
+      grace_period: bigint;
+      late_fee_per_block: bigint;
+      liquidation_ratio?: bigint;
+    }
+  | { event: "fund-loan"; loan_id: number; lender: string; start_block: bigint; end_block: bigint }
+  | {
+      event: "repay";
+      loan_id: number;
+      borrower: string;
+      lender: string;
+      amount: bigint;
+      late_fee: bigint;
+      amount_repaid: bigint;
+      remaining: bigint;
+    }
+  | { event: "cancel-loan"; loan_id: number; borrower: string }
+  | { event: "expire-loan"; loan_id: number; borrower: string }
+  | { event: "claim-default"; loan_id: number; lender: string; collateral_amount: bigint }
+  | {
+      event: "liquidate";
+      loan_id: number;
+      lender: string;
+      collateral_amount: bigint;
+      collateral_value: bigint;
+      debt_value: bigint;
+    }
+  | {
+      event: "propose-extension";
+      loan_id: number;
+      proposer: string;
+      end_block: bigint;
+      repay_amount: bigint;
+    }
+  | { event: "reject-extension"; loan_id: number; proposer: string; rejected_by: string }
+  | { event: "extend-loan"; loan_id: number; end_block: bigint; repay_amount: bigint }
+  | { event: "transfer-position"; loan_id: number; from: string; to: string; price: bigint };
+
+export type LoanEventType = LoanEvent["event"];
+
+export const decodeLoanEvent = (value: ClarityValue | string): LoanEvent | null => {
+  const cv = typeof value === "string" ? deserializeCV(value) : value;
+  if (cv.type !== ClarityType.Tuple) return null;
+  const fields = cv.value;
+  const event = fields.event;
+  const loanId = fields["loan-id"];
+  if (event?.type !== ClarityType.StringASCII || loanId?.type !== ClarityType.UInt) return null;
+  const loan_id = Number(loanId.value);
+
+  switch (event.value) {
+    case "create-loan":
+      return {
+        event: event.value,
+        loan_id,
+        borrower: clarityPrincipal(fields.borrower),
+        principal_token: clarityOptionalPrincipal(fields["principal-token"]),
+        principal_amount: clarityUint(fields["principal-amount"]),
+        collateral_token: clarityOptionalPrincipal(fields["collateral-token"]),
+        collateral_amount: clarityUint(fields["collateral-amount"]),
+        repay_amount: clarityUint(fields["repay-amount"]),
+        duration: clarityUint(fields.duration),
+        expiry_block:
+          fields["expiry-block"]?.type === ClarityType.OptionalSome
+            ? clarityUint(fields["expiry-block"].value)
+            : undefined,
+        grace_period: clarityUint(fields["grace-period"]),
+        late_fee_per_block: clarityUint(fields["late-fee-per-block"]),
+        liquidation_ratio:
+          fields["liquidation-ratio"]?.type === ClarityType.OptionalSome
+            ? clarityUint(fields["liquidation-ratio"].value)
+            : undefined,
+      };
+    case "fund-loan":
+      return {
+        event: event.value,
+        loan_id,
+        lender: clarityPrincipal(fields.lender),
+        start_block: clarityUint(fields["start-block"]),
+        end_block: clarityUint(fields["end-block"]),
+      };
+    case "repay":
+      return {
+        event: event.value,
+        loan_id,
+        borrower: clarityPrincipal(fields.borrower),
+        lender: clarityPrincipal(fields.lender),
+        amount: clarityUint(fields.amount),
+        late_fee: clarityUint(fields["late-fee"]),
+        amount_repaid: clarityUint(fields["amount-repaid"]),
+        remaining: clarityUint(fields.remaining),
+      };
+    case "cancel-loan":
+    case "expire-loan":
+      return { event: event.value, loan_id, borrower: clarityPrincipal(fields.borrower) };
+    case "claim-default":
+      return {
+        event: event.value,
+        loan_id,
+        lender: clarityPrincipal(fields.lender),
+        collateral_amount: clarityUint(fields["collateral-amount"]),
+      };
+    case "liquidate":
+      return {
+        event: event.value,
+        loan_id,
+        lender: clarityPrincipal(fields.lender),
+        collateral_amount: clarityUint(fields["collateral-amount"]),
+        collateral_value: clarityUint(fields["collateral-value"]),
+        debt_value: clarityUint(fields["debt-value"]),
+      };
+    case "propose-extension":
+      return {
+        event: event.value,
+        loan_id,
+        proposer: clarityPrincipal(fields.proposer),
+        end_block: clarityUint(fields["end-block"]),
+        repay_amount: clarityUint(fields["repay-amount"]),
+      };
+    case "reject-extension":
+      return {
+        event: event.value,
+        loan_id,
+        proposer: clarityPrincipal(fields.proposer),
+        rejected_by: clarityPrincipal(fields["rejected-by"]),
+      };
+    case "extend-loan":
+      return {
+        event: event.value,
+        loan_id,
+        end_block: clarityUint(fields["end-block"]),
+        repay_amount: clarityUint(fields["repay-amount"]),
+      };
+    case "transfer-position":
+      return {
+        event: event.value,
+        loan_id,
+        from: clarityPrincipal(fields.from),
+        to: clarityPrincipal(fields.to),
+        price: clarityUint(fields.price),
+      };
+    default:
+      return null;
+  }
+};
+
+export const decodeOffer = (tuple: TupleCV): Offer => {
+  const fields = tuple.value;
+  const principalToken = clarityOptionalPrincipal(fields["principal-token"]);
+  const collateralToken = clarityOptionalPrincipal(fields["collateral-token"]);
+  const loanId = fields["loan-id"];
+  return {
+    lender: clarityPrincipal(fields.lender),
+    principal_is_stx: !principalToken,
+    principal_token: principalToken,
+    principal_amount: clarityUint(fields["principal-amount"]),
+    collateral_is_stx: !collateralToken,
+    collateral_token: collateralToken,
+    min_collateral_bps: clarityUint(fields["min-collateral-bps"]),
+    rate_bps: clarityUint(fields["rate-bps"]),
+    max_duration: clarityUint(fields["max-duration"]),
+    expiry_block: clarityUint(fields["expiry-block"]),
+    loan_id:
+      loanId?.type === ClarityType.OptionalSome ? Number(clarityUint(loanId.value)) : undefined,
+    status: clarityUint(fields.status),
+  };
+};
+
+type BatchResult<T> = {
+  values: Record<number, T>;
+  missing: number[];
+  failed: { id: number; message: string }[];
+};
+
+export type LoanBatchResult = Omit<BatchResult<Loan>, "values"> & {
+  loans: Record<number, Loan>;
+};
+
+export type OfferBatchResult = Omit<BatchResult<Offer>, "values"> & {
+  offers: Record<number, Offer>;
+};
+
+export type PositionListingBatchResult = Omit<BatchResult<PositionListing>, "values"> & {
+  listings: Record<number, PositionListing>;
+};
+
+const chunkIds = (ids: number[], size: number) => {
+  const chunks: number[][] = [];
+  for (let index = 0; index < ids.length; index += size) {
+    chunks.push(ids.slice(index, index + size));
+  }
+  return chunks;
+};
+
+const fetchBatched = async <T>(
+  config: ContractConfig,
+  functionName: string,
+  ids: number[],
+  decode: (tuple: TupleCV) => T,
+  { chunkSize = LOAN_BATCH_SIZE, concurrency = 4 } = {}
+): Promise<BatchResult<T>> => {
+  const result: BatchResult<T> = { values: {}, missing: [], failed: [] };
+  const chunks = chunkIds(ids, Math.min(chunkSize, LOAN_BATCH_SIZE));
+  let next = 0;
+
+  const worker = async () => {
+    while (next < chunks.length) {
+      const chunk = chunks[next];
+      next += 1;
+      try {
+        const value = await callReadOnlyRaw(config, functionName, [
+          listCV(chunk.map((id) => uintCV(id))),
+        ]);
+        if (value.type !== ClarityType.List) {
+          throw new Error(`Unexpected ${functionName} response.`);
+        }
+        chunk.forEach((id, index) => {
+          const entry = value.value[index];
+          if (entry?.type === ClarityType.OptionalSome && entry.value.type === ClarityType.Tuple) {
+            result.values[id] = decode(entry.value);
+          } else {
+            result.missing.push(id);
+          }
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        chunk.forEach((id) => result.failed.push({ id, message }));
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, concurrency), chunks.length) }, worker)
+  );
+  result.missing.sort((a, b) => a - b);
+  result.failed.sort((a, b) => a.id - b.id);
+  return result;
+};
+
+export const fetchLoans = async (
+  config: ContractConfig,
+  ids: number[],
+  options?: { chunkSize?: number; concurrency?: number }
+): Promise<LoanBatchResult> => {
+  const { values, ...rest } = await fetchBatched(config, "get-loans", ids, decodeLoan, options);
+  return { loans: values, ...rest };
+};
+
+export const fetchOffers = async (
+  config: ContractConfig,
+  ids: number[],
+  options?: { chunkSize?: number; concurrency?: number }
+): Promise<OfferBatchResult> => {
+  const { values, ...rest } = await fetchBatched(config, "get-offers", ids, decodeOffer, options);
+  return { offers: values, ...rest };
+};
+
+export const fetchPositionListings = async (
+  config: ContractConfig,
+  ids: number[],
+  options?: { chunkSize?: number; concurrency?: number }
+): Promise<PositionListingBatchResult> => {
+  const { values, ...rest } = await fetchBatched(
+    config,
+    "get-position-listings",
+    ids,
+    decodePositionListing,
+    options
+  );
+  return { listings: values, ...rest };
+};
+
+export const loanIdRange = (count: number) =>
+  Array.from({ length: Math.max(0, count) }, (_, index) => index + 1);
+
+export const INDEXER_PAGE_SIZE = 200;
+
+export type IndexedLoan = {
+  loan_id: number;
+  borrower: string;
+  lender: string | null;
+  principal_token: string | null;
+  principal_amount: string;
+  collateral_token: string | null;
+  collateral_amount: string;
+  repay_amount: string;
+  amount_repaid: string;
+  start_block: number;
+  end_block: number;
+  expiry_block: number | null;
+  grace_period: number;
+  late_fee_per_block: string;
+  liquidation_ratio: number | null;
+  status: number;
+};
+
+export type IndexedPage<T> = { total: number; limit: number; offset: number; results: T[] };
+
+export type IndexedLoanQuery = {
+  status?: string;
+  borrower?: string;
+  lender?: string;
+  principal_token?: string;
+  collateral_token?: string;
+};
+
+export const decodeIndexedLoan = (row: IndexedLoan): Loan => ({
+  borrower: row.borrower,
+  lender: row.lender ?? undefined,
+  principal_is_stx: !row.principal_token,
+  principal_token: row.principal_token ?? undefined,
+  principal_amount: BigInt(row.principal_amount),
+  collateral_is_stx: !row.collateral_token,
+  collateral_token: row.collateral_token ?? undefined,
+  collateral_amount: BigInt(row.collateral_amount),
+  repay_amount: BigInt(row.repay_amount),
+  amount_repaid: BigInt(row.amount_repaid),
+  start_block: BigInt(row.start_block),
+  end_block: BigInt(row.end_block),
+  expiry_block: row.expiry_block === null ? undefined : BigInt(row.expiry_block),
+  grace_period: BigInt(row.grace_period),
+  late_fee_per_block: BigInt(row.late_fee_per_block),
+  liquidation_ratio:
+    row.liquidation_ratio === null ? undefined : BigInt(row.liquidation_ratio),
+  status: BigInt(row.status),
+});
+
+const fetchIndexer = async <T>(
+  indexerUrl: string,
+  path: string,
+  params: Record<string, string | number | undefined> = {}
+) => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  });
+  const suffix = query.toString() ? `?${query}` : "";
+  const response = await fetch(`${indexerUrl.replace(/\/$/, "")}${path}${suffix}`);
+  if (!response.ok) {
+    throw new Error(`Indexer request failed: ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+// Follows the indexer's pagination until every matching loan has been read.
+export const fetchIndexedLoans = async (indexerUrl: string, query: IndexedLoanQuery = {}) => {
+  const loans: Record<number, Loan> = {};
+  for (let offset = 0; ; offset += INDEXER_PAGE_SIZE) {
+    const page = await fetchIndexer<IndexedPage<IndexedLoan>>(indexerUrl, "/loans", {
+      ...query,
+      limit: INDEXER_PAGE_SIZE,
+      offset,
+    });
+    page.results.forEach((row) => {
+      loans[row.loan_id] = decodeIndexedLoan(row);
+    });
+    if (page.results.length < INDEXER_PAGE_SIZE || offset + INDEXER_PAGE_SIZE >= page.total) {
+      return { loans, total: page.total };
+    }
+  }
+};
+
+export type TransactionStatus = "pending" | "success" | "abort_by_response" | "abort_by_post_condition";
+
+export type TransactionRecord = {
+  tx_id: string;
+  tx_status: TransactionStatus | string;
+  tx_result?: { hex: string; repr: string };
+  sender_address?: string;
+  block_height?: number;
+  tx_index?: number;
+  burn_block_time?: number;
+};
+
+export const fetchTransaction = async (config: Pick<ContractConfig, "apiUrl">, txId: string) => {
+  const url = `${config.apiUrl}/extended/v1/tx/${txId}`;
+  const response = await fetch(url);
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw Object.assign(new Error(`Transaction lookup failed: ${response.status}`), {
+      status: response.status,
+    });
+  }
+
+  return (await response.json()) as TransactionRecord;
+};
+
+// Dropped connections (no status), rate limits and server errors clear up on
+// their own; any other API error will not.
+const isTransientLookupError = (error: unknown) => {
+  const status = (error as { status?: number }).status;
+  return status === undefined || status === 429 || status >= 500;
+};
+
+export type TransactionOutcome =
+  | { status: "success"; result: ClarityValue }
+  | { status: "failed"; code?: number; message: string };
+
+export const decodeTransactionResult = (tx: TransactionRecord): TransactionOutcome => {
+  if (tx.tx_status === "abort_by_post_condition") {
+    return { status: "failed", message: "Post-condition check failed; no assets moved" };
+  }
+  const result = tx.tx_result ? deserializeCV(tx.tx_result.hex) : undefined;
+  if (tx.tx_status === "success" && result?.type === ClarityType.ResponseOk) {
+    return { status: "success", result: result.value };
+  }
+  if (result?.type === ClarityType.ResponseErr && result.value.type === ClarityType.UInt) {
+    const code = Number(result.value.value);
+    return { status: "failed", code, message: contractError(code).message };
+  }
+  return { status: "failed", message: tx.tx_result?.repr ?? tx.tx_status };
+};
+
+export type ChainTip = {
+  stacksHeight: number;
+  burnHeight: number;
+  fetchedAt: number;
+};
+
+// The contract compares against stacks-block-height, which is the node's stacks_tip_height.
+export const fetchChainTip = async (config: Pick<ContractConfig, "apiUrl">): Promise<ChainTip> => {
+  const response = await fetch(`${config.apiUrl}/v2/info`);
+  if (!response.ok) {
+    throw new Error(`Chain info failed: ${response.status}`);
+  }
+  const info = (await response.json()) as { stacks_tip_height: number; burn_block_height: number };
+  return {
+    stacksHeight: info.stacks_tip_height,
+    burnHeight: info.burn_block_height,
+    fetchedAt: Date.now(),
+  };
+};
+
+export const isTipStale = (tip: ChainTip | null, now: number, staleAfterMs: number) =>
+  !tip || now - tip.fetchedAt > staleAfterMs;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Resolves with the confirmed transaction, or null if it is still unconfirmed
+// at the deadline: it may yet confirm, so callers should keep it re-pollable.
+// Transient lookup errors back off exponentially up to `maxBackoffMs`.
+export const waitForTransaction = async (
+  config: Pick<ContractConfig, "apiUrl">,
+  txId: string,
+  { intervalMs = 10000, timeoutMs = 30 * 60 * 1000, maxBackoffMs = 5 * 60 * 1000 } = {}
+): Promise<TransactionRecord | null> => {
+  const deadline = Date.now() + timeoutMs;
+  let failures = 0;
+  while (Date.now() < deadline) {
+    try {
+      const tx = await fetchTransaction(config, txId);
+      failures = 0;
+      if (tx && tx.tx_status !== "pending") {
+        return tx;
+      }
+    } catch (error) {
+      if (!isTransientLookupError(error)) throw error;
+      failures += 1;
+    }
+    const delay = Math.min(intervalMs * 2 ** failures, maxBackoffMs);
+    await sleep(Math.max(0, Math.min(delay, deadline - Date.now())));
+  }
+  return null;
+};
+
+export const createdLoanIdFromTx = (tx: TransactionRecord) => {
+  const outcome = decodeTransactionResult(tx);
+  if (outcome.status !== "success") {
+    throw new Error(`Create-loan did not succeed: ${outcome.message}`);
+  }
+  if (outcome.result.type !== ClarityType.UInt) {
+    throw new Error(`Unexpected create-loan result: ${tx.tx_result?.repr}`);
+  }
+  return Number(outcome.result.value);
+};
+
+export type LoanTimelineEntry = {
+  event: LoanEvent;
+  txId: string;
+  eventIndex: number;
+  blockHeight: number;
+  txIndex: number;
+  timestamp?: number;
+  actor: string;
+};
+
+export type LoanTimeline = { entries: LoanTimelineEntry[]; complete: boolean };
+
+export type TimelineAmount = {
+  label: string;
+  side: "principal" | "collateral";
+  amount: bigint;
+};
+
+// Assets each event moved. fund-loan and a settling repay do not print the
+// principal or released collateral, so those come from the loan record.
+export const timelineAmounts = (
+  event: LoanEvent,
+  loan: Pick<Loan, "principal_amount" | "collateral_amount">
+): TimelineAmount[] => {
+  switch (event.event) {
+    case "create-loan":
+      return [{ label: "Collateral posted", side: "collateral", amount: event.collateral_amount }];
+    case "fund-loan":
+      return [{ label: "Principal lent", side: "principal", amount: loan.principal_amount }];
+    case "repay":
+      return [
+        { label: "Repaid", side: "principal", amount: event.amount },
+        ...(event.late_fee > 0n
+          ? [{ label: "Late fee", side: "principal" as const, amount: event.late_fee }]
+          : []),
+        ...(event.remaining === 0n
+          ? [
+              {
+                label: "Collateral released",
+                side: "collateral" as const,
+                amount: loan.collateral_amount,
+              },
+            ]
+          : []),
+      ];
+    case "cancel-loan":
+    case "expire-loan":
+      return [{ label: "Collateral returned", side: "collateral", amount: loan.collateral_amount }];
+    case "claim-default":
+      return [{ label: "Collateral claimed", side: "collateral", amount: event.collateral_amount }];
+    case "liquidate":
+      return [{ label: "Collateral liquidated", side: "collateral", amount: event.collateral_amount }];
+    case "transfer-position":
+      return event.price > 0n
+        ? [{ label: "Position price", side: "principal", amount: event.price }]
+        : [];
+    case "propose-extension":
+    case "reject-extension":
+    case "extend-loan":
+      return [];
+  }
+};
+
+const byChainOrder = (a: LoanTimelineEntry, b: LoanTimelineEntry) =>
+  a.blockHeight - b.blockHeight || a.txIndex - b.txIndex || a.eventIndex - b.eventIndex;
+
+type ContractEventRecord = {
+  tx_id: string;
+  event_index: number;
+  event_type: string;
+  contract_log?: { contract_id: string; topic: string; value: { hex: string } };
+};
+
+// Walks the contract's print events newest first until the loan's create-loan
+// event turns up, then reads block, time and sender from each transaction.
+export const fetchLoanTimeline = async (
+  config: ContractConfig,
+  loanId: number,
+  { pageSize = 50, maxPages = 40 } = {}
+): Promise<LoanTimeline> => {
+  const found: { txId: string; eventIndex: number; event: LoanEvent }[] = [];
+  let complete = false;
+  for (let page = 0; page < maxPages && !complete; page += 1) {
+    const response = await fetch(
+      `${config.apiUrl}/extended/v1/contract/${contractId(config)}/events` +
+        `?limit=${pageSize}&offset=${page * pageSize}`
+    );
+    if (!response.ok) {
+      throw new Error(`Contract events failed: ${response.status}`);
+    }
+    const { results } = (await response.json()) as { results: ContractEventRecord[] };
+    results.forEach((record) => {
+      if (record.contract_log?.topic !== "print") return;
+      const event = decodeLoanEvent(record.contract_log.value.hex);
+      if (event?.loan_id !== loanId) return;
+      found.push({ txId: record.tx_id, eventIndex: record.event_index, event });
+      if (event.event === "create-loan") complete = true;
+    });
+    if (results.length < pageSize) complete = true;
+  }
+
+  const txIds = Array.from(new Set(found.map((entry) => entry.txId)));
+  const txs = new Map(
+    await Promise.all(
+      txIds.map(async (txId) => [txId, await fetchTransaction(config, txId)] as const)
+    )
+  );
+  const entries = found.map(({ txId, eventIndex, event }) => {
+    const tx = txs.get(txId);
+    return {
+      event,
+      txId,
+      eventIndex,
+      blockHeight: tx?.block_height ?? 0,
+      txIndex: tx?.tx_index ?? 0,
+      timestamp: tx?.burn_block_time,
+      actor: tx?.sender_address ?? "",
+    };
+  });
+  return { entries: entries.sort(byChainOrder), complete };
+};
+
+type IndexedEvent = {
+  tx_id: string;
+  event_index: number;
+  block_height: number;
+  tx_index: number;
+  burn_block_time: number;
+  sender: string;
+  hex: string;
+};
+
+export const fetchIndexedLoanTimeline = async (
+  indexerUrl: string,
+  loanId: number
+): Promise<LoanTimeline> => {
+  const entries: LoanTimelineEntry[] = [];
+  for (let offset = 0; ; offset += INDEXER_PAGE_SIZE) {
+    const page = await fetchIndexer<IndexedPage<IndexedEvent>>(
+      indexerUrl,
+      `/loans/${loanId}/events`,
+      { limit: INDEXER_PAGE_SIZE, offset }
+    );
+    page.results.forEach((row) => {
+      const event = decodeLoanEvent(row.hex);
+      if (!event) return;
+      entries.push({
+        event,
+        txId: row.tx_id,
+        eventIndex: row.event_index,
+        blockHeight: row.block_height,
+        txIndex: row.tx_index,
+        timestamp: row.burn_block_time,
+        actor: row.sender,
+      });
+    });
+    if (page.results.length < INDEXER_PAGE_SIZE || offset + INDEXER_PAGE_SIZE >= page.total) {
+      return { entries, complete: true };
+    }
+  }
 };
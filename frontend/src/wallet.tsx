@@ -8,13 +8,14 @@ import {
   type ReactNode,
 } from "react";
 import { createAppKit } from "@reown/appkit/react";
+import { NETWORK_PROFILES, type NetworkProfile } from "./networks";
 
 type WalletContextValue = {
   address: string;
   chainId: string | null;
   isConnected: boolean;
   isConnecting: boolean;
-  connect: (chainId: string) => Promise<void>;
+  connect: (profile: NetworkProfile) => Promise<void>;
   disconnect: () => Promise<void>;
 };
 
@@ -39,7 +40,7 @@ const stacksTestnet = {
   caipNetworkId: "stacks:testnet",
   nativeCurrency: { name: "Stacks", symbol: "STX", decimals: 6 },
   rpcUrls: {
-    default: { http: ["https://api.testnet.hiro.so"] },
+    default: { http: [NETWORK_PROFILES.testnet.apiUrl] },
   },
   blockExplorers: {
     default: { name: "Hiro", url: "https://explorer.hiro.so" },
@@ -54,7 +55,7 @@ const stacksMainnet = {
   caipNetworkId: "stacks:mainnet",
   nativeCurrency: { name: "Stacks", symbol: "STX", decimals: 6 },
   rpcUrls: {
-    default: { http: ["https://api.mainnet.hiro.so"] },
+    default: { http: [NETWORK_PROFILES.mainnet.apiUrl] },
   },
   blockExplorers: {
     default: { name: "Hiro", url: "https://explorer.hiro.so" },
@@ -123,11 +124,10 @@ export function WalletProvider({ children }: { children: ReactNode }) {
   }, [syncFromAppKit]);
 
   const connect = useCallback(
-    async (targetChainId: string) => {
+    async (profile: NetworkProfile) => {
       setIsConnecting(true);
       try {
-        const nextNetwork =
-          targetChainId === "stacks:mainnet" ? stacksMainnet : stacksTestnet;
+        const nextNetwork = profile.chainId === "stacks:mainnet" ? stacksMainnet : stacksTestnet;
         await appKit.switchNetwork(nextNetwork);
         await appKit.open({ view: "Connect", namespace: "stacks" });
         syncFromAppKit();
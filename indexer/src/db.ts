@@ -0,0 +1,268 @@
+import Database from "better-sqlite3";
+
+export const STATUS = {
+  OPEN: 0,
+  FUNDED: 1,
+  REPAID: 2,
+  DEFAULTED: 3,
+  CANCELLED: 4,
+  EXPIRED: 5,
+} as const;
+
+// Amounts are uint128 on chain, so they are stored and served as decimal strings.
+export type LoanRow = {
+  loan_id: number;
+  borrower: string;
+  lender: string | null;
+  principal_token: string | null;
+  principal_amount: string;
+  collateral_token: string | null;
+  collateral_amount: string;
+  repay_amount: string;
+  amount_repaid: string;
+  start_block: number;
+  end_block: number;
+  expiry_block: number | null;
+  grace_period: number;
+  late_fee_per_block: string;
+  liquidation_ratio: number | null;
+  status: number;
+  created_tx: string;
+  created_block: number;
+  updated_block: number;
+};
+
+export type EventRow = {
+  tx_id: string;
+  event_index: number;
+  loan_id: number;
+  event: string;
+  block_height: number;
+  tx_index: number;
+  burn_block_time: number;
+  sender: string;
+  payload: Record<string, unknown>;
+  hex: string;
+};
+
+export type TransactionRow = {
+  tx_id: string;
+  tx_status: string;
+  function_name: string | null;
+  sender: string;
+  block_height: number;
+  tx_index: number;
+  burn_block_time: number;
+};
+
+export type LoanFilter = {
+  status?: number;
+  borrower?: string;
+  lender?: string;
+  principal_token?: string | null;
+  collateral_token?: string | null;
+};
+
+export type Page = { limit: number; offset: number };
+
+export type PageResult<T> = Page & { total: number; results: T[] };
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS transactions (
+    tx_id TEXT PRIMARY KEY,
+    tx_status TEXT NOT NULL,
+    function_name TEXT,
+    sender TEXT NOT NULL,
+    block_height INTEGER NOT NULL,
+    tx_index INTEGER NOT NULL,
+    burn_block_time INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS loans (
+    loan_id INTEGER PRIMARY KEY,
+    borrower TEXT NOT NULL,
+    lender TEXT,
+    principal_token TEXT,
+    principal_amount TEXT NOT NULL,
+    collateral_token TEXT,
+    collateral_amount TEXT NOT NULL,
+    repay_amount TEXT NOT NULL,
+    amount_repaid TEXT NOT NULL,
+    start_block INTEGER NOT NULL,
+    end_block INTEGER NOT NULL,
+    expiry_block INTEGER,
+    grace_period INTEGER NOT NULL,
+    late_fee_per_block TEXT NOT NULL,
+    liquidation_ratio INTEGER,
+    status INTEGER NOT NULL,
+    created_tx TEXT NOT NULL,
+    created_block INTEGER NOT NULL,
+    updated_block INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS loans_borrower ON loans (borrower);
+  CREATE INDEX IF NOT EXISTS loans_lender ON loans (lender);
+  CREATE TABLE IF NOT EXISTS events (
+    tx_id TEXT NOT NULL REFERENCES transactions (tx_id),
+    event_index INTEGER NOT NULL,
+    loan_id INTEGER NOT NULL,
+    event TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    hex TEXT NOT NULL,
+    PRIMARY KEY (tx_id, event_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_loan ON events (loan_id);
+`;
+
+const LOAN_COLUMNS = [
+  "loan_id",
+  "borrower",
+  "lender",
+  "principal_token",
+  "principal_amount",
+  "collateral_token",
+  "collateral_amount",
+  "repay_amount",
+  "amount_repaid",
+  "start_block",
+  "end_block",
+  "expiry_block",
+  "grace_period",
+  "late_fee_per_block",
+  "liquidation_ratio",
+  "status",
+  "created_tx",
+  "created_block",
+  "updated_block",
+] as const;
+
+const filterClause = (filter: LoanFilter) => {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+  if (filter.status !== undefined) {
+    clauses.push("status = ?");
+    params.push(filter.status);
+  }
+  if (filter.borrower) {
+    clauses.push("borrower = ?");
+    params.push(filter.borrower);
+  }
+  if (filter.lender) {
+    clauses.push("lender = ?");
+    params.push(filter.lender);
+  }
+  // null selects STX-denominated loans, a string selects one SIP-010 token.
+  (["principal_token", "collateral_token"] as const).forEach((column) => {
+    const value = filter[column];
+    if (value === null) {
+      clauses.push(`${column} IS NULL`);
+    } else if (value !== undefined) {
+      clauses.push(`${column} = ?`);
+      params.push(value);
+    }
+  });
+  return { where: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", params };
+};
+
+export const openStore = (path = ":memory:") => {
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const statements = {
+    hasTransaction: db.prepare("SELECT 1 FROM transactions WHERE tx_id = ?"),
+    insertTransaction: db.prepare(
+      `INSERT INTO transactions (tx_id, tx_status, function_name, sender, block_height, tx_index, burn_block_time)
+       VALUES (@tx_id, @tx_status, @function_name, @sender, @block_height, @tx_index, @burn_block_time)`
+    ),
+    insertEvent: db.prepare(
+      `INSERT INTO events (tx_id, event_index, loan_id, event, payload, hex)
+       VALUES (@tx_id, @event_index, @loan_id, @event, @payload, @hex)`
+    ),
+    upsertLoan: db.prepare(
+      `INSERT OR REPLACE INTO loans (${LOAN_COLUMNS.join(", ")})
+       VALUES (${LOAN_COLUMNS.map((column) => `@${column}`).join(", ")})`
+    ),
+    getLoan: db.prepare("SELECT * FROM loans WHERE loan_id = ?"),
+    lastBlock: db.prepare("SELECT MAX(block_height) AS height FROM transactions"),
+    counts: db.prepare(
+      "SELECT (SELECT COUNT(*) FROM loans) AS loans, (SELECT COUNT(*) FROM events) AS events"
+    ),
+    countEvents: db.prepare("SELECT COUNT(*) AS total FROM events WHERE loan_id = ?"),
+    listEvents: db.prepare(
+      `SELECT e.tx_id, e.event_index, e.loan_id, e.event, e.payload, e.hex,
+              t.block_height, t.tx_index, t.burn_block_time, t.sender
+       FROM events e JOIN transactions t ON t.tx_id = e.tx_id
+       WHERE e.loan_id = ?
+       ORDER BY t.block_height, t.tx_index, e.event_index
+       LIMIT ? OFFSET ?`
+    ),
+  };
+
+  const hasTransaction = (txId: string) => Boolean(statements.hasTransaction.get(txId));
+
+  const getLoan = (loanId: number) =>
+    (statements.getLoan.get(loanId) as LoanRow | undefined) ?? null;
+
+  const listLoans = (filter: LoanFilter, page: Page): PageResult<LoanRow> => {
+    const { where, params } = filterClause(filter);
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM loans ${where}`).get(...params) as {
+      total: number;
+    };
+    const results = db
+      .prepare(`SELECT * FROM loans ${where} ORDER BY loan_id LIMIT ? OFFSET ?`)
+      .all(...params, page.limit, page.offset) as LoanRow[];
+    return { total, ...page, results };
+  };
+
+  const listEvents = (loanId: number, page: Page): PageResult<EventRow> => {
+    const { total } = statements.countEvents.get(loanId) as { total: number };
+    const rows = statements.listEvents.all(loanId, page.limit, page.offset) as (Omit<
+      EventRow,
+      "payload"
+    > & { payload: string })[];
+    return {
+      total,
+      ...page,
+      results: rows.map((row) => ({ ...row, payload: JSON.parse(row.payload) })),
+    };
+  };
+
+  // Each transaction and the loan rows it touches are written atomically, so a
+  // crash mid-ingest never leaves a transaction marked seen without its events.
+  const recordTransaction = (
+    tx: TransactionRow,
+    events: Omit<EventRow, "tx_id" | "block_height" | "tx_index" | "burn_block_time" | "sender">[],
+    loans: LoanRow[]
+  ) =>
+    db.transaction(() => {
+      statements.insertTransaction.run(tx);
+      events.forEach((event) =>
+        statements.insertEvent.run({
+          tx_id: tx.tx_id,
+          event_index: event.event_index,
+          loan_id: event.loan_id,
+          event: event.event,
+          payload: JSON.stringify(event.payload),
+          hex: event.hex,
+        })
+      );
+      loans.forEach((loan) => statements.upsertLoan.run(loan));
+    })();
+
+  const status = () => {
+    const { height } = statements.lastBlock.get() as { height: number | null };
+    const counts = statements.counts.get() as { loans: number; events: number };
+    return { last_block: height ?? 0, ...counts };
+  };
+
+  return {
+    hasTransaction,
+    getLoan,
+    listLoans,
+    listEvents,
+    recordTransaction,
+    status,
+    close: () => db.close(),
+  };
+};
+
+export type Store = ReturnType<typeof openStore>;
@@ -0,0 +1,182 @@
+import { ClarityType, deserializeCV, type ClarityValue } from "@stacks/transactions";
+import { STATUS, type LoanRow, type Store } from "./db";
+import type { ChainTransaction, ContractLogEvent, TransactionSource } from "./source";
+
+export type LoanEventPayload = Record<string, unknown> & { event: string; loan_id: number };
+
+const PAGE_LIMIT = 50;
+
+// Converts a print payload to JSON: kebab-case keys become snake_case, uints
+// become decimal strings, none becomes null and some(x) becomes x.
+export const clarityToJson = (cv: ClarityValue): unknown => {
+  switch (cv.type) {
+    case ClarityType.UInt:
+    case ClarityType.Int:
+      return BigInt(cv.value).toString();
+    case ClarityType.BoolTrue:
+      return true;
+    case ClarityType.BoolFalse:
+      return false;
+    case ClarityType.PrincipalStandard:
+    case ClarityType.PrincipalContract:
+    case ClarityType.StringASCII:
+    case ClarityType.StringUTF8:
+    case ClarityType.Buffer:
+      return cv.value;
+    case ClarityType.OptionalNone:
+      return null;
+    case ClarityType.OptionalSome:
+    case ClarityType.ResponseOk:
+    case ClarityType.ResponseErr:
+      return clarityToJson(cv.value);
+    case ClarityType.List:
+      return cv.value.map(clarityToJson);
+    case ClarityType.Tuple:
+      return Object.fromEntries(
+        Object.entries(cv.value).map(([key, value]) => [
+          key.replace(/-/g, "_"),
+          clarityToJson(value),
+        ])
+      );
+  }
+};
+
+export const decodePrintEvent = (hex: string): LoanEventPayload | null => {
+  const json = clarityToJson(deserializeCV(hex));
+  if (!json || typeof json !== "object" || Array.isArray(json)) return null;
+  const { event, loan_id } = json as Record<string, unknown>;
+  if (typeof event !== "string" || typeof loan_id !== "string") return null;
+  return { ...(json as Record<string, unknown>), event, loan_id: Number(loan_id) };
+};
+
+const text = (value: unknown) => String(value);
+const block = (value: unknown) => Number(value);
+
+// Folds one event into the loan row it refers to, mirroring the contract's own
+// state transitions. Returns null for events about loans we never saw created.
+export const applyEvent = (
+  loan: LoanRow | null,
+  event: LoanEventPayload,
+  tx: Pick<ChainTransaction, "tx_id" | "block_height">
+): LoanRow | null => {
+  if (event.event === "create-loan") {
+    return {
+      loan_id: event.loan_id,
+      borrower: text(event.borrower),
+      lender: null,
+      principal_token: (event.principal_token as string | null) ?? null,
+      principal_amount: text(event.principal_amount),
+      collateral_token: (event.collateral_token as string | null) ?? null,
+      collateral_amount: text(event.collateral_amount),
+      repay_amount: text(event.repay_amount),
+      amount_repaid: "0",
+      start_block: 0,
+      end_block: block(event.duration),
+      expiry_block: event.expiry_block == null ? null : block(event.expiry_block),
+      grace_period: block(event.grace_period),
+      late_fee_per_block: text(event.late_fee_per_block),
+      liquidation_ratio: event.liquidation_ratio == null ? null : block(event.liquidation_ratio),
+      status: STATUS.OPEN,
+      created_tx: tx.tx_id,
+      created_block: tx.block_height,
+      updated_block: tx.block_height,
+    };
+  }
+  if (!loan) return null;
+  const next = { ...loan, updated_block: tx.block_height };
+  switch (event.event) {
+    case "fund-loan":
+      return {
+        ...next,
+        lender: text(event.lender),
+        start_block: block(event.start_block),
+        end_block: block(event.end_block),
+        status: STATUS.FUNDED,
+      };
+    case "repay":
+      return {
+        ...next,
+        amount_repaid: text(event.amount_repaid),
+        status: BigInt(text(event.remaining)) === 0n ? STATUS.REPAID : loan.status,
+      };
+    case "cancel-loan":
+      return { ...next, status: STATUS.CANCELLED };
+    case "expire-loan":
+      return { ...next, status: STATUS.EXPIRED };
+    case "claim-default":
+    case "liquidate":
+      return { ...next, status: STATUS.DEFAULTED };
+    case "extend-loan":
+      return {
+        ...next,
+        end_block: block(event.end_block),
+        repay_amount: text(event.repay_amount),
+      };
+    case "transfer-position":
+      return { ...next, lender: text(event.to) };
+    default:
+      return next;
+  }
+};
+
+const loanEvents = (contractId: string, events: ContractLogEvent[]) =>
+  events.flatMap((event) => {
+    const log = event.contract_log;
+    if (!log || log.contract_id !== contractId || log.topic !== "print") return [];
+    const payload = decodePrintEvent(log.value.hex);
+    return payload ? [{ event_index: event.event_index, payload, hex: log.value.hex }] : [];
+  });
+
+// Walks the newest-first listing until it reaches a transaction that is already
+// stored, then applies the new ones oldest first. Returns how many were stored.
+// Transactions mined mid-walk shift the offsets, so a page can repeat the tail of
+// the previous one; those repeats are queued once.
+export const syncOnce = async (store: Store, source: TransactionSource, contractId: string) => {
+  const pending: ChainTransaction[] = [];
+  const queued = new Set<string>();
+  for (let offset = 0; ; offset += PAGE_LIMIT) {
+    const page = await source.fetchPage(offset, PAGE_LIMIT);
+    const fresh = page.results.filter((tx) => tx.tx_status !== "pending");
+    const seenIndex = fresh.findIndex((tx) => store.hasTransaction(tx.tx_id));
+    (seenIndex === -1 ? fresh : fresh.slice(0, seenIndex)).forEach((tx) => {
+      if (queued.has(tx.tx_id)) return;
+      queued.add(tx.tx_id);
+      pending.push(tx);
+    });
+    if (seenIndex !== -1 || page.results.length < PAGE_LIMIT) break;
+  }
+
+  const ordered = pending.reverse();
+  for (const tx of ordered) {
+    const events =
+      tx.tx_status === "success"
+        ? loanEvents(contractId, await source.fetchEvents(tx.tx_id))
+        : [];
+    const touched = new Map<number, LoanRow>();
+    events.forEach(({ payload }) => {
+      const current = touched.get(payload.loan_id) ?? store.getLoan(payload.loan_id);
+      const updated = applyEvent(current, payload, tx);
+      if (updated) touched.set(payload.loan_id, updated);
+    });
+    store.recordTransaction(
+      {
+        tx_id: tx.tx_id,
+        tx_status: tx.tx_status,
+        function_name: tx.contract_call?.function_name ?? null,
+        sender: tx.sender_address,
+        block_height: tx.block_height,
+        tx_index: tx.tx_index,
+        burn_block_time: tx.burn_block_time,
+      },
+      events.map(({ event_index, payload, hex }) => ({
+        event_index,
+        loan_id: payload.loan_id,
+        event: payload.event,
+        payload,
+        hex,
+      })),
+      [...touched.values()]
+    );
+  }
+  return ordered.length;
+};
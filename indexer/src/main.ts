@@ -0,0 +1,32 @@
+import { openStore } from "./db";
+import { syncOnce } from "./ingest";
+import { createIndexerServer } from "./server";
+import { createApiSource, loadStubSource } from "./source";
+
+const env = process.env;
+const apiUrl = env.INDEXER_API_URL ?? "https://api.testnet.hiro.so";
+const contractId = env.INDEXER_CONTRACT ?? "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.p2p-lending";
+const dbPath = env.INDEXER_DB ?? "indexer.sqlite";
+const port = Number(env.PORT ?? 3700);
+const pollMs = Number(env.INDEXER_POLL_MS ?? 30_000);
+
+const store = openStore(dbPath);
+const source = env.INDEXER_STUB ? loadStubSource(env.INDEXER_STUB) : createApiSource(apiUrl, contractId);
+
+const poll = async () => {
+  try {
+    const stored = await syncOnce(store, source, contractId);
+    if (stored > 0) {
+      console.log(`Indexed ${stored} transaction(s), tip ${store.status().last_block}.`);
+    }
+  } catch (error) {
+    console.error(`Sync failed: ${error instanceof Error ? error.message : error}`);
+  }
+  setTimeout(poll, pollMs);
+};
+
+createIndexerServer(store).listen(port, () => {
+  console.log(`Indexing ${contractId} from ${env.INDEXER_STUB ?? apiUrl}`);
+  console.log(`Serving on http://localhost:${port}`);
+  void poll();
+});
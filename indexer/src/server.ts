@@ -0,0 +1,109 @@
+import { createServer, type ServerResponse } from "node:http";
+import { STATUS, type LoanFilter, type Page, type Store } from "./db";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+type HttpError = Error & { status: number };
+
+const httpError = (status: number, message: string): HttpError =>
+  Object.assign(new Error(message), { status });
+
+const send = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, {
+    "content-type": "application/json",
+    "access-control-allow-origin": "*",
+  });
+  response.end(JSON.stringify(body));
+};
+
+const integerParam = (params: URLSearchParams, name: string, fallback: number, max?: number) => {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw httpError(400, `${name} must be a non-negative integer.`);
+  }
+  return max === undefined ? value : Math.min(value, max);
+};
+
+const pageParams = (params: URLSearchParams): Page => ({
+  limit: integerParam(params, "limit", DEFAULT_LIMIT, MAX_LIMIT),
+  offset: integerParam(params, "offset", 0),
+});
+
+// Accepts a status name ("funded") or its numeric code ("1").
+const statusParam = (raw: string | null) => {
+  if (raw === null || raw === "") return undefined;
+  const byName = STATUS[raw.toUpperCase() as keyof typeof STATUS];
+  if (byName !== undefined) return byName;
+  const code = Number(raw);
+  if (Object.values(STATUS).includes(code as (typeof STATUS)[keyof typeof STATUS])) return code;
+  throw httpError(400, `Unknown status ${raw}.`);
+};
+
+// "stx" selects loans on the native asset, anything else is a token contract id.
+const tokenParam = (raw: string | null) =>
+  raw === null || raw === "" ? undefined : raw.toLowerCase() === "stx" ? null : raw;
+
+const loanFilter = (params: URLSearchParams): LoanFilter => ({
+  status: statusParam(params.get("status")),
+  borrower: params.get("borrower") || undefined,
+  lender: params.get("lender") || undefined,
+  principal_token: tokenParam(params.get("principal_token")),
+  collateral_token: tokenParam(params.get("collateral_token")),
+});
+
+const loanIdParam = (raw: string) => {
+  const loanId = Number(raw);
+  if (!Number.isInteger(loanId) || loanId <= 0) {
+    throw httpError(400, "Loan ID must be a positive integer.");
+  }
+  return loanId;
+};
+
+export const route = (store: Store, method: string, url: URL) => {
+  if (method !== "GET") throw httpError(405, "Only GET is supported.");
+  const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  const params = url.searchParams;
+
+  if (segments.length === 0 || (segments.length === 1 && segments[0] === "status")) {
+    return store.status();
+  }
+  if (segments[0] === "loans") {
+    if (segments.length === 1) return store.listLoans(loanFilter(params), pageParams(params));
+    const loanId = loanIdParam(segments[1]);
+    if (segments.length === 2) {
+      const loan = store.getLoan(loanId);
+      if (!loan) throw httpError(404, `Loan ${loanId} has not been indexed.`);
+      return loan;
+    }
+    if (segments.length === 3 && segments[2] === "events") {
+      return store.listEvents(loanId, pageParams(params));
+    }
+  }
+  if ((segments[0] === "borrowers" || segments[0] === "lenders") && segments.length === 2) {
+    const role = segments[0] === "borrowers" ? "borrower" : "lender";
+    return store.listLoans({ ...loanFilter(params), [role]: segments[1] }, pageParams(params));
+  }
+  throw httpError(404, `No route for ${url.pathname}.`);
+};
+
+export const createIndexerServer = (store: Store) =>
+  createServer((request, response) => {
+    if (request.method === "OPTIONS") {
+      response.writeHead(204, {
+        "access-control-allow-origin": "*",
+        "access-control-allow-methods": "GET, OPTIONS",
+      });
+      response.end();
+      return;
+    }
+    try {
+      const url = new URL(request.url ?? "/", "http://indexer.local");
+      send(response, 200, route(store, request.method ?? "GET", url));
+    } catch (error) {
+      const status = (error as Partial<HttpError>).status ?? 500;
+      send(response, status, { error: error instanceof Error ? error.message : "Internal error" });
+    }
+  });
@@ -0,0 +1,84 @@
+import { readFileSync } from "node:fs";
+
+// The subset of the Stacks API transaction shape the indexer reads. Stub
+// fixtures use the same shape, so a dump of `/extended/v1/tx/{id}` works as-is.
+export type ContractLogEvent = {
+  event_index: number;
+  event_type: string;
+  contract_log?: {
+    contract_id: string;
+    topic: string;
+    value: { hex: string; repr?: string };
+  };
+};
+
+export type ChainTransaction = {
+  tx_id: string;
+  tx_status: string;
+  tx_type?: string;
+  sender_address: string;
+  block_height: number;
+  tx_index: number;
+  burn_block_time: number;
+  contract_call?: { contract_id: string; function_name: string };
+  events?: ContractLogEvent[];
+};
+
+export type TransactionPage = {
+  total: number;
+  results: ChainTransaction[];
+};
+
+// Pages are newest first, matching the Stacks API address transaction listing.
+export type TransactionSource = {
+  fetchPage: (offset: number, limit: number) => Promise<TransactionPage>;
+  fetchEvents: (txId: string) => Promise<ContractLogEvent[]>;
+};
+
+const EVENT_LIMIT = 50;
+
+const getJson = async <T>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Stacks API request failed: ${response.status} ${url}`);
+  }
+  return (await response.json()) as T;
+};
+
+export const createApiSource = (apiUrl: string, contractId: string): TransactionSource => {
+  const base = apiUrl.replace(/\/$/, "");
+  return {
+    fetchPage: (offset, limit) =>
+      getJson<TransactionPage>(
+        `${base}/extended/v1/address/${contractId}/transactions?limit=${limit}&offset=${offset}`
+      ),
+    fetchEvents: async (txId) => {
+      const events: ContractLogEvent[] = [];
+      for (let offset = 0; ; offset += EVENT_LIMIT) {
+        const tx = await getJson<ChainTransaction & { event_count?: number }>(
+          `${base}/extended/v1/tx/${txId}?event_limit=${EVENT_LIMIT}&event_offset=${offset}`
+        );
+        const page = tx.events ?? [];
+        events.push(...page);
+        if (page.length < EVENT_LIMIT || events.length >= (tx.event_count ?? 0)) return events;
+      }
+    },
+  };
+};
+
+// Serves fixture transactions (oldest first, as they would be mined) through
+// the same interface, for tests and for running the API without a node.
+export const createStubSource = (transactions: ChainTransaction[]): TransactionSource => ({
+  fetchPage: async (offset, limit) => {
+    const newestFirst = [...transactions].reverse();
+    return { total: newestFirst.length, results: newestFirst.slice(offset, offset + limit) };
+  },
+  fetchEvents: async (txId) => {
+    const tx = transactions.find((candidate) => candidate.tx_id === txId);
+    if (!tx) throw new Error(`Stub transaction ${txId} not found.`);
+    return tx.events ?? [];
+  },
+});
+
+export const loadStubSource = (path: string) =>
+  createStubSource(JSON.parse(readFileSync(path, "utf8")) as ChainTransaction[]);
@@ -0,0 +1,260 @@
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { Cl, serializeCV, type ClarityValue } from "@stacks/transactions";
+import { openStore, STATUS, type Store } from "../src/db";
+import { syncOnce } from "../src/ingest";
+import { createIndexerServer } from "../src/server";
+import { createStubSource, type ChainTransaction } from "../src/source";
+
+const DEPLOYER = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const CONTRACT = `${DEPLOYER}.p2p-lending`;
+const SBTC = `${DEPLOYER}.sbtc-token`;
+const BORROWER = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const LENDER = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+const BUYER = "ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC";
+
+let height = 10;
+const tx = (
+  id: string,
+  functionName: string,
+  prints: Record<string, ClarityValue>[],
+  status = "success"
+): ChainTransaction => ({
+  tx_id: `0x${id.padStart(64, "0")}`,
+  tx_status: status,
+  sender_address: BORROWER,
+  block_height: height++,
+  tx_index: 0,
+  burn_block_time: 1_700_000_000 + height * 600,
+  contract_call: { contract_id: CONTRACT, function_name: functionName },
+  events: prints.map((print, index) => ({
+    event_index: index,
+    event_type: "smart_contract_log",
+    contract_log: { contract_id: CONTRACT, topic: "print", value: { hex: serializeCV(Cl.tuple(print)) } },
+  })),
+});
+
+const createLoan = (loanId: number, borrower = BORROWER) => ({
+  event: Cl.stringAscii("create-loan"),
+  "loan-id": Cl.uint(loanId),
+  borrower: Cl.principal(borrower),
+  "principal-token": Cl.none(),
+  "principal-amount": Cl.uint(1000),
+  "collateral-token": Cl.some(Cl.principal(SBTC)),
+  "collateral-amount": Cl.uint(5000),
+  "repay-amount": Cl.uint(1100),
+  duration: Cl.uint(10),
+  "expiry-block": Cl.none(),
+  "grace-period": Cl.uint(0),
+  "late-fee-per-block": Cl.uint(0),
+  "liquidation-ratio": borrower === BORROWER ? Cl.some(Cl.uint(15000)) : Cl.none(),
+});
+
+const fundLoan = (loanId: number, start: number) => ({
+  event: Cl.stringAscii("fund-loan"),
+  "loan-id": Cl.uint(loanId),
+  lender: Cl.principal(LENDER),
+  "start-block": Cl.uint(start),
+  "end-block": Cl.uint(start + 10),
+});
+
+const repay = (loanId: number, amount: number, remaining: number) => ({
+  event: Cl.stringAscii("repay"),
+  "loan-id": Cl.uint(loanId),
+  borrower: Cl.principal(BORROWER),
+  lender: Cl.principal(LENDER),
+  amount: Cl.uint(amount),
+  "late-fee": Cl.uint(0),
+  "amount-repaid": Cl.uint(1100 - remaining),
+  remaining: Cl.uint(remaining),
+});
+
+const history = () => {
+  height = 10;
+  return [
+    tx("1", "create-loan", [createLoan(1)]),
+    tx("2", "create-loan", [createLoan(2)]),
+    tx("3", "fund-loan", [fundLoan(1, 12)]),
+    tx("4", "repay-partial", [repay(1, 400, 700)]),
+    tx("5", "cancel-loan", [
+      { event: Cl.stringAscii("cancel-loan"), "loan-id": Cl.uint(2), borrower: Cl.principal(BORROWER) },
+    ]),
+    tx("6", "fund-loan", [fundLoan(2, 15)], "abort_by_response"),
+    tx("7", "create-loan", [createLoan(3, LENDER)]),
+  ];
+};
+
+type ApiBody = Record<string, unknown> & {
+  total: number;
+  results: (Record<string, unknown> & { loan_id: number })[];
+};
+
+let store: Store;
+afterEach(() => store?.close());
+
+describe("indexer ingest", () => {
+  it("folds contract events into loan rows", async () => {
+    store = openStore();
+    const transactions = history();
+    expect(await syncOnce(store, createStubSource(transactions), CONTRACT)).toBe(7);
+
+    expect(store.getLoan(1)).toMatchObject({
+      borrower: BORROWER,
+      lender: LENDER,
+      principal_token: null,
+      collateral_token: SBTC,
+      amount_repaid: "400",
+      start_block: 12,
+      end_block: 22,
+      liquidation_ratio: 15000,
+      status: STATUS.FUNDED,
+    });
+    expect(store.getLoan(2)).toMatchObject({ status: STATUS.CANCELLED, lender: null, end_block: 10 });
+    expect(store.getLoan(3)?.liquidation_ratio).toBeNull();
+    expect(store.listEvents(1, { limit: 10, offset: 0 }).results.map((event) => event.event)).toEqual([
+      "create-loan",
+      "fund-loan",
+      "repay",
+    ]);
+    expect(store.listEvents(2, { limit: 10, offset: 0 }).total).toBe(2);
+  });
+
+  it("only applies transactions it has not stored yet", async () => {
+    store = openStore();
+    const transactions = history();
+    await syncOnce(store, createStubSource(transactions.slice(0, 4)), CONTRACT);
+    expect(store.getLoan(1)?.amount_repaid).toBe("400");
+
+    transactions.push(tx("8", "repay", [repay(1, 700, 0)]));
+    expect(await syncOnce(store, createStubSource(transactions), CONTRACT)).toBe(4);
+    expect(store.getLoan(1)).toMatchObject({ amount_repaid: "1100", status: STATUS.REPAID });
+    expect(await syncOnce(store, createStubSource(transactions), CONTRACT)).toBe(0);
+    expect(store.status()).toEqual({ last_block: 17, loans: 3, events: 7 });
+  });
+
+  it("applies each transaction once when a new one shifts the pages mid-sync", async () => {
+    store = openStore();
+    const transactions = history();
+    for (let loanId = 4; loanId <= 48; loanId++) {
+      transactions.push(tx(`${100 + loanId}`, "create-loan", [createLoan(loanId)]));
+    }
+    const stub = createStubSource(transactions);
+    const source = {
+      ...stub,
+      fetchPage: async (offset: number, limit: number) => {
+        const page = await stub.fetchPage(offset, limit);
+        if (offset === 0) transactions.push(tx("99", "repay", [repay(1, 700, 0)]));
+        return page;
+      },
+    };
+
+    expect(await syncOnce(store, source, CONTRACT)).toBe(52);
+    expect(store.status()).toMatchObject({ loans: 48, events: 51 });
+    expect(await syncOnce(store, createStubSource(transactions), CONTRACT)).toBe(1);
+    expect(store.getLoan(1)).toMatchObject({ amount_repaid: "1100", status: STATUS.REPAID });
+  });
+
+  it("moves the lender on position transfers, the term on extensions and defaults on liquidation", async () => {
+    store = openStore();
+    const transactions = history();
+    transactions.push(
+      tx("8", "buy-position", [
+        {
+          event: Cl.stringAscii("transfer-position"),
+          "loan-id": Cl.uint(1),
+          from: Cl.principal(LENDER),
+          to: Cl.principal(BUYER),
+          price: Cl.uint(650),
+        },
+      ]),
+      tx("9", "accept-extension", [
+        {
+          event: Cl.stringAscii("extend-loan"),
+          "loan-id": Cl.uint(1),
+          "end-block": Cl.uint(40),
+          "repay-amount": Cl.uint(1150),
+        },
+      ])
+    );
+    await syncOnce(store, createStubSource(transactions), CONTRACT);
+    expect(store.getLoan(1)).toMatchObject({ lender: BUYER, end_block: 40, repay_amount: "1150" });
+
+    transactions.push(
+      tx("10", "liquidate", [
+        {
+          event: Cl.stringAscii("liquidate"),
+          "loan-id": Cl.uint(1),
+          lender: Cl.principal(BUYER),
+          "collateral-amount": Cl.uint(5000),
+          "collateral-value": Cl.uint(1_000_000),
+          "debt-value": Cl.uint(750_000),
+        },
+      ])
+    );
+    await syncOnce(store, createStubSource(transactions), CONTRACT);
+    expect(store.getLoan(1)?.status).toBe(STATUS.DEFAULTED);
+  });
+});
+
+describe("indexer API", () => {
+  const serve = async () => {
+    store = openStore();
+    await syncOnce(store, createStubSource(history()), CONTRACT);
+    const server = createIndexerServer(store);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    const get = async (path: string) => {
+      const response = await fetch(`http://127.0.0.1:${port}${path}`);
+      return { status: response.status, body: (await response.json()) as ApiBody };
+    };
+    return { get, close: () => new Promise((resolve) => server.close(resolve)) };
+  };
+
+  it("serves loans with filters and pagination", async () => {
+    const api = await serve();
+    try {
+      const all = await api.get("/loans?limit=2");
+      expect(all.status).toBe(200);
+      expect(all.body).toMatchObject({ total: 3, limit: 2, offset: 0 });
+      expect(all.body.results.map((loan) => loan.loan_id)).toEqual([1, 2]);
+      expect((await api.get("/loans?limit=2&offset=2")).body.results).toHaveLength(1);
+
+      const funded = await api.get("/loans?status=funded");
+      expect(funded.body.results.map((loan) => loan.loan_id)).toEqual([1]);
+      expect((await api.get("/loans?status=4")).body.total).toBe(1);
+      expect((await api.get("/loans?principal_token=stx")).body.total).toBe(3);
+      expect((await api.get(`/loans?collateral_token=${SBTC}`)).body.total).toBe(3);
+      expect((await api.get("/loans?status=bogus")).status).toBe(400);
+      expect((await api.get("/loans?limit=-1")).status).toBe(400);
+    } finally {
+      await api.close();
+    }
+  });
+
+  it("serves single loans, their events and per-account listings", async () => {
+    const api = await serve();
+    try {
+      expect((await api.get("/loans/1")).body).toMatchObject({ loan_id: 1, lender: LENDER });
+      expect((await api.get("/loans/99")).status).toBe(404);
+      expect((await api.get("/loans/abc")).status).toBe(400);
+
+      const events = await api.get("/loans/1/events?limit=2");
+      expect(events.body.total).toBe(3);
+      expect(events.body.results[1]).toMatchObject({
+        event: "fund-loan",
+        block_height: 12,
+        sender: BORROWER,
+        payload: { lender: LENDER, start_block: "12", end_block: "22" },
+        hex: serializeCV(Cl.tuple(fundLoan(1, 12))),
+      });
+
+      const borrowed = await api.get(`/borrowers/${BORROWER}`);
+      expect(borrowed.body.results.map((loan) => loan.loan_id)).toEqual([1, 2]);
+      expect((await api.get(`/borrowers/${BORROWER}?status=open`)).body.total).toBe(0);
+      expect((await api.get(`/lenders/${LENDER}`)).body.total).toBe(1);
+      expect((await api.get("/nowhere")).status).toBe(404);
+    } finally {
+      await api.close();
+    }
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Keeps vitest from picking up the Clarinet config in the repository root.
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+  },
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  assetDecimals,
+  formatAmount,
+  parseAmount,
+  parseAmountOrNull,
+  rescaleAmount,
+  STX_DECIMALS,
+} from "../frontend/src/amounts";
+
+const SBTC = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.sbtc-token";
+const TOKENS = [{ contract: SBTC, assetName: "sbtc", symbol: "sBTC", name: "sBTC", decimals: 8 }];
+
+describe("parseAmount", () => {
+  it("converts whole and fractional input into base units", () => {
+    expect(parseAmount("1.5", STX_DECIMALS)).toBe(1_500_000n);
+    expect(parseAmount("1", STX_DECIMALS)).toBe(1_000_000n);
+    expect(parseAmount(".25", STX_DECIMALS)).toBe(250_000n);
+    expect(parseAmount("2.", STX_DECIMALS)).toBe(2_000_000n);
+    expect(parseAmount("0.000001", STX_DECIMALS)).toBe(1n);
+    expect(parseAmount("0", 8)).toBe(0n);
+    expect(parseAmount("42", 0)).toBe(42n);
+  });
+
+  it("keeps precision beyond what a float can hold", () => {
+    expect(parseAmount("0.1", 18) + parseAmount("0.2", 18)).toBe(parseAmount("0.3", 18));
+    expect(parseAmount("9007199254740993.00000001", 8)).toBe(900719925474099300000001n);
+    expect(parseAmount("123456789.12345678", 8)).toBe(12345678912345678n);
+  });
+
+  it("accepts surrounding space, group separators and the asset's own symbol", () => {
+    expect(parseAmount(" 1.5 STX ", STX_DECIMALS, "STX")).toBe(1_500_000n);
+    expect(parseAmount("1.5stx", STX_DECIMALS, "STX")).toBe(1_500_000n);
+    expect(parseAmount("1,250.5", STX_DECIMALS)).toBe(1_250_500_000n);
+    expect(parseAmount("1_000", 0)).toBe(1_000n);
+    expect(parseAmount("0.05 sBTC", 8, "sBTC")).toBe(5_000_000n);
+  });
+
+  it("rejects malformed, negative, over-precise and foreign-asset input", () => {
+    expect(() => parseAmount("", STX_DECIMALS)).toThrow("not a valid amount");
+    expect(() => parseAmount(".", STX_DECIMALS)).toThrow("not a valid amount");
+    expect(() => parseAmount("1.2.3", STX_DECIMALS)).toThrow("not a valid amount");
+    expect(() => parseAmount("1e6", STX_DECIMALS)).toThrow("not a valid amount");
+    expect(() => parseAmount("abc", STX_DECIMALS)).toThrow("not a valid amount");
+    expect(() => parseAmount("-1", STX_DECIMALS)).toThrow("cannot be negative");
+    expect(() => parseAmount("1.5 sBTC", STX_DECIMALS, "STX")).toThrow("not a valid amount");
+    expect(() => parseAmount("1.5 STX", STX_DECIMALS)).toThrow("not a valid amount");
+    expect(() => parseAmount("0.0000001", STX_DECIMALS, "STX")).toThrow(
+      "STX allows at most 6 decimal places."
+    );
+    expect(() => parseAmount("1.5", 0)).toThrow("This asset allows at most 0 decimal places.");
+    expect(() => parseAmount("1.55", 1)).toThrow("at most 1 decimal place.");
+  });
+
+  it("returns null instead of throwing when asked", () => {
+    expect(parseAmountOrNull("2.5", STX_DECIMALS)).toBe(2_500_000n);
+    expect(parseAmountOrNull("two", STX_DECIMALS)).toBeNull();
+  });
+});
+
+describe("formatAmount", () => {
+  it("renders base units with the asset's decimals and symbol", () => {
+    expect(formatAmount(1_500_000n, STX_DECIMALS, { symbol: "STX" })).toBe("1.5 STX");
+    expect(formatAmount(500_000_000_000n, STX_DECIMALS, { symbol: "STX" })).toBe("500,000 STX");
+    expect(formatAmount(1_000n, 8, { symbol: "sBTC" })).toBe("0.00001 sBTC");
+    expect(formatAmount(1n, STX_DECIMALS)).toBe("0.000001");
+    expect(formatAmount(0n, 8)).toBe("0");
+    expect(formatAmount(1_234_567n, 0)).toBe("1,234,567");
+    expect(formatAmount(-2_500_000n, STX_DECIMALS)).toBe("-2.5");
+  });
+
+  it("drops grouping for machine-readable output and truncates long fractions", () => {
+    expect(formatAmount(1_234_567_891n, STX_DECIMALS, { grouping: false })).toBe("1234.567891");
+    expect(formatAmount(1_234_567_891n, STX_DECIMALS, { maxFractionDigits: 2 })).toBe("1,234.56");
+    expect(formatAmount(1_999_999n, STX_DECIMALS, { maxFractionDigits: 0 })).toBe("1");
+    expect(formatAmount(1_000_001n, STX_DECIMALS, { maxFractionDigits: 2 })).toBe("1");
+  });
+
+  it("round-trips through parseAmount", () => {
+    [0n, 1n, 999_999n, 1_000_000n, 123_456_789_012_345n, 2n ** 64n].forEach((amount) => {
+      [0, 6, 8, 18].forEach((decimals) => {
+        expect(parseAmount(formatAmount(amount, decimals), decimals)).toBe(amount);
+      });
+    });
+  });
+});
+
+describe("asset decimals", () => {
+  it("uses 6 for STX and the loaded token metadata otherwise", () => {
+    expect(assetDecimals(TOKENS)).toBe(STX_DECIMALS);
+    expect(assetDecimals(TOKENS, SBTC)).toBe(8);
+    expect(assetDecimals(TOKENS, `${SBTC}-v2`)).toBeUndefined();
+  });
+
+  it("rescales between decimal places, rounding down", () => {
+    expect(rescaleAmount(1_500_000n, 6, 8)).toBe(150_000_000n);
+    expect(rescaleAmount(150_000_123n, 8, 6)).toBe(1_500_001n);
+    expect(rescaleAmount(42n, 6, 6)).toBe(42n);
+  });
+});
@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchChainTip, isTipStale } from "../frontend/src/stacks";
+
+describe("chain tip", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reads stacks and burn heights from the node info endpoint", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ stacks_tip_height: 1520, burn_block_height: 870010 }),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const tip = await fetchChainTip({ apiUrl: "http://localhost:3999" });
+    expect(fetchMock).toHaveBeenCalledWith("http://localhost:3999/v2/info");
+    expect(tip).toMatchObject({ stacksHeight: 1520, burnHeight: 870010 });
+  });
+
+  it("fails when the node responds with an error", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: false, status: 503 }));
+    await expect(fetchChainTip({ apiUrl: "http://localhost:3999" })).rejects.toThrow("503");
+  });
+
+  it("flags a tip as stale once it is older than the threshold", () => {
+    const tip = { stacksHeight: 10, burnHeight: 20, fetchedAt: 1000 };
+    expect(isTipStale(null, 1000, 60000)).toBe(true);
+    expect(isTipStale(tip, 61000, 60000)).toBe(false);
+    expect(isTipStale(tip, 61001, 60000)).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { CONTRACT_ERRORS, contractError, errorCode } from "../frontend/src/errors";
+
+const constants = (file: string) =>
+  Array.from(
+    readFileSync(new URL(`../contracts/${file}`, import.meta.url), "utf8").matchAll(
+      /\(define-constant (ERR-[A-Z-]+) u(\d+)\)/g
+    ),
+    ([, name, code]) => ({ name, code: Number(code) })
+  );
+
+describe("error catalog", () => {
+  it("covers every ERR-* constant in the lending contract", () => {
+    const declared = constants("p2p-lending.clar");
+    expect(declared.length).toBeGreaterThan(0);
+    declared.forEach(({ name, code }) => {
+      expect(CONTRACT_ERRORS[code]).toMatchObject({ name, source: "p2p-lending" });
+      expect(CONTRACT_ERRORS[code].actions.length).toBeGreaterThan(0);
+    });
+    const catalogued = Object.values(CONTRACT_ERRORS).filter(
+      (info) => info.source === "p2p-lending"
+    );
+    expect(catalogued).toHaveLength(declared.length);
+  });
+
+  it("covers the SIP-010 token errors", () => {
+    ["sbtc-token.clar", "mock-token.clar"].forEach((file) =>
+      constants(file).forEach(({ name, code }) =>
+        expect(CONTRACT_ERRORS[code]).toMatchObject({ name, source: "sip-010" })
+      )
+    );
+  });
+
+  it("covers the mock price oracle errors", () => {
+    const declared = constants("mock-oracle.clar");
+    expect(declared.length).toBeGreaterThan(0);
+    declared.forEach(({ name, code }) =>
+      expect(CONTRACT_ERRORS[code]).toMatchObject({ name, source: "price-oracle" })
+    );
+  });
+
+  it("looks codes up by name and falls back for unknown codes", () => {
+    expect(errorCode("ERR-PAST-DUE")).toBe(106);
+    expect(errorCode("ERR-NOT-OWNER")).toBe(114);
+    expect(errorCode("ERR-NOT-OWNER", "sip-010")).toBe(200);
+    expect(() => errorCode("ERR-MISSING")).toThrow();
+    expect(contractError(106).message).toBe("Loan is past due");
+    expect(contractError(999)).toMatchObject({ name: "u999", message: "Contract error u999" });
+  });
+});
@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Cl, ClarityType, type TupleCV } from "@stacks/transactions";
+import { errorCode } from "../frontend/src/errors";
+import {
+  accruedAt,
+  apyBps,
+  aprBps,
+  BLOCKS_PER_YEAR,
+  BPS,
+  checkpointSchedule,
+  collateralForRatio,
+  collateralRatioBps,
+  installmentPlan,
+  loanAprBps,
+  perBlockAccrual,
+  repayForApr,
+} from "../frontend/src/finance";
+import { decodeLoan } from "../frontend/src/stacks";
+
+const YEAR = BigInt(BLOCKS_PER_YEAR);
+
+// Deterministic xorshift64 so failures reproduce from the seed.
+const generator = (seed: bigint) => {
+  let state = seed;
+  const mask = (1n << 64n) - 1n;
+  return (min: bigint, max: bigint) => {
+    state ^= (state << 13n) & mask;
+    state ^= state >> 7n;
+    state ^= (state << 17n) & mask;
+    const span = max - min + 1n;
+    // Widen to 128 bits so large ranges are covered evenly enough.
+    const wide = (state << 64n) | (state ^ 0x9e3779b97f4a7c15n);
+    return min + (wide % span);
+  };
+};
+
+const cases = (count: number, seed: bigint) => {
+  const random = generator(seed);
+  return Array.from({ length: count }, () => ({
+    principal: random(1n, 2n ** 96n),
+    apr: random(0n, 100_000n),
+    duration: random(1n, YEAR * 2n),
+    ratio: random(1n, 40_000n),
+    installments: random(1n, 24n),
+  }));
+};
+
+describe("finance", () => {
+  it("annualises a fixed repay amount and inverts it", () => {
+    // 10% over a tenth of a year is 100% APR.
+    expect(aprBps(1_000n, 1_100n, YEAR / 10n)).toBe(10_000n);
+    expect(repayForApr(1_000n, 1_000n, YEAR)).toBe(1_100n);
+    expect(aprBps(1_000n, 900n, YEAR)).toBe(0n);
+    expect(aprBps(0n, 900n, YEAR)).toBe(0n);
+    expect(repayForApr(1_000n, 0n, YEAR)).toBe(1_000n);
+    const funded = { principal_amount: 1_000n, repay_amount: 1_100n, start_block: 100n };
+    expect(loanAprBps({ ...funded, end_block: 100n + YEAR })).toBe(1_000n);
+  });
+
+  it("stays exact beyond the range a float can hold", () => {
+    // A float rounds this to 10^24 and drops the 30.
+    const principal = 10n ** 24n + 30n;
+    expect(BigInt(Number(principal))).not.toBe(principal);
+    expect(repayForApr(principal, 1_000n, YEAR)).toBe(principal + principal / 10n);
+    expect(aprBps(principal, principal + principal / 10n, YEAR)).toBe(1_000n);
+    expect(collateralForRatio(principal, 15_000n)).toBe((principal * 3n) / 2n);
+    expect(repayForApr(principal + 1n, 1_000n, YEAR)).toBe(principal + 1n + principal / 10n);
+  });
+
+  it("compounds whole terms into an effective APY", () => {
+    expect(apyBps(1_000n, YEAR)).toBe(1_000n);
+    // 1% a month for twelve months.
+    expect(apyBps(1_200n, YEAR / 12n)).toBe(1_268n);
+    expect(apyBps(0n, YEAR)).toBe(0n);
+  });
+
+  it("accrues interest per block and at checkpoints", () => {
+    expect(perBlockAccrual(1_000n, 1_100n, 10n)).toBe(100_000n);
+    expect(accruedAt(1_000n, 1_100n, 10n, 4n)).toBe(40n);
+    expect(accruedAt(1_000n, 1_100n, 10n, 40n)).toBe(100n);
+    expect(checkpointSchedule(1_000n, 1_100n, 10n)).toEqual([
+      { bps: 2_500n, block: 3n, accrued: 30n, totalDue: 1_030n },
+      { bps: 5_000n, block: 5n, accrued: 50n, totalDue: 1_050n },
+      { bps: 7_500n, block: 8n, accrued: 80n, totalDue: 1_080n },
+      { bps: 10_000n, block: 10n, accrued: 100n, totalDue: 1_100n },
+    ]);
+  });
+
+  it("splits a balance into installments and sizes collateral", () => {
+    expect(installmentPlan(1_000n, 3n, 10n)).toEqual([
+      { index: 1, block: 3n, amount: 333n },
+      { index: 2, block: 7n, amount: 333n },
+      { index: 3, block: 10n, amount: 334n },
+    ]);
+    expect(installmentPlan(2n, 4n, 10n).map((entry) => entry.amount)).toEqual([2n]);
+    expect(installmentPlan(0n, 4n, 10n)).toEqual([]);
+    expect(collateralForRatio(1_001n, 15_000n)).toBe(1_502n);
+    expect(collateralRatioBps(1_001n, 1_502n)).toBe(15_004n);
+  });
+
+  it("keeps repay >= principal and round-trips the APR for generated loans", () => {
+    cases(500, 0x5eedn).forEach(({ principal, apr, duration, ratio, installments }) => {
+      const repay = repayForApr(principal, apr, duration);
+      expect(repay >= principal).toBe(true);
+      // Rounding the interest moves the APR by at most half a unit of interest.
+      if (principal * duration >= BPS * YEAR) {
+        const drift = aprBps(principal, repay, duration) - apr;
+        expect(drift >= -1n && drift <= 1n).toBe(true);
+      }
+      expect(apyBps(apr, duration) >= apr - 1n).toBe(true);
+
+      const schedule = checkpointSchedule(principal, repay, duration);
+      schedule.slice(1).forEach((point, index) => {
+        expect(point.totalDue >= schedule[index].totalDue).toBe(true);
+      });
+      expect(schedule[schedule.length - 1].totalDue).toBe(repay);
+      expect(accruedAt(principal, repay, duration, duration)).toBe(repay - principal);
+
+      const plan = installmentPlan(repay, installments, duration);
+      expect(plan.reduce((sum, entry) => sum + entry.amount, 0n)).toBe(repay);
+      expect(plan[plan.length - 1].block).toBe(duration);
+
+      expect(collateralRatioBps(principal, collateralForRatio(principal, ratio)) >= ratio).toBe(
+        true
+      );
+    });
+  });
+});
+
+describe("finance against the contract", () => {
+  beforeEach(() => {
+    simnet.callPublicFn(
+      "p2p-lending",
+      "add-asset",
+      [Cl.contractPrincipal(simnet.deployer, "sbtc-token")],
+      simnet.deployer
+    );
+  });
+
+  const createLoan = (principal: bigint, repay: bigint, duration: bigint) =>
+    simnet.callPublicFn(
+      "p2p-lending",
+      "create-loan",
+      [
+        Cl.some(Cl.contractPrincipal(simnet.deployer, "sbtc-token")),
+        Cl.uint(principal),
+        Cl.uint(repay),
+        Cl.uint(duration),
+        Cl.none(),
+        Cl.uint(1_000),
+        Cl.none(),
+        Cl.uint(0),
+        Cl.uint(0),
+        Cl.none(),
+      ],
+      simnet.getAccounts().get("wallet_1")!
+    );
+
+  it("creates loans from generated terms and reads the same APR back", () => {
+    cases(20, 0xc0ffeen).forEach(({ principal, apr, duration }, index) => {
+      const repay = repayForApr(principal, apr, duration);
+      expect(createLoan(principal, repay, duration).result).toBeOk(Cl.uint(index + 1));
+
+      const stored = simnet.callReadOnlyFn(
+        "p2p-lending",
+        "get-loan",
+        [Cl.uint(index + 1)],
+        simnet.deployer
+      ).result;
+      if (stored.type !== ClarityType.OptionalSome) throw new Error("Loan not found");
+      const loan = decodeLoan(stored.value as TupleCV);
+      expect(loan.repay_amount).toBe(repay);
+      expect(loanAprBps(loan)).toBe(aprBps(principal, repay, duration));
+    });
+  });
+
+  it("matches the contract's repay-amount >= principal-amount rule", () => {
+    expect(createLoan(1_000n, repayForApr(1_000n, 0n, 144n), 144n).result).toBeOk(Cl.uint(1));
+    expect(createLoan(1_000n, 999n, 144n).result).toBeErr(Cl.uint(errorCode("ERR-BAD-REPAY")));
+  });
+});
@@ -0,0 +1,35 @@
+import { STATUS, type Loan } from "../frontend/src/stacks";
+
+// Shared by the unit tests; not a test file itself, so vitest does not collect it.
+export const DEPLOYER = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+export const BORROWER = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+export const LENDER = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+export const SBTC = `${DEPLOYER}.sbtc-token`;
+export const CONTRACT = "p2p-lending";
+export const CONFIG = {
+  network: "devnet" as const,
+  address: DEPLOYER,
+  name: CONTRACT,
+  apiUrl: "http://localhost:3999",
+  readOnlySender: DEPLOYER,
+};
+
+// An STX loan against sBTC, funded at block 100 for 100 blocks with a 10-block
+// grace period. Tests override the terms they exercise.
+export const loan = (overrides: Partial<Loan> = {}): Loan => ({
+  borrower: BORROWER,
+  lender: LENDER,
+  principal_is_stx: true,
+  principal_amount: 1_000n,
+  collateral_is_stx: false,
+  collateral_token: SBTC,
+  collateral_amount: 500n,
+  repay_amount: 1_100n,
+  amount_repaid: 0n,
+  start_block: 100n,
+  end_block: 200n,
+  grace_period: 10n,
+  late_fee_per_block: 2n,
+  status: STATUS.FUNDED,
+  ...overrides,
+});
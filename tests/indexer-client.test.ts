@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchIndexedLoans, INDEXER_PAGE_SIZE, STATUS } from "../frontend/src/stacks";
+
+const BORROWER = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const SBTC = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.sbtc-token";
+
+const row = (loanId: number) => ({
+  loan_id: loanId,
+  borrower: BORROWER,
+  lender: null,
+  principal_token: null,
+  principal_amount: "1000",
+  collateral_token: SBTC,
+  collateral_amount: "5000",
+  repay_amount: "1100",
+  amount_repaid: "0",
+  start_block: 0,
+  end_block: 10,
+  expiry_block: null,
+  grace_period: 0,
+  late_fee_per_block: "0",
+  liquidation_ratio: 15000,
+  status: 0,
+});
+
+describe("indexer client", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("pages through /loans and decodes rows into loans", async () => {
+    const total = INDEXER_PAGE_SIZE + 1;
+    const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      const offset = Number(new URL(url).searchParams.get("offset"));
+      const length = Math.min(INDEXER_PAGE_SIZE, total - offset);
+      const ids = Array.from({ length }, (_, index) => offset + index + 1);
+      return {
+        ok: true,
+        json: async () => ({ total, limit: INDEXER_PAGE_SIZE, offset, results: ids.map(row) }),
+      };
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { loans, total: indexed } = await fetchIndexedLoans("http://localhost:3700/", {
+      borrower: BORROWER,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      `http://localhost:3700/loans?borrower=${BORROWER}&limit=${INDEXER_PAGE_SIZE}&offset=0`
+    );
+    expect(indexed).toBe(total);
+    expect(Object.keys(loans)).toHaveLength(total);
+    expect(loans[1]).toEqual({
+      borrower: BORROWER,
+      lender: undefined,
+      principal_is_stx: true,
+      principal_token: undefined,
+      principal_amount: 1000n,
+      collateral_is_stx: false,
+      collateral_token: SBTC,
+      collateral_amount: 5000n,
+      repay_amount: 1100n,
+      amount_repaid: 0n,
+      start_block: 0n,
+      end_block: 10n,
+      expiry_block: undefined,
+      grace_period: 0n,
+      late_fee_per_block: 0n,
+      liquidation_ratio: 15000n,
+      status: STATUS.OPEN,
+    });
+  });
+
+  it("fails when the indexer responds with an error", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: false, status: 500 }));
+    await expect(fetchIndexedLoans("http://localhost:3700")).rejects.toThrow("500");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_FILTERS,
+  filtersFromSearch,
+  filtersToSearch,
+  loanIdFromParam,
+  loansPath,
+  matchesAssetFilter,
+} from "../frontend/src/loanLinks";
+
+const SBTC = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.sbtc-token";
+const MUSD = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.mock-token";
+
+describe("loan links", () => {
+  it("keeps a default explorer at a bare /loans", () => {
+    expect(filtersToSearch(DEFAULT_FILTERS)).toBe("");
+    expect(filtersFromSearch("")).toEqual(DEFAULT_FILTERS);
+    expect(loansPath(null, DEFAULT_FILTERS)).toBe("/loans");
+    expect(loansPath(42, DEFAULT_FILTERS)).toBe("/loans/42");
+  });
+
+  it("round-trips filters through the query string", () => {
+    const filters = {
+      status: "funded",
+      asset: "collateral-token",
+      risk: "high",
+      apr: { min: "10", max: "" },
+      duration: { min: "144", max: "1440" },
+      page: 3,
+      pageSize: 9,
+    };
+    const search = filtersToSearch(filters);
+    expect(search).toBe(
+      "?status=funded&asset=collateral-token&risk=high&apr_min=10&duration_min=144&duration_max=1440&page=3&page_size=9"
+    );
+    expect(filtersFromSearch(search)).toEqual(filters);
+    expect(loansPath(7, filters)).toBe(`/loans/7${search}`);
+  });
+
+  it("falls back to defaults for values the explorer cannot show", () => {
+    expect(
+      filtersFromSearch("?status=pending&asset=btc&risk=none&apr_min=ten&page=0&page_size=50")
+    ).toEqual(DEFAULT_FILTERS);
+    expect(filtersFromSearch("?status=all&page=2")).toMatchObject({ status: "all", page: 2 });
+    expect(filtersFromSearch("?asset=collateral-sbtc-token")).toEqual(DEFAULT_FILTERS);
+    expect(filtersFromSearch(`?asset=borrowed-${SBTC}`)).toEqual(DEFAULT_FILTERS);
+  });
+
+  it("links to loans backed by one specific token", () => {
+    const filters = { ...DEFAULT_FILTERS, asset: `collateral-${SBTC}` };
+    const search = filtersToSearch(filters);
+    expect(search).toBe(`?asset=collateral-${SBTC}`);
+    expect(filtersFromSearch(search)).toEqual(filters);
+
+    const loan = { principal: undefined, collateral: SBTC };
+    expect(matchesAssetFilter(`collateral-${SBTC}`, loan)).toBe(true);
+    expect(matchesAssetFilter(`collateral-${MUSD}`, loan)).toBe(false);
+    expect(matchesAssetFilter("collateral-token", loan)).toBe(true);
+    expect(matchesAssetFilter("principal-stx", loan)).toBe(true);
+    expect(matchesAssetFilter(`principal-${SBTC}`, loan)).toBe(false);
+    expect(matchesAssetFilter("all", loan)).toBe(true);
+  });
+
+  it("only accepts whole loan IDs from the route", () => {
+    expect(loanIdFromParam("42")).toBe(42);
+    expect(loanIdFromParam("1")).toBe(1);
+    expect(loanIdFromParam("0")).toBeNull();
+    expect(loanIdFromParam("-3")).toBeNull();
+    expect(loanIdFromParam("4.2")).toBeNull();
+    expect(loanIdFromParam("abc")).toBeNull();
+    expect(loanIdFromParam(undefined)).toBeNull();
+  });
+});
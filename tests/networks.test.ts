@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  explorerTxUrl,
+  loadNetworkName,
+  NETWORK_PROFILES,
+  profileConfig,
+  saveNetworkName,
+  stacksNetwork,
+} from "../frontend/src/networks";
+
+const memoryStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => void values.set(key, value),
+  };
+};
+
+describe("network profiles", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("points devnet at the local Clarinet devnet deployer", () => {
+    expect(profileConfig(NETWORK_PROFILES.devnet)).toEqual({
+      network: "devnet",
+      address: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      name: "p2p-lending",
+      apiUrl: "http://localhost:3999",
+      readOnlySender: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      indexerUrl: "",
+    });
+    expect(NETWORK_PROFILES.devnet.chainId).toBe("stacks:testnet");
+    expect(NETWORK_PROFILES.mainnet.chainId).toBe("stacks:mainnet");
+  });
+
+  it("persists the active profile and ignores unknown names", () => {
+    vi.stubGlobal("localStorage", memoryStorage());
+    expect(loadNetworkName()).toBe("testnet");
+    saveNetworkName("devnet");
+    expect(loadNetworkName()).toBe("devnet");
+    localStorage.setItem("stacks-lend:network", "regtest");
+    expect(loadNetworkName()).toBe("testnet");
+  });
+
+  it("derives the signing network and explorer links from the profile", () => {
+    const mainnet = profileConfig(NETWORK_PROFILES.mainnet);
+    const devnet = profileConfig(NETWORK_PROFILES.devnet);
+    expect(stacksNetwork(mainnet).isMainnet()).toBe(true);
+    expect(stacksNetwork(devnet).isMainnet()).toBe(false);
+    expect(stacksNetwork(devnet).coreApiUrl).toBe("http://localhost:3999");
+    expect(explorerTxUrl(mainnet, "0xab")).toBe("https://explorer.hiro.so/txid/0xab?chain=mainnet");
+    expect(explorerTxUrl(devnet, "0xab")).toBe(
+      "https://explorer.hiro.so/txid/0xab?chain=testnet&api=http%3A%2F%2Flocalhost%3A3999"
+    );
+  });
+});
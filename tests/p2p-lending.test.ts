@@ -1,8 +1,16 @@
-import { describe, expect, it } from "vitest";
-import { Cl, cvToValue } from "@stacks/transactions";
+import { beforeEach, describe, expect, it } from "vitest";
+import { tx } from "@stacks/clarinet-sdk";
+import { Cl, ClarityType, cvToValue, type ClarityValue, type TupleCV } from "@stacks/transactions";
+import { errorCode, type ErrorSource } from "../frontend/src/errors";
+import { decodeLoanEvent } from "../frontend/src/stacks";
 
 const CONTRACT = "p2p-lending";
 const TOKEN = "sbtc-token";
+const SECOND_TOKEN = "mock-token";
+
+const STX = Cl.none();
+const SBTC = Cl.some(Cl.contractPrincipal(simnet.deployer, TOKEN));
+const MUSD = Cl.some(Cl.contractPrincipal(simnet.deployer, SECOND_TOKEN));
 
 const STATUS = {
   OPEN: 0n,
@@ -10,6 +18,7 @@ const STATUS = {
   REPAID: 2n,
   DEFAULTED: 3n,
   CANCELLED: 4n,
+  EXPIRED: 5n,
 };
 
 const getLoan = (loanId: number, sender: string) => {
@@ -19,17 +28,47 @@ const getLoan = (loanId: number, sender: string) => {
     [Cl.uint(loanId)],
     sender
   );
-  const value = cvToValue(result.result) as
-    | Record<string, bigint>
-    | { value: Record<string, bigint> }
-    | null;
-  if (value === null) {
+  if (result.result.type !== ClarityType.OptionalSome) {
     throw new Error("Loan not found");
   }
-  return "value" in value ? value.value : value;
+  const tuple = result.result.value as TupleCV;
+  return Object.fromEntries(
+    Object.entries(tuple.value).map(([key, value]) => [key, cvToValue(value)])
+  ) as Record<string, bigint>;
 };
 
+// One page of an account's loan IDs, starting at index `from`.
+const accountLoanIds = (
+  fn: "get-borrower-loans" | "get-lender-loans",
+  account: string,
+  from = 0
+) =>
+  simnet.callReadOnlyFn(
+    CONTRACT,
+    fn,
+    [Cl.principal(account), Cl.list(Array.from({ length: 50 }, (_, i) => Cl.uint(from + i)))],
+    account
+  ).result;
+
+const printed = ({ events }: { events: { event: string; data: { value?: ClarityValue } }[] }) =>
+  events
+    .filter((entry) => entry.event === "print_event" && entry.data.value)
+    .map((entry) => decodeLoanEvent(entry.data.value!));
+
+const allowAsset = (token: string) =>
+  simnet.callPublicFn(
+    CONTRACT,
+    "add-asset",
+    [Cl.contractPrincipal(simnet.deployer, token)],
+    simnet.deployer
+  );
+
 describe("p2p-lending", () => {
+  beforeEach(() => {
+    allowAsset(TOKEN);
+    allowAsset(SECOND_TOKEN);
+  });
+
   it("runs a full happy path", () => {
     const accounts = simnet.getAccounts();
     const deployer = accounts.get("deployer")!;
@@ -39,14 +78,14 @@ describe("p2p-lending", () => {
     let result = simnet.callPublicFn(
       TOKEN,
       "mint",
-      [Cl.uint(1200), Cl.principal(lender.address)],
+      [Cl.uint(1200), Cl.principal(lender)],
       deployer
     );
     expect(result.result).toBeOk(Cl.bool(true));
     result = simnet.callPublicFn(
       TOKEN,
       "mint",
-      [Cl.uint(200), Cl.principal(borrower.address)],
+      [Cl.uint(200), Cl.principal(borrower)],
       deployer
     );
     expect(result.result).toBeOk(Cl.bool(true));
@@ -55,22 +94,25 @@ describe("p2p-lending", () => {
       CONTRACT,
       "create-loan",
       [
-        Cl.uint(1),
-        Cl.bool(false),
+        SBTC,
         Cl.uint(1000),
         Cl.uint(1100),
         Cl.uint(10),
-        Cl.bool(true),
+        STX,
         Cl.uint(500000),
+        Cl.none(),
+        Cl.uint(0),
+        Cl.uint(0),
+        Cl.none(),
       ],
       borrower
     );
-    expect(result.result).toBeOk(Cl.bool(true));
+    expect(result.result).toBeOk(Cl.uint(1));
 
     result = simnet.callPublicFn(
       CONTRACT,
       "fund-loan",
-      [Cl.uint(1)],
+      [Cl.uint(1), SBTC],
       lender
     );
     expect(result.result).toBeOk(Cl.bool(true));
@@ -78,12 +120,12 @@ describe("p2p-lending", () => {
     result = simnet.callPublicFn(
       CONTRACT,
       "repay",
-      [Cl.uint(1)],
+      [Cl.uint(1), SBTC, STX],
       borrower
     );
     expect(result.result).toBeOk(Cl.bool(true));
 
-    const loan = getLoan(1, borrower.address);
+    const loan = getLoan(1, borrower);
     expect(loan.status).toBe(STATUS.REPAID);
   });
 
@@ -95,7 +137,7 @@ describe("p2p-lending", () => {
     let result = simnet.callPublicFn(
       TOKEN,
       "mint",
-      [Cl.uint(600), Cl.principal(borrower.address)],
+      [Cl.uint(600), Cl.principal(borrower)],
       deployer
     );
     expect(result.result).toBeOk(Cl.bool(true));
@@ -104,27 +146,30 @@ describe("p2p-lending", () => {
       CONTRACT,
       "create-loan",
       [
-        Cl.uint(2),
-        Cl.bool(true),
+        STX,
         Cl.uint(150000),
         Cl.uint(165000),
         Cl.uint(20),
-        Cl.bool(false),
+        SBTC,
         Cl.uint(500),
+        Cl.none(),
+        Cl.uint(0),
+        Cl.uint(0),
+        Cl.none(),
       ],
       borrower
     );
-    expect(result.result).toBeOk(Cl.bool(true));
+    expect(result.result).toBeOk(Cl.uint(1));
 
     result = simnet.callPublicFn(
       CONTRACT,
       "cancel-loan",
-      [Cl.uint(2)],
+      [Cl.uint(1), SBTC],
       borrower
     );
     expect(result.result).toBeOk(Cl.bool(true));
 
-    const loan = getLoan(2, borrower.address);
+    const loan = getLoan(1, borrower);
     expect(loan.status).toBe(STATUS.CANCELLED);
   });
 
@@ -137,7 +182,7 @@ describe("p2p-lending", () => {
     let result = simnet.callPublicFn(
       TOKEN,
       "mint",
-      [Cl.uint(900), Cl.principal(borrower.address)],
+      [Cl.uint(900), Cl.principal(borrower)],
       deployer
     );
     expect(result.result).toBeOk(Cl.bool(true));
@@ -146,22 +191,25 @@ describe("p2p-lending", () => {
       CONTRACT,
       "create-loan",
       [
-        Cl.uint(3),
-        Cl.bool(true),
+        STX,
         Cl.uint(100000),
         Cl.uint(110000),
         Cl.uint(5),
-        Cl.bool(false),
+        SBTC,
         Cl.uint(500),
+        Cl.none(),
+        Cl.uint(0),
+        Cl.uint(0),
+        Cl.none(),
       ],
       borrower
     );
-    expect(result.result).toBeOk(Cl.bool(true));
+    expect(result.result).toBeOk(Cl.uint(1));
 
     result = simnet.callPublicFn(
       CONTRACT,
       "fund-loan",
-      [Cl.uint(3)],
+      [Cl.uint(1), STX],
       lender
     );
     expect(result.result).toBeOk(Cl.bool(true));
@@ -171,12 +219,1501 @@ describe("p2p-lending", () => {
     result = simnet.callPublicFn(
       CONTRACT,
       "claim-default",
-      [Cl.uint(3)],
+      [Cl.uint(1), SBTC],
       lender
     );
     expect(result.result).toBeOk(Cl.bool(true));
 
-    const loan = getLoan(3, borrower.address);
+    const loan = getLoan(1, borrower);
     expect(loan.status).toBe(STATUS.DEFAULTED);
   });
+
+  it("assigns unique loan ids to creates in the same block", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const first = accounts.get("wallet_1")!;
+    const second = accounts.get("wallet_2")!;
+
+    const createArgs = [
+      STX,
+      Cl.uint(100000),
+      Cl.uint(110000),
+      Cl.uint(10),
+      SBTC,
+      Cl.uint(500),
+      Cl.none(),
+      Cl.uint(0),
+      Cl.uint(0),
+      Cl.none(),
+    ];
+
+    const mints = simnet.mineBlock([
+      tx.callPublicFn(TOKEN, "mint", [Cl.uint(1000), Cl.principal(first)], deployer),
+      tx.callPublicFn(TOKEN, "mint", [Cl.uint(1000), Cl.principal(second)], deployer),
+    ]);
+    mints.forEach((mint) => expect(mint.result).toBeOk(Cl.bool(true)));
+
+    const creates = simnet.mineBlock([
+      tx.callPublicFn(CONTRACT, "create-loan", createArgs, first),
+      tx.callPublicFn(CONTRACT, "create-loan", createArgs, second),
+    ]);
+    expect(creates[0].result).toBeOk(Cl.uint(1));
+    expect(creates[1].result).toBeOk(Cl.uint(2));
+
+    const result = simnet.callPublicFn(CONTRACT, "create-loan", createArgs, first);
+    expect(result.result).toBeOk(Cl.uint(3));
+
+    expect(getLoan(1, first).borrower).toBe(first);
+    expect(getLoan(2, first).borrower).toBe(second);
+    expect(getLoan(3, first).borrower).toBe(first);
+  });
+
+  it("enumerates loans by count, borrower and lender", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const other = accounts.get("wallet_2")!;
+    const lender = accounts.get("wallet_3")!;
+
+    const createArgs = [
+      STX,
+      Cl.uint(100000),
+      Cl.uint(110000),
+      Cl.uint(10),
+      SBTC,
+      Cl.uint(500),
+      Cl.none(),
+      Cl.uint(0),
+      Cl.uint(0),
+      Cl.none(),
+    ];
+
+    expect(simnet.callReadOnlyFn(CONTRACT, "get-loan-count", [], deployer).result).toBeUint(0);
+
+    simnet.mineBlock([
+      tx.callPublicFn(TOKEN, "mint", [Cl.uint(1000), Cl.principal(borrower)], deployer),
+      tx.callPublicFn(TOKEN, "mint", [Cl.uint(1000), Cl.principal(other)], deployer),
+    ]);
+    simnet.mineBlock([
+      tx.callPublicFn(CONTRACT, "create-loan", createArgs, borrower),
+      tx.callPublicFn(CONTRACT, "create-loan", createArgs, other),
+      tx.callPublicFn(CONTRACT, "create-loan", createArgs, borrower),
+    ]);
+
+    const result = simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(3), STX], lender);
+    expect(result.result).toBeOk(Cl.bool(true));
+
+    expect(simnet.callReadOnlyFn(CONTRACT, "get-loan-count", [], deployer).result).toBeUint(3);
+    expect(
+      simnet.callReadOnlyFn(
+        CONTRACT,
+        "get-borrower-loan-count",
+        [Cl.principal(borrower)],
+        deployer
+      ).result
+    ).toBeUint(2);
+    expect(accountLoanIds("get-borrower-loans", borrower)).toStrictEqual(
+      Cl.list([Cl.uint(1), Cl.uint(3)])
+    );
+    expect(accountLoanIds("get-borrower-loans", other)).toStrictEqual(Cl.list([Cl.uint(2)]));
+    expect(accountLoanIds("get-lender-loans", lender)).toStrictEqual(Cl.list([Cl.uint(3)]));
+    expect(accountLoanIds("get-lender-loans", borrower)).toStrictEqual(Cl.list([]));
+  });
+
+  it("pages past 200 loans per account and drops moved positions from the lender's list", () => {
+    const accounts = simnet.getAccounts();
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+    const buyer = accounts.get("wallet_3")!;
+    const args = [
+      STX,
+      Cl.uint(10),
+      Cl.uint(11),
+      Cl.uint(100),
+      SBTC,
+      Cl.uint(1),
+      Cl.none(),
+      Cl.uint(0),
+      Cl.uint(0),
+      Cl.none(),
+    ];
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(1000), Cl.principal(borrower)], simnet.deployer);
+    simnet.mineBlock(
+      Array.from({ length: 201 }, () => tx.callPublicFn(CONTRACT, "create-loan", args, borrower))
+    );
+    expect(
+      simnet.callReadOnlyFn(
+        CONTRACT,
+        "get-borrower-loan-count",
+        [Cl.principal(borrower)],
+        borrower
+      ).result
+    ).toBeUint(201);
+    expect(accountLoanIds("get-borrower-loans", borrower, 200)).toStrictEqual(
+      Cl.list([Cl.uint(201)])
+    );
+
+    simnet.mineBlock(
+      [199, 200, 201].map((id) =>
+        tx.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(id), STX], lender)
+      )
+    );
+    simnet.callPublicFn(CONTRACT, "transfer-position", [Cl.uint(199), Cl.principal(buyer)], lender);
+    const result = simnet.callPublicFn(CONTRACT, "claim-position", [Cl.uint(199)], buyer);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(accountLoanIds("get-lender-loans", lender)).toStrictEqual(
+      Cl.list([Cl.uint(201), Cl.uint(200)])
+    );
+    expect(accountLoanIds("get-lender-loans", buyer)).toStrictEqual(Cl.list([Cl.uint(199)]));
+    expect(
+      simnet.callReadOnlyFn(CONTRACT, "get-lender-loan-count", [Cl.principal(lender)], lender)
+        .result
+    ).toBeUint(2);
+  });
+
+  it("reads several loans in one get-loans call", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+
+    let result = simnet.callPublicFn(
+      TOKEN,
+      "mint",
+      [Cl.uint(1000), Cl.principal(borrower)],
+      deployer
+    );
+    expect(result.result).toBeOk(Cl.bool(true));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [
+        STX,
+        Cl.uint(100000),
+        Cl.uint(110000),
+        Cl.uint(10),
+        SBTC,
+        Cl.uint(500),
+        Cl.none(),
+        Cl.uint(0),
+        Cl.uint(0),
+        Cl.none(),
+      ],
+      borrower
+    );
+    expect(result.result).toBeOk(Cl.uint(1));
+
+    const loans = simnet.callReadOnlyFn(
+      CONTRACT,
+      "get-loans",
+      [Cl.list([Cl.uint(1), Cl.uint(2)])],
+      deployer
+    ).result;
+    expect(loans).toStrictEqual(
+      Cl.list([
+        simnet.callReadOnlyFn(CONTRACT, "get-loan", [Cl.uint(1)], deployer).result,
+        Cl.none(),
+      ])
+    );
+    expect(getLoan(1, deployer).borrower).toBe(borrower);
+  });
+
+  it("accepts installments and releases collateral once the balance is zero", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+
+    let result = simnet.callPublicFn(
+      TOKEN,
+      "mint",
+      [Cl.uint(1200), Cl.principal(lender)],
+      deployer
+    );
+    expect(result.result).toBeOk(Cl.bool(true));
+    result = simnet.callPublicFn(
+      TOKEN,
+      "mint",
+      [Cl.uint(200), Cl.principal(borrower)],
+      deployer
+    );
+    expect(result.result).toBeOk(Cl.bool(true));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [
+        SBTC,
+        Cl.uint(1000),
+        Cl.uint(1100),
+        Cl.uint(10),
+        STX,
+        Cl.uint(500000),
+        Cl.none(),
+        Cl.uint(0),
+        Cl.uint(0),
+        Cl.none(),
+      ],
+      borrower
+    );
+    expect(result.result).toBeOk(Cl.uint(1));
+
+    result = simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), SBTC], lender);
+    expect(result.result).toBeOk(Cl.bool(true));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "repay-partial",
+      [Cl.uint(1), Cl.uint(400), SBTC, STX],
+      borrower
+    );
+    expect(result.result).toBeOk(Cl.uint(700));
+    let loan = getLoan(1, borrower);
+    expect(loan["amount-repaid"]).toBe(400n);
+    expect(loan.status).toBe(STATUS.FUNDED);
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "repay-partial",
+      [Cl.uint(1), Cl.uint(701), SBTC, STX],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(108));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "repay-partial",
+      [Cl.uint(1), Cl.uint(300), SBTC, STX],
+      borrower
+    );
+    expect(result.result).toBeOk(Cl.uint(400));
+
+    const stxBefore = simnet.getAssetsMap().get("STX")!.get(borrower)!;
+    result = simnet.callPublicFn(CONTRACT, "repay", [Cl.uint(1), SBTC, STX], borrower);
+    expect(result.result).toBeOk(Cl.bool(true));
+
+    loan = getLoan(1, borrower);
+    expect(loan["amount-repaid"]).toBe(1100n);
+    expect(loan.status).toBe(STATUS.REPAID);
+    expect(simnet.getAssetsMap().get("STX")!.get(borrower)).toBe(stxBefore + 500000n);
+    expect(simnet.getAssetsMap().get(".sbtc-token.sbtc")!.get(lender)).toBe(1300n);
+  });
+
+  it("pairs two SIP-010 tokens and rejects mismatched token arguments", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+
+    simnet.mineBlock([
+      tx.callPublicFn(TOKEN, "mint", [Cl.uint(800), Cl.principal(borrower)], deployer),
+      tx.callPublicFn(SECOND_TOKEN, "mint", [Cl.uint(5000), Cl.principal(lender)], deployer),
+      tx.callPublicFn(SECOND_TOKEN, "mint", [Cl.uint(500), Cl.principal(borrower)], deployer),
+    ]);
+
+    let result = simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [MUSD, Cl.uint(5000), Cl.uint(5500), Cl.uint(10), MUSD, Cl.uint(800), Cl.none(), Cl.uint(0), Cl.uint(0), Cl.none()],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(109));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [MUSD, Cl.uint(5000), Cl.uint(5500), Cl.uint(10), SBTC, Cl.uint(800), Cl.none(), Cl.uint(0), Cl.uint(0), Cl.none()],
+      borrower
+    );
+    expect(result.result).toBeOk(Cl.uint(1));
+
+    const stored = simnet.callReadOnlyFn(CONTRACT, "get-loan", [Cl.uint(1)], borrower);
+    expect(stored.result).toBeSome(
+      expect.objectContaining({
+        value: expect.objectContaining({
+          "principal-token": MUSD,
+          "collateral-token": SBTC,
+        }),
+      })
+    );
+
+    result = simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), SBTC], lender);
+    expect(result.result).toBeErr(Cl.uint(113));
+    result = simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), STX], lender);
+    expect(result.result).toBeErr(Cl.uint(113));
+    result = simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), MUSD], lender);
+    expect(result.result).toBeOk(Cl.bool(true));
+
+    result = simnet.callPublicFn(CONTRACT, "repay", [Cl.uint(1), MUSD, MUSD], borrower);
+    expect(result.result).toBeErr(Cl.uint(113));
+    result = simnet.callPublicFn(CONTRACT, "repay", [Cl.uint(1), MUSD, SBTC], borrower);
+    expect(result.result).toBeOk(Cl.bool(true));
+
+    const assets = simnet.getAssetsMap();
+    expect(assets.get(".mock-token.musd")!.get(lender)).toBe(5500n);
+    expect(assets.get(".sbtc-token.sbtc")!.get(borrower)).toBe(800n);
+  });
+
+  it("lets only the owner manage the asset whitelist", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const sbtc = Cl.contractPrincipal(simnet.deployer, TOKEN);
+    const musd = Cl.contractPrincipal(simnet.deployer, SECOND_TOKEN);
+
+    let result = simnet.callPublicFn(CONTRACT, "add-asset", [sbtc], borrower);
+    expect(result.result).toBeErr(Cl.uint(114));
+    result = simnet.callPublicFn(CONTRACT, "remove-asset", [sbtc], borrower);
+    expect(result.result).toBeErr(Cl.uint(114));
+
+    expect(simnet.callReadOnlyFn(CONTRACT, "get-allowed-assets", [], borrower).result).toStrictEqual(
+      Cl.list([sbtc, musd])
+    );
+
+    result = simnet.callPublicFn(CONTRACT, "remove-asset", [sbtc], deployer);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(simnet.callReadOnlyFn(CONTRACT, "is-asset-allowed", [sbtc], borrower).result).toBeBool(
+      false
+    );
+    expect(simnet.callReadOnlyFn(CONTRACT, "get-allowed-assets", [], borrower).result).toStrictEqual(
+      Cl.list([musd])
+    );
+
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(800), Cl.principal(borrower)], deployer);
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [STX, Cl.uint(1000), Cl.uint(1100), Cl.uint(10), SBTC, Cl.uint(800), Cl.none(), Cl.uint(0), Cl.uint(0), Cl.none()],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(115));
+
+    result = simnet.callPublicFn(CONTRACT, "add-asset", [sbtc], deployer);
+    expect(result.result).toBeOk(Cl.bool(true));
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [STX, Cl.uint(1000), Cl.uint(1100), Cl.uint(10), SBTC, Cl.uint(800), Cl.none(), Cl.uint(0), Cl.uint(0), Cl.none()],
+      borrower
+    );
+    expect(result.result).toBeOk(Cl.uint(1));
+
+    result = simnet.callPublicFn(CONTRACT, "set-contract-owner", [Cl.principal(borrower)], deployer);
+    expect(result.result).toBeOk(Cl.bool(true));
+    result = simnet.callPublicFn(CONTRACT, "remove-asset", [musd], deployer);
+    expect(result.result).toBeErr(Cl.uint(114));
+    result = simnet.callPublicFn(CONTRACT, "remove-asset", [musd], borrower);
+    expect(result.result).toBeOk(Cl.bool(true));
+  });
+
+  it("expires unfunded requests and returns collateral through a permissionless sweep", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+    const sweeper = accounts.get("wallet_3")!;
+
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(800), Cl.principal(borrower)], deployer);
+    const expiry = simnet.blockHeight + 5;
+
+    let result = simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [STX, Cl.uint(1000), Cl.uint(1100), Cl.uint(10), SBTC, Cl.uint(800), Cl.some(Cl.uint(1)), Cl.uint(0), Cl.uint(0), Cl.none()],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(121));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [STX, Cl.uint(1000), Cl.uint(1100), Cl.uint(10), SBTC, Cl.uint(800), Cl.some(Cl.uint(expiry)), Cl.uint(0), Cl.uint(0), Cl.none()],
+      borrower
+    );
+    expect(result.result).toBeOk(Cl.uint(1));
+
+    result = simnet.callPublicFn(CONTRACT, "expire-loan", [Cl.uint(1), SBTC], sweeper);
+    expect(result.result).toBeErr(Cl.uint(123));
+
+    simnet.mineEmptyBlocks(6);
+
+    result = simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), STX], lender);
+    expect(result.result).toBeErr(Cl.uint(122));
+
+    result = simnet.callPublicFn(CONTRACT, "expire-loan", [Cl.uint(1), SBTC], sweeper);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(getLoan(1, borrower)["status"]).toBe(STATUS.EXPIRED);
+    expect(simnet.getAssetsMap().get(".sbtc-token.sbtc")!.get(borrower)).toBe(800n);
+
+    result = simnet.callPublicFn(CONTRACT, "expire-loan", [Cl.uint(1), SBTC], sweeper);
+    expect(result.result).toBeErr(Cl.uint(104));
+  });
+
+  it("charges a per-block late fee during the grace period and blocks early default claims", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(2000), Cl.principal(lender)], deployer);
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(500), Cl.principal(borrower)], deployer);
+
+    const createArgs = [
+      SBTC,
+      Cl.uint(1000),
+      Cl.uint(1100),
+      Cl.uint(10),
+      STX,
+      Cl.uint(500000),
+      Cl.none(),
+      Cl.uint(5),
+      Cl.uint(7),
+      Cl.none(),
+    ];
+    let result = simnet.callPublicFn(CONTRACT, "create-loan", createArgs, borrower);
+    expect(result.result).toBeOk(Cl.uint(1));
+    result = simnet.callPublicFn(CONTRACT, "create-loan", createArgs, borrower);
+    expect(result.result).toBeOk(Cl.uint(2));
+    simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), SBTC], lender);
+    simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(2), SBTC], lender);
+
+    const endBlock = Number(getLoan(1, borrower)["end-block"]);
+    simnet.mineEmptyBlocks(endBlock - simnet.blockHeight + 2);
+
+    result = simnet.callPublicFn(CONTRACT, "claim-default", [Cl.uint(1), STX], lender);
+    expect(result.result).toBeErr(Cl.uint(124));
+
+    const lateBlocks = simnet.blockHeight - endBlock;
+    const fee = simnet.callReadOnlyFn(CONTRACT, "get-late-fee", [Cl.uint(1)], borrower);
+    expect(fee.result).toBeOk(Cl.uint(lateBlocks * 7));
+
+    // The repay executes in the next block, so the fee covers one more block.
+    result = simnet.callPublicFn(CONTRACT, "repay", [Cl.uint(1), SBTC, STX], borrower);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(simnet.getAssetsMap().get(".sbtc-token.sbtc")!.get(lender)).toBe(
+      BigInt(1100 + (lateBlocks + 1) * 7)
+    );
+
+    simnet.mineEmptyBlocks(5);
+    result = simnet.callPublicFn(CONTRACT, "repay", [Cl.uint(2), SBTC, STX], borrower);
+    expect(result.result).toBeErr(Cl.uint(106));
+    result = simnet.callPublicFn(CONTRACT, "claim-default", [Cl.uint(2), STX], lender);
+    expect(result.result).toBeOk(Cl.bool(true));
+  });
+
+  it("applies a term extension only when the counterparty accepts", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+    const outsider = accounts.get("wallet_3")!;
+
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(1000), Cl.principal(lender)], deployer);
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(200), Cl.principal(borrower)], deployer);
+    simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [
+        SBTC,
+        Cl.uint(1000),
+        Cl.uint(1100),
+        Cl.uint(10),
+        STX,
+        Cl.uint(500000),
+        Cl.none(),
+        Cl.uint(0),
+        Cl.uint(0),
+        Cl.none(),
+      ],
+      borrower
+    );
+    simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), SBTC], lender);
+    const endBlock = Number(getLoan(1, borrower)["end-block"]);
+
+    const accept = (sender: string, end: number, repay: number) =>
+      simnet.callPublicFn(
+        CONTRACT,
+        "accept-extension",
+        [Cl.uint(1), Cl.uint(end), Cl.uint(repay)],
+        sender
+      );
+
+    let result = accept(lender, endBlock + 20, 1150);
+    expect(result.result).toBeErr(Cl.uint(125));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "propose-extension",
+      [Cl.uint(1), Cl.uint(endBlock + 20), Cl.uint(1150)],
+      outsider
+    );
+    expect(result.result).toBeErr(Cl.uint(127));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "propose-extension",
+      [Cl.uint(1), Cl.uint(endBlock), Cl.uint(1150)],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(121));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "propose-extension",
+      [Cl.uint(1), Cl.uint(endBlock + 20), Cl.uint(1150)],
+      borrower
+    );
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(printed(result)).toEqual([
+      {
+        event: "propose-extension",
+        loan_id: 1,
+        proposer: borrower,
+        end_block: BigInt(endBlock + 20),
+        repay_amount: 1150n,
+      },
+    ]);
+
+    result = accept(borrower, endBlock + 20, 1150);
+    expect(result.result).toBeErr(Cl.uint(126));
+    result = simnet.callPublicFn(CONTRACT, "reject-extension", [Cl.uint(1)], lender);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(printed(result)).toEqual([
+      { event: "reject-extension", loan_id: 1, proposer: borrower, rejected_by: lender },
+    ]);
+    result = accept(lender, endBlock + 20, 1150);
+    expect(result.result).toBeErr(Cl.uint(125));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "propose-extension",
+      [Cl.uint(1), Cl.uint(endBlock + 30), Cl.uint(1200)],
+      lender
+    );
+    expect(result.result).toBeOk(Cl.bool(true));
+    result = accept(lender, endBlock + 30, 1200);
+    expect(result.result).toBeErr(Cl.uint(126));
+    result = accept(borrower, endBlock + 30, 1200);
+    expect(result.result).toBeOk(Cl.bool(true));
+    const acceptedAt = simnet.blockHeight;
+    expect(printed(result)).toEqual([
+      {
+        event: "extend-loan",
+        loan_id: 1,
+        end_block: BigInt(endBlock + 30),
+        repay_amount: 1200n,
+      },
+    ]);
+
+    const loan = getLoan(1, borrower);
+    expect(loan["end-block"]).toBe(BigInt(endBlock + 30));
+    expect(loan["repay-amount"]).toBe(1200n);
+    expect(
+      simnet.callReadOnlyFn(CONTRACT, "get-extension-proposal", [Cl.uint(1)], borrower).result
+    ).toBeNone();
+    const history = simnet.callReadOnlyFn(
+      CONTRACT,
+      "get-extension-history",
+      [Cl.uint(1)],
+      borrower
+    ).result;
+    expect(history).toStrictEqual(
+      Cl.list([
+        Cl.tuple({
+          proposer: Cl.principal(lender),
+          "previous-end-block": Cl.uint(endBlock),
+          "previous-repay-amount": Cl.uint(1100),
+          "end-block": Cl.uint(endBlock + 30),
+          "repay-amount": Cl.uint(1200),
+          "accepted-at": Cl.uint(acceptedAt),
+        }),
+      ])
+    );
+
+    simnet.mineEmptyBlocks(endBlock - simnet.blockHeight + 5);
+    result = simnet.callPublicFn(CONTRACT, "claim-default", [Cl.uint(1), STX], lender);
+    expect(result.result).toBeErr(Cl.uint(107));
+    result = simnet.callPublicFn(CONTRACT, "repay", [Cl.uint(1), SBTC, STX], borrower);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(simnet.getAssetsMap().get(".sbtc-token.sbtc")!.get(lender)).toBe(1200n);
+  });
+
+  it("fails an accept when the proposer re-proposes before it is mined", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(1000), Cl.principal(lender)], deployer);
+    simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [
+        SBTC,
+        Cl.uint(1000),
+        Cl.uint(1100),
+        Cl.uint(10),
+        STX,
+        Cl.uint(500000),
+        Cl.none(),
+        Cl.uint(0),
+        Cl.uint(0),
+        Cl.none(),
+      ],
+      borrower
+    );
+    simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), SBTC], lender);
+    const endBlock = Number(getLoan(1, borrower)["end-block"]);
+    const propose = (end: number, repay: number) =>
+      tx.callPublicFn(
+        CONTRACT,
+        "propose-extension",
+        [Cl.uint(1), Cl.uint(end), Cl.uint(repay)],
+        borrower
+      );
+    simnet.mineBlock([propose(endBlock + 5, 1150)]);
+
+    // The lender signed for +5 blocks at 1150; the borrower swaps in harsher
+    // terms ahead of it in the same block.
+    const [reproposal, accepted] = simnet.mineBlock([
+      propose(endBlock + 500, 2000),
+      tx.callPublicFn(
+        CONTRACT,
+        "accept-extension",
+        [Cl.uint(1), Cl.uint(endBlock + 5), Cl.uint(1150)],
+        lender
+      ),
+    ]);
+    expect(reproposal.result).toBeOk(Cl.bool(true));
+    expect(accepted.result).toBeErr(Cl.uint(errorCode("ERR-PROPOSAL-CHANGED")));
+    const loan = getLoan(1, borrower);
+    expect(loan["end-block"]).toBe(BigInt(endBlock));
+    expect(loan["repay-amount"]).toBe(1100n);
+  });
+
+  it("rejects accepting a proposal whose end block has already passed", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(1000), Cl.principal(lender)], deployer);
+    simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [
+        SBTC,
+        Cl.uint(1000),
+        Cl.uint(1100),
+        Cl.uint(10),
+        STX,
+        Cl.uint(500000),
+        Cl.none(),
+        Cl.uint(0),
+        Cl.uint(0),
+        Cl.none(),
+      ],
+      borrower
+    );
+    simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), SBTC], lender);
+    const endBlock = Number(getLoan(1, borrower)["end-block"]);
+    let result = simnet.callPublicFn(
+      CONTRACT,
+      "propose-extension",
+      [Cl.uint(1), Cl.uint(endBlock + 5), Cl.uint(1150)],
+      borrower
+    );
+    expect(result.result).toBeOk(Cl.bool(true));
+
+    simnet.mineEmptyBlocks(endBlock + 5 - simnet.blockHeight);
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "accept-extension",
+      [Cl.uint(1), Cl.uint(endBlock + 5), Cl.uint(1150)],
+      lender
+    );
+    expect(result.result).toBeErr(Cl.uint(errorCode("ERR-BAD-DURATION")));
+    expect(getLoan(1, borrower)["end-block"]).toBe(BigInt(endBlock));
+  });
+
+  it("prints a typed event for every loan state change", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+    const sbtc = `${deployer}.${TOKEN}`;
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(2000), Cl.principal(lender)], deployer);
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(200), Cl.principal(borrower)], deployer);
+    const create = () =>
+      simnet.callPublicFn(
+        CONTRACT,
+        "create-loan",
+        [
+          SBTC,
+          Cl.uint(1000),
+          Cl.uint(1100),
+          Cl.uint(10),
+          STX,
+          Cl.uint(5000),
+          Cl.none(),
+          Cl.uint(0),
+          Cl.uint(0),
+          Cl.none(),
+        ],
+        borrower
+      );
+
+    expect(printed(create())).toEqual([
+      {
+        event: "create-loan",
+        loan_id: 1,
+        borrower,
+        principal_token: sbtc,
+        principal_amount: 1000n,
+        collateral_token: undefined,
+        collateral_amount: 5000n,
+        repay_amount: 1100n,
+        duration: 10n,
+        expiry_block: undefined,
+        grace_period: 0n,
+        late_fee_per_block: 0n,
+      },
+    ]);
+    const funded = simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), SBTC], lender);
+    const fundedAt = BigInt(simnet.blockHeight);
+    expect(printed(funded)).toEqual([
+      { event: "fund-loan", loan_id: 1, lender, start_block: fundedAt, end_block: fundedAt + 10n },
+    ]);
+    const repay = (amount: number) =>
+      printed(
+        simnet.callPublicFn(
+          CONTRACT,
+          "repay-partial",
+          [Cl.uint(1), Cl.uint(amount), SBTC, STX],
+          borrower
+        )
+      );
+    expect(repay(400)).toEqual([
+      {
+        event: "repay",
+        loan_id: 1,
+        borrower,
+        lender,
+        amount: 400n,
+        late_fee: 0n,
+        amount_repaid: 400n,
+        remaining: 700n,
+      },
+    ]);
+    expect(
+      printed(simnet.callPublicFn(CONTRACT, "repay", [Cl.uint(1), SBTC, STX], borrower))
+    ).toContainEqual(expect.objectContaining({ event: "repay", amount: 700n, remaining: 0n }));
+
+    create();
+    expect(
+      printed(simnet.callPublicFn(CONTRACT, "cancel-loan", [Cl.uint(2), STX], borrower))
+    ).toEqual([{ event: "cancel-loan", loan_id: 2, borrower }]);
+
+    create();
+    simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(3), SBTC], lender);
+    simnet.mineEmptyBlocks(11);
+    expect(
+      printed(simnet.callPublicFn(CONTRACT, "claim-default", [Cl.uint(3), STX], lender))
+    ).toEqual([{ event: "claim-default", loan_id: 3, lender, collateral_amount: 5000n }]);
+  });
+
+  const fundedSbtcLoan = (borrower: string, lender: string, deployer: string) => {
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(1000), Cl.principal(lender)], deployer);
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(100), Cl.principal(borrower)], deployer);
+    simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [
+        SBTC,
+        Cl.uint(1000),
+        Cl.uint(1100),
+        Cl.uint(10),
+        STX,
+        Cl.uint(500000),
+        Cl.none(),
+        Cl.uint(0),
+        Cl.uint(0),
+        Cl.none(),
+      ],
+      borrower
+    );
+    simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), SBTC], lender);
+  };
+
+  it("sells a listed lender position and pays the new holder on repay", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+    const buyer = accounts.get("wallet_3")!;
+    const outsider = accounts.get("wallet_4")!;
+    fundedSbtcLoan(borrower, lender, deployer);
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(1050), Cl.principal(buyer)], deployer);
+
+    let result = simnet.callPublicFn(
+      CONTRACT,
+      "buy-position",
+      [Cl.uint(1), Cl.uint(0), SBTC],
+      buyer
+    );
+    expect(result.result).toBeErr(Cl.uint(129));
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "list-position",
+      [Cl.uint(1), Cl.uint(1050), Cl.none()],
+      outsider
+    );
+    expect(result.result).toBeErr(Cl.uint(103));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "list-position",
+      [Cl.uint(1), Cl.uint(1050), Cl.some(Cl.principal(buyer))],
+      lender
+    );
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(
+      simnet.callReadOnlyFn(CONTRACT, "get-position-listing", [Cl.uint(1)], buyer).result
+    ).toBeSome(
+      Cl.tuple({
+        seller: Cl.principal(lender),
+        price: Cl.uint(1050),
+        buyer: Cl.some(Cl.principal(buyer)),
+        "listed-at": Cl.uint(simnet.blockHeight),
+      })
+    );
+
+    const buy = (token: ClarityValue, sender: string, price = 1050) =>
+      simnet.callPublicFn(CONTRACT, "buy-position", [Cl.uint(1), Cl.uint(price), token], sender);
+    result = buy(SBTC, outsider);
+    expect(result.result).toBeErr(Cl.uint(130));
+    result = buy(STX, buyer);
+    expect(result.result).toBeErr(Cl.uint(113));
+    result = buy(SBTC, buyer, 1000);
+    expect(result.result).toBeErr(Cl.uint(138));
+    result = buy(SBTC, buyer);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(printed(result)).toEqual([
+      { event: "transfer-position", loan_id: 1, from: lender, to: buyer, price: 1050n },
+    ]);
+
+    const sbtc = simnet.getAssetsMap().get(".sbtc-token.sbtc")!;
+    expect(sbtc.get(lender)).toBe(1050n);
+    expect(sbtc.get(buyer)).toBe(0n);
+    expect(getLoan(1, buyer).lender).toEqual(expect.objectContaining({ value: buyer }));
+    expect(accountLoanIds("get-lender-loans", lender)).toStrictEqual(Cl.list([]));
+    expect(accountLoanIds("get-lender-loans", buyer)).toStrictEqual(Cl.list([Cl.uint(1)]));
+    expect(
+      simnet.callReadOnlyFn(CONTRACT, "get-position-listing", [Cl.uint(1)], buyer).result
+    ).toBeNone();
+
+    result = simnet.callPublicFn(CONTRACT, "repay", [Cl.uint(1), SBTC, STX], borrower);
+    expect(result.result).toBeOk(Cl.bool(true));
+    const settled = simnet.getAssetsMap().get(".sbtc-token.sbtc")!;
+    expect(settled.get(buyer)).toBe(1100n);
+    expect(settled.get(lender)).toBe(1050n);
+  });
+
+  it("transfers a position once the recipient claims it and lets the holder claim default", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+    const holder = accounts.get("wallet_3")!;
+    fundedSbtcLoan(borrower, lender, deployer);
+    const endBlock = Number(getLoan(1, borrower)["end-block"]);
+
+    let result = simnet.callPublicFn(
+      CONTRACT,
+      "transfer-position",
+      [Cl.uint(1), Cl.principal(lender)],
+      lender
+    );
+    expect(result.result).toBeErr(Cl.uint(131));
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "transfer-position",
+      [Cl.uint(1), Cl.principal(holder)],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(103));
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "transfer-position",
+      [Cl.uint(1), Cl.principal(holder)],
+      lender
+    );
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(
+      simnet.callReadOnlyFn(CONTRACT, "get-position-transfer", [Cl.uint(1)], holder).result
+    ).toBeSome(
+      Cl.tuple({
+        from: Cl.principal(lender),
+        to: Cl.principal(holder),
+        "proposed-at": Cl.uint(simnet.blockHeight),
+      })
+    );
+    expect(getLoan(1, holder).lender).toEqual(expect.objectContaining({ value: lender }));
+    expect(accountLoanIds("get-lender-loans", holder)).toStrictEqual(Cl.list([]));
+
+    result = simnet.callPublicFn(CONTRACT, "claim-position", [Cl.uint(1)], borrower);
+    expect(result.result).toBeErr(Cl.uint(137));
+    result = simnet.callPublicFn(CONTRACT, "claim-position", [Cl.uint(1)], holder);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(printed(result)).toEqual([
+      { event: "transfer-position", loan_id: 1, from: lender, to: holder, price: 0n },
+    ]);
+    expect(
+      simnet.callReadOnlyFn(CONTRACT, "get-position-transfer", [Cl.uint(1)], holder).result
+    ).toBeNone();
+    expect(accountLoanIds("get-lender-loans", holder)).toStrictEqual(Cl.list([Cl.uint(1)]));
+
+    simnet.mineEmptyBlocks(endBlock - simnet.blockHeight + 1);
+    result = simnet.callPublicFn(CONTRACT, "claim-default", [Cl.uint(1), STX], lender);
+    expect(result.result).toBeErr(Cl.uint(103));
+    result = simnet.callPublicFn(CONTRACT, "claim-default", [Cl.uint(1), STX], holder);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(simnet.getAssetsMap().get("STX")!.get(holder)).toBe(100_000_000_000_000n + 500000n);
+  });
+});
+
+describe("liquidation", () => {
+  const ORACLE = Cl.contractPrincipal(simnet.deployer, "mock-oracle");
+  const accounts = simnet.getAccounts();
+  const deployer = accounts.get("deployer")!;
+  const borrower = accounts.get("wallet_1")!;
+  const lender = accounts.get("wallet_2")!;
+
+  // The oracle quotes USD per whole token with 8 decimals.
+  const setPrice = (token: ClarityValue, usd: number) =>
+    simnet.callPublicFn(
+      "mock-oracle",
+      "set-price",
+      [token, Cl.uint(usd * 100_000_000)],
+      deployer
+    );
+
+  const liquidate = (sender = lender) =>
+    simnet.callPublicFn(CONTRACT, "liquidate", [Cl.uint(1), ORACLE, STX, SBTC], sender);
+
+  // 1,000 STX lent against 0.05 sBTC with 1,100 STX to repay.
+  const fundedStxLoan = (liquidationRatio: ClarityValue) => {
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(5_000_000), Cl.principal(borrower)], deployer);
+    simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [
+        STX,
+        Cl.uint(1_000_000_000),
+        Cl.uint(1_100_000_000),
+        Cl.uint(100),
+        SBTC,
+        Cl.uint(5_000_000),
+        Cl.none(),
+        Cl.uint(0),
+        Cl.uint(0),
+        liquidationRatio,
+      ],
+      borrower
+    );
+    simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), STX], lender);
+  };
+
+  beforeEach(() => {
+    allowAsset(TOKEN);
+    simnet.callPublicFn(CONTRACT, "set-price-oracle", [Cl.some(ORACLE)], deployer);
+    setPrice(STX, 1.5);
+    setPrice(SBTC, 60_000);
+  });
+
+  it("lets the lender liquidate once the collateral value falls below the loan's ratio", () => {
+    fundedStxLoan(Cl.some(Cl.uint(15_000)));
+    expect(
+      simnet.callReadOnlyFn(CONTRACT, "get-loan", [Cl.uint(1)], lender).result
+    ).toBeSome(
+      expect.objectContaining({
+        value: expect.objectContaining({ "liquidation-ratio": Cl.some(Cl.uint(15_000)) }),
+      })
+    );
+
+    // $3,000 of sBTC against $1,650 owed, then $2,500: both at least 150%.
+    expect(liquidate().result).toBeErr(Cl.uint(errorCode("ERR-NOT-UNDERCOLLATERALIZED")));
+    setPrice(SBTC, 49_500);
+    expect(liquidate().result).toBeErr(Cl.uint(errorCode("ERR-NOT-UNDERCOLLATERALIZED")));
+
+    // $2,250 is 136% of the balance, well before end-block.
+    setPrice(SBTC, 45_000);
+    expect(liquidate(borrower).result).toBeErr(Cl.uint(errorCode("ERR-NOT-LENDER")));
+    const result = liquidate();
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(printed(result)).toEqual([
+      {
+        event: "liquidate",
+        loan_id: 1,
+        lender,
+        collateral_amount: 5_000_000n,
+        collateral_value: 225_000_000_000n,
+        debt_value: 165_000_000_000n,
+      },
+    ]);
+    expect(getLoan(1, lender)["status"]).toBe(STATUS.DEFAULTED);
+    expect(simnet.getAssetsMap().get(".sbtc-token.sbtc")!.get(lender)).toBe(5_000_000n);
+    expect(liquidate().result).toBeErr(Cl.uint(errorCode("ERR-NOT-FUNDED")));
+  });
+
+  it("measures the outstanding balance after installments", () => {
+    fundedStxLoan(Cl.some(Cl.uint(15_000)));
+    setPrice(SBTC, 45_000);
+    simnet.callPublicFn(
+      CONTRACT,
+      "repay-partial",
+      [Cl.uint(1), Cl.uint(600_000_000), STX, SBTC],
+      borrower
+    );
+    // $750 still owed against $2,250 of collateral.
+    expect(liquidate().result).toBeErr(Cl.uint(errorCode("ERR-NOT-UNDERCOLLATERALIZED")));
+  });
+
+  it("leaves loans without a ratio to claim-default", () => {
+    fundedStxLoan(Cl.none());
+    setPrice(SBTC, 1);
+    expect(liquidate().result).toBeErr(Cl.uint(errorCode("ERR-NO-THRESHOLD")));
+    expect(getLoan(1, lender)["status"]).toBe(STATUS.FUNDED);
+  });
+});
+
+describe("loan offers", () => {
+  beforeEach(() => {
+    allowAsset(TOKEN);
+  });
+
+  const postOffer = (lender: string, expiresIn = 20) =>
+    simnet.callPublicFn(
+      CONTRACT,
+      "post-offer",
+      [STX, Cl.uint(1000), SBTC, Cl.uint(15000), Cl.uint(1000), Cl.uint(50), Cl.uint(expiresIn)],
+      lender
+    );
+
+  it("escrows principal and opens a funded loan when a borrower accepts", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(2000), Cl.principal(borrower)], deployer);
+
+    let result = postOffer(lender);
+    expect(result.result).toBeOk(Cl.uint(1));
+    expect(result.events[0].event).toBe("stx_transfer_event");
+    expect(simnet.callReadOnlyFn(CONTRACT, "get-offer-count", [], lender).result).toBeUint(1);
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "accept-offer",
+      [Cl.uint(1), Cl.uint(60), Cl.uint(1500), STX, SBTC],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(121));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "accept-offer",
+      [Cl.uint(1), Cl.uint(40), Cl.uint(1499), STX, SBTC],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(120));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "accept-offer",
+      [Cl.uint(1), Cl.uint(40), Cl.uint(1500), STX, STX],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(113));
+
+    const balanceBefore = simnet.getAssetsMap().get("STX")!.get(borrower)!;
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "accept-offer",
+      [Cl.uint(1), Cl.uint(40), Cl.uint(1500), STX, SBTC],
+      borrower
+    );
+    expect(result.result).toBeOk(Cl.uint(1));
+    expect(simnet.getAssetsMap().get("STX")!.get(borrower)).toBe(balanceBefore + 1000n);
+
+    const loan = getLoan(1, borrower);
+    expect(loan["status"]).toBe(STATUS.FUNDED);
+    expect(loan["repay-amount"]).toBe(1100n);
+    expect(loan["collateral-amount"]).toBe(1500n);
+    expect(loan["end-block"] - loan["start-block"]).toBe(40n);
+
+    expect(accountLoanIds("get-lender-loans", lender)).toStrictEqual(Cl.list([Cl.uint(1)]));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "accept-offer",
+      [Cl.uint(1), Cl.uint(40), Cl.uint(1500), STX, SBTC],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(118));
+
+    result = simnet.callPublicFn(CONTRACT, "repay", [Cl.uint(1), STX, SBTC], borrower);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(simnet.getAssetsMap().get(".sbtc-token.sbtc")!.get(borrower)).toBe(2000n);
+  });
+
+  it("returns escrowed principal when the lender cancels", () => {
+    const accounts = simnet.getAccounts();
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+
+    const balanceBefore = simnet.getAssetsMap().get("STX")!.get(lender)!;
+    postOffer(lender);
+
+    let result = simnet.callPublicFn(CONTRACT, "cancel-offer", [Cl.uint(1), STX], borrower);
+    expect(result.result).toBeErr(Cl.uint(103));
+
+    result = simnet.callPublicFn(CONTRACT, "cancel-offer", [Cl.uint(1), STX], lender);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(simnet.getAssetsMap().get("STX")!.get(lender)).toBe(balanceBefore);
+
+    result = simnet.callPublicFn(CONTRACT, "cancel-offer", [Cl.uint(1), STX], lender);
+    expect(result.result).toBeErr(Cl.uint(118));
+
+    result = simnet.callPublicFn(
+      CONTRACT,
+      "accept-offer",
+      [Cl.uint(1), Cl.uint(40), Cl.uint(1500), STX, SBTC],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(118));
+  });
+
+  it("rejects acceptance after expiry but still lets the lender reclaim", () => {
+    const accounts = simnet.getAccounts();
+    const deployer = accounts.get("deployer")!;
+    const borrower = accounts.get("wallet_1")!;
+    const lender = accounts.get("wallet_2")!;
+
+    simnet.callPublicFn(TOKEN, "mint", [Cl.uint(2000), Cl.principal(borrower)], deployer);
+    postOffer(lender, 5);
+    simnet.mineEmptyBlocks(6);
+
+    let result = simnet.callPublicFn(
+      CONTRACT,
+      "accept-offer",
+      [Cl.uint(1), Cl.uint(40), Cl.uint(1500), STX, SBTC],
+      borrower
+    );
+    expect(result.result).toBeErr(Cl.uint(119));
+
+    result = simnet.callPublicFn(CONTRACT, "cancel-offer", [Cl.uint(1), STX], lender);
+    expect(result.result).toBeOk(Cl.bool(true));
+  });
+});
+
+// ERR-LOAN-EXISTS and ERR-NO-LENDER guard invariants that no public call can break,
+// so only tests/errors.test.ts checks them against the catalog.
+describe("error codes", () => {
+  const accounts = simnet.getAccounts();
+  const deployer = accounts.get("deployer")!;
+  const borrower = accounts.get("wallet_1")!;
+  const lender = accounts.get("wallet_2")!;
+  const outsider = accounts.get("wallet_3")!;
+
+  const expectError = (result: ClarityValue, name: string, source?: ErrorSource) =>
+    expect(result).toBeErr(Cl.uint(errorCode(name, source)));
+
+  const loanArgs = ({
+    principalToken = SBTC,
+    principalAmount = 1000,
+    repayAmount = 1100,
+    duration = 10,
+    collateralToken = STX,
+    expiry = Cl.none() as ClarityValue,
+    gracePeriod = 0,
+    liquidationRatio = 0,
+  } = {}) => [
+    principalToken,
+    Cl.uint(principalAmount),
+    Cl.uint(repayAmount),
+    Cl.uint(duration),
+    collateralToken,
+    Cl.uint(5000),
+    expiry,
+    Cl.uint(gracePeriod),
+    Cl.uint(0),
+    liquidationRatio ? Cl.some(Cl.uint(liquidationRatio)) : Cl.none(),
+  ];
+
+  const create = (options?: Parameters<typeof loanArgs>[0]) =>
+    simnet.callPublicFn(CONTRACT, "create-loan", loanArgs(options), borrower).result;
+
+  const fund = (loanId = 1) =>
+    simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(loanId), SBTC], lender).result;
+
+  const pastEnd = (loanId = 1) =>
+    simnet.mineEmptyBlocks(Number(getLoan(loanId, lender)["end-block"]) - simnet.blockHeight + 1);
+
+  const postOffer = () =>
+    simnet.callPublicFn(
+      CONTRACT,
+      "post-offer",
+      [STX, Cl.uint(1000), SBTC, Cl.uint(15000), Cl.uint(1000), Cl.uint(50), Cl.uint(5)],
+      lender
+    ).result;
+
+  const acceptOffer = (collateral = 1500) =>
+    simnet.callPublicFn(
+      CONTRACT,
+      "accept-offer",
+      [Cl.uint(1), Cl.uint(20), Cl.uint(collateral), STX, SBTC],
+      borrower
+    ).result;
+
+  const propose = (sender: string, endBlock: number, repay = 1100) =>
+    simnet.callPublicFn(
+      CONTRACT,
+      "propose-extension",
+      [Cl.uint(1), Cl.uint(endBlock), Cl.uint(repay)],
+      sender
+    ).result;
+
+  beforeEach(() => {
+    allowAsset(TOKEN);
+    [borrower, lender, outsider].forEach((account) =>
+      simnet.callPublicFn(TOKEN, "mint", [Cl.uint(10000), Cl.principal(account)], deployer)
+    );
+  });
+
+  it("ERR-LOAN-NOT-FOUND, ERR-NOT-OPEN and ERR-WRONG-TOKEN on fund-loan", () => {
+    expectError(fund(99), "ERR-LOAN-NOT-FOUND");
+    create();
+    expectError(
+      simnet.callPublicFn(CONTRACT, "fund-loan", [Cl.uint(1), STX], lender).result,
+      "ERR-WRONG-TOKEN"
+    );
+    expect(fund()).toBeOk(Cl.bool(true));
+    expectError(fund(), "ERR-NOT-OPEN");
+  });
+
+  it("ERR-NOT-BORROWER, ERR-NOT-FUNDED, ERR-PAST-DUE and ERR-NOT-PAST-DUE", () => {
+    create();
+    expectError(
+      simnet.callPublicFn(CONTRACT, "cancel-loan", [Cl.uint(1), STX], outsider).result,
+      "ERR-NOT-BORROWER"
+    );
+    const repay = () =>
+      simnet.callPublicFn(CONTRACT, "repay", [Cl.uint(1), SBTC, STX], borrower).result;
+    expectError(repay(), "ERR-NOT-FUNDED");
+    fund();
+    expectError(
+      simnet.callPublicFn(CONTRACT, "claim-default", [Cl.uint(1), STX], lender).result,
+      "ERR-NOT-PAST-DUE"
+    );
+    pastEnd();
+    expectError(repay(), "ERR-PAST-DUE");
+    expectError(
+      simnet.callPublicFn(CONTRACT, "claim-default", [Cl.uint(1), STX], outsider).result,
+      "ERR-NOT-LENDER"
+    );
+  });
+
+  it("ERR-BAD-AMOUNT, ERR-SAME-ASSET, ERR-BAD-REPAY and ERR-BAD-DURATION on create-loan", () => {
+    expectError(create({ principalAmount: 0 }), "ERR-BAD-AMOUNT");
+    expectError(
+      simnet.callPublicFn(
+        CONTRACT,
+        "create-loan",
+        [...loanArgs().slice(0, -1), Cl.some(Cl.uint(0))],
+        borrower
+      ).result,
+      "ERR-BAD-AMOUNT"
+    );
+    expectError(create({ principalToken: STX }), "ERR-SAME-ASSET");
+    expectError(create({ repayAmount: 999 }), "ERR-BAD-REPAY");
+    expectError(create({ expiry: Cl.some(Cl.uint(simnet.blockHeight)) }), "ERR-BAD-DURATION");
+  });
+
+  it("ERR-ASSET-NOT-ALLOWED for tokens outside the whitelist", () => {
+    expectError(create({ principalToken: MUSD }), "ERR-ASSET-NOT-ALLOWED");
+  });
+
+  it("ERR-NOT-OWNER and ERR-TOO-MANY-ASSETS on the whitelist", () => {
+    const token = (index: number) => Cl.contractPrincipal(deployer, `token-${index}`);
+    expectError(
+      simnet.callPublicFn(CONTRACT, "add-asset", [token(0)], outsider).result,
+      "ERR-NOT-OWNER"
+    );
+    simnet.mineBlock(
+      Array.from({ length: 49 }, (_, index) =>
+        tx.callPublicFn(CONTRACT, "add-asset", [token(index)], deployer)
+      )
+    );
+    expectError(
+      simnet.callPublicFn(CONTRACT, "add-asset", [token(49)], deployer).result,
+      "ERR-TOO-MANY-ASSETS"
+    );
+  });
+
+  it("ERR-OFFER-NOT-FOUND, ERR-OFFER-NOT-OPEN, ERR-OFFER-EXPIRED and ERR-LOW-COLLATERAL", () => {
+    const cancel = () =>
+      simnet.callPublicFn(CONTRACT, "cancel-offer", [Cl.uint(1), STX], lender).result;
+    expectError(cancel(), "ERR-OFFER-NOT-FOUND");
+    postOffer();
+    expectError(acceptOffer(1499), "ERR-LOW-COLLATERAL");
+    simnet.mineEmptyBlocks(6);
+    expectError(acceptOffer(), "ERR-OFFER-EXPIRED");
+    expect(cancel()).toBeOk(Cl.bool(true));
+    expectError(cancel(), "ERR-OFFER-NOT-OPEN");
+  });
+
+  it("ERR-REQUEST-EXPIRED and ERR-NOT-EXPIRED on expiring requests", () => {
+    create({ expiry: Cl.some(Cl.uint(simnet.blockHeight + 3)) });
+    expectError(
+      simnet.callPublicFn(CONTRACT, "expire-loan", [Cl.uint(1), STX], outsider).result,
+      "ERR-NOT-EXPIRED"
+    );
+    simnet.mineEmptyBlocks(4);
+    expectError(fund(), "ERR-REQUEST-EXPIRED");
+  });
+
+  it("ERR-IN-GRACE-PERIOD while the borrower can still repay late", () => {
+    create({ gracePeriod: 10 });
+    fund();
+    pastEnd();
+    expectError(
+      simnet.callPublicFn(CONTRACT, "claim-default", [Cl.uint(1), STX], lender).result,
+      "ERR-IN-GRACE-PERIOD"
+    );
+  });
+
+  it("ERR-NO-PROPOSAL, ERR-NOT-COUNTERPARTY, ERR-NOT-PARTY, ERR-PROPOSAL-CHANGED and ERR-TOO-MANY-EXTENSIONS", () => {
+    create();
+    fund();
+    const accept = (sender: string, endBlock: number, repay = 1100) =>
+      simnet.callPublicFn(
+        CONTRACT,
+        "accept-extension",
+        [Cl.uint(1), Cl.uint(endBlock), Cl.uint(repay)],
+        sender
+      ).result;
+    const endBlock = Number(getLoan(1, lender)["end-block"]);
+    expectError(accept(lender, endBlock + 1), "ERR-NO-PROPOSAL");
+    expectError(propose(outsider, endBlock + 1), "ERR-NOT-PARTY");
+    propose(borrower, endBlock + 1);
+    expectError(accept(borrower, endBlock + 1), "ERR-NOT-COUNTERPARTY");
+    expectError(accept(lender, endBlock + 2), "ERR-PROPOSAL-CHANGED");
+    expectError(accept(lender, endBlock + 1, 1101), "ERR-PROPOSAL-CHANGED");
+    expect(accept(lender, endBlock + 1)).toBeOk(Cl.bool(true));
+    for (let step = 2; step <= 20; step += 1) {
+      propose(borrower, endBlock + step * 5);
+      expect(accept(lender, endBlock + step * 5)).toBeOk(Cl.bool(true));
+    }
+    propose(borrower, endBlock + 21 * 5);
+    expectError(accept(lender, endBlock + 21 * 5), "ERR-TOO-MANY-EXTENSIONS");
+  });
+
+  it("ERR-WRONG-ORACLE, ERR-NO-PRICE, ERR-NO-THRESHOLD and ERR-NOT-UNDERCOLLATERALIZED", () => {
+    const oracle = Cl.contractPrincipal(deployer, "mock-oracle");
+    const liquidate = (loanId = 1) =>
+      simnet.callPublicFn(CONTRACT, "liquidate", [Cl.uint(loanId), oracle, SBTC, STX], lender)
+        .result;
+    const setPrice = (token: ClarityValue, usd: number) =>
+      simnet.callPublicFn("mock-oracle", "set-price", [token, Cl.uint(usd)], deployer);
+    create({ liquidationRatio: 15000 });
+    fund();
+    expectError(liquidate(), "ERR-WRONG-ORACLE");
+    expectError(
+      simnet.callPublicFn(CONTRACT, "set-price-oracle", [Cl.some(oracle)], outsider).result,
+      "ERR-NOT-OWNER"
+    );
+    simnet.callPublicFn(CONTRACT, "set-price-oracle", [Cl.some(oracle)], deployer);
+    expectError(liquidate(), "ERR-NO-PRICE");
+    expectError(
+      simnet.callReadOnlyFn("mock-oracle", "get-price", [STX], lender).result,
+      "ERR-NO-PRICE",
+      "price-oracle"
+    );
+    expectError(
+      simnet.callPublicFn("mock-oracle", "set-price", [STX, Cl.uint(1)], outsider).result,
+      "ERR-NOT-OWNER",
+      "price-oracle"
+    );
+    setPrice(SBTC, 6_000_000_000_000);
+    setPrice(STX, 100_000_000_000);
+    expectError(liquidate(), "ERR-NOT-UNDERCOLLATERALIZED");
+    create();
+    fund(2);
+    expectError(liquidate(2), "ERR-NO-THRESHOLD");
+  });
+
+  it("ERR-NOT-LISTED, ERR-NOT-BUYER, ERR-SELF-TRANSFER and ERR-NO-TRANSFER on positions", () => {
+    create();
+    fund();
+    expectError(
+      simnet.callPublicFn(CONTRACT, "delist-position", [Cl.uint(1)], lender).result,
+      "ERR-NOT-LISTED"
+    );
+    expectError(
+      simnet.callPublicFn(CONTRACT, "transfer-position", [Cl.uint(1), Cl.principal(lender)], lender)
+        .result,
+      "ERR-SELF-TRANSFER"
+    );
+    simnet.callPublicFn(
+      CONTRACT,
+      "list-position",
+      [Cl.uint(1), Cl.uint(500), Cl.some(Cl.principal(borrower))],
+      lender
+    );
+    expectError(
+      simnet.callPublicFn(CONTRACT, "buy-position", [Cl.uint(1), Cl.uint(500), SBTC], outsider)
+        .result,
+      "ERR-NOT-BUYER"
+    );
+    expectError(
+      simnet.callPublicFn(CONTRACT, "claim-position", [Cl.uint(1)], outsider).result,
+      "ERR-NO-TRANSFER"
+    );
+  });
+
+  it("ERR-PRICE-CHANGED when the seller relists before a purchase is mined", () => {
+    create();
+    fund();
+    const list = (price: number) =>
+      tx.callPublicFn(CONTRACT, "list-position", [Cl.uint(1), Cl.uint(price), Cl.none()], lender);
+    simnet.mineBlock([list(500)]);
+    const [relist, purchase] = simnet.mineBlock([
+      list(900),
+      tx.callPublicFn(CONTRACT, "buy-position", [Cl.uint(1), Cl.uint(500), SBTC], borrower),
+    ]);
+    expect(relist.result).toBeOk(Cl.bool(true));
+    expectError(purchase.result, "ERR-PRICE-CHANGED");
+  });
+
+  it("token ERR-NOT-OWNER and ERR-UNAUTHORIZED, and native transfer failures", () => {
+    expectError(
+      simnet.callPublicFn(TOKEN, "mint", [Cl.uint(1), Cl.principal(outsider)], outsider).result,
+      "ERR-NOT-OWNER",
+      "sip-010"
+    );
+    expectError(
+      simnet.callPublicFn(
+        TOKEN,
+        "transfer",
+        [Cl.uint(1), Cl.principal(lender), Cl.principal(outsider), Cl.none()],
+        outsider
+      ).result,
+      "ERR-UNAUTHORIZED",
+      "sip-010"
+    );
+    create({ principalAmount: 20000, repayAmount: 20000 });
+    expectError(fund(), "INSUFFICIENT-BALANCE", "native");
+  });
 });
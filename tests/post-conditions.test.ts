@@ -0,0 +1,316 @@
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+import {
+  acceptOfferArgs,
+  buyPositionArgs,
+  createLoanArgs,
+  lateFeeAt,
+  listPositionArgs,
+  loanActionArgs,
+  loanPostConditions,
+  offerMinCollateral,
+  offerPostConditions,
+  offerRepayAmount,
+  positionPostConditions,
+  proposeExtensionArgs,
+  type LoanAction,
+} from "../frontend/src/stacks";
+
+const SENDER = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const CONTRACT = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.p2p-lending";
+const TOKEN = {
+  contract: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.sbtc-token",
+  assetName: "sbtc",
+};
+const ASSET = `${TOKEN.contract}::${TOKEN.assetName}`;
+const SECOND_TOKEN = {
+  contract: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.mock-token",
+  assetName: "musd",
+};
+const ASSETS = { principal: TOKEN, collateral: TOKEN };
+
+const loanFor = (principalIsStx: boolean) => ({
+  principal_is_stx: principalIsStx,
+  principal_amount: 1000n,
+  collateral_is_stx: !principalIsStx,
+  collateral_amount: 1500n,
+  repay_amount: 1100n,
+  amount_repaid: 0n,
+});
+
+const stx = (address: string, amount: bigint) => ({
+  type: "stx-postcondition",
+  address,
+  condition: "eq",
+  amount: amount.toString(),
+});
+
+const ft = (address: string, amount: bigint, asset = ASSET) => ({
+  type: "ft-postcondition",
+  address,
+  condition: "eq",
+  amount: amount.toString(),
+  asset,
+});
+
+const send = (isStx: boolean, address: string, amount: bigint) =>
+  isStx ? stx(address, amount) : ft(address, amount);
+
+const cases: { action: LoanAction; expected: (principalIsStx: boolean) => object[] }[] = [
+  {
+    action: "create-loan",
+    expected: (principalIsStx) => [send(!principalIsStx, SENDER, 1500n)],
+  },
+  {
+    action: "fund-loan",
+    expected: (principalIsStx) => [
+      send(principalIsStx, SENDER, 1000n),
+      send(principalIsStx, CONTRACT, 1000n),
+    ],
+  },
+  {
+    action: "repay",
+    expected: (principalIsStx) => [
+      send(principalIsStx, SENDER, 1100n),
+      send(!principalIsStx, CONTRACT, 1500n),
+    ],
+  },
+  {
+    action: "cancel-loan",
+    expected: (principalIsStx) => [send(!principalIsStx, CONTRACT, 1500n)],
+  },
+  {
+    action: "expire-loan",
+    expected: (principalIsStx) => [send(!principalIsStx, CONTRACT, 1500n)],
+  },
+  {
+    action: "claim-default",
+    expected: (principalIsStx) => [send(!principalIsStx, CONTRACT, 1500n)],
+  },
+  {
+    action: "liquidate",
+    expected: (principalIsStx) => [send(!principalIsStx, CONTRACT, 1500n)],
+  },
+];
+
+describe("loanPostConditions", () => {
+  cases.forEach(({ action, expected }) => {
+    [true, false].forEach((principalIsStx) => {
+      const label = principalIsStx ? "STX principal / sBTC collateral" : "sBTC principal / STX collateral";
+      it(`${action} with ${label}`, () => {
+        const postConditions = loanPostConditions(action, loanFor(principalIsStx), {
+          sender: SENDER,
+          contract: CONTRACT,
+          assets: ASSETS,
+        });
+        expect(postConditions).toEqual(expected(principalIsStx));
+      });
+    });
+  });
+
+  [true, false].forEach((principalIsStx) => {
+    it(`repays only the outstanding balance (principal STX: ${principalIsStx})`, () => {
+      const loan = { ...loanFor(principalIsStx), amount_repaid: 400n };
+      const parties = { sender: SENDER, contract: CONTRACT, assets: ASSETS };
+      expect(loanPostConditions("repay", loan, parties)).toEqual([
+        send(principalIsStx, SENDER, 700n),
+        send(!principalIsStx, CONTRACT, 1500n),
+      ]);
+      expect(loanPostConditions("repay-partial", loan, { ...parties, amount: 300n })).toEqual([
+        send(principalIsStx, SENDER, 300n),
+      ]);
+      expect(loanPostConditions("repay-partial", loan, { ...parties, amount: 700n })).toEqual([
+        send(principalIsStx, SENDER, 700n),
+        send(!principalIsStx, CONTRACT, 1500n),
+      ]);
+    });
+  });
+
+  it("caps settlement at the balance plus the maximum late fee when a grace period is set", () => {
+    const loan = {
+      ...loanFor(true),
+      amount_repaid: 400n,
+      grace_period: 10n,
+      late_fee_per_block: 3n,
+    };
+    const parties = { sender: SENDER, contract: CONTRACT, assets: ASSETS };
+    const upTo = (address: string, amount: bigint) => ({
+      ...stx(address, amount),
+      condition: "lte",
+    });
+    expect(loanPostConditions("repay", loan, parties)).toEqual([
+      upTo(SENDER, 730n),
+      ft(CONTRACT, 1500n),
+    ]);
+    expect(loanPostConditions("repay-partial", loan, { ...parties, amount: 300n })).toEqual([
+      stx(SENDER, 300n),
+    ]);
+    expect(lateFeeAt({ end_block: 100n, late_fee_per_block: 3n }, 104)).toBe(12n);
+    expect(lateFeeAt({ end_block: 100n, late_fee_per_block: 3n }, 99)).toBe(0n);
+  });
+
+  it("requires an amount for repay-partial", () => {
+    expect(() =>
+      loanPostConditions("repay-partial", loanFor(true), {
+        sender: SENDER,
+        contract: CONTRACT,
+        assets: ASSETS,
+      })
+    ).toThrow();
+  });
+
+  it("uses each side's own asset when both are SIP-010 tokens", () => {
+    const loan = { ...loanFor(false), collateral_is_stx: false };
+    const parties = {
+      sender: SENDER,
+      contract: CONTRACT,
+      assets: { principal: SECOND_TOKEN, collateral: TOKEN },
+    };
+    const musd = `${SECOND_TOKEN.contract}::${SECOND_TOKEN.assetName}`;
+    expect(loanPostConditions("repay", loan, parties)).toEqual([
+      ft(SENDER, 1100n, musd),
+      ft(CONTRACT, 1500n, ASSET),
+    ]);
+  });
+
+  it("requires an asset for each SIP-010 side", () => {
+    expect(() =>
+      loanPostConditions("create-loan", loanFor(true), {
+        sender: SENDER,
+        contract: CONTRACT,
+        assets: {},
+      })
+    ).toThrow();
+  });
+});
+
+describe("loan call arguments", () => {
+  it("encodes STX as none and tokens as contract principals", () => {
+    expect(
+      createLoanArgs({
+        principalAmount: 1000,
+        repayAmount: 1100,
+        duration: 144,
+        collateralToken: TOKEN.contract,
+        collateralAmount: 1500,
+      })
+    ).toEqual([
+      Cl.none(),
+      Cl.uint(1000),
+      Cl.uint(1100),
+      Cl.uint(144),
+      Cl.some(Cl.contractPrincipal("ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM", "sbtc-token")),
+      Cl.uint(1500),
+      Cl.none(),
+      Cl.uint(0),
+      Cl.uint(0),
+      Cl.none(),
+    ]);
+    const withExpiry = createLoanArgs({
+      principalAmount: 1000,
+      repayAmount: 1100,
+      duration: 144,
+      collateralToken: TOKEN.contract,
+      collateralAmount: 1500,
+      expiryBlock: 5000,
+    });
+    expect(withExpiry[6]).toEqual(Cl.some(Cl.uint(5000)));
+    const withRatio = createLoanArgs({
+      principalAmount: 1000,
+      repayAmount: 1100,
+      duration: 144,
+      collateralAmount: 1500,
+      liquidationRatioBps: 15000,
+    });
+    expect(withRatio[9]).toEqual(Cl.some(Cl.uint(15000)));
+  });
+
+  it("passes the loan's tokens to each action", () => {
+    const loan = { principal_token: SECOND_TOKEN.contract, collateral_token: TOKEN.contract };
+    const deployer = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+    const musd = Cl.some(Cl.contractPrincipal(deployer, "mock-token"));
+    const sbtc = Cl.some(Cl.contractPrincipal(deployer, "sbtc-token"));
+    expect(loanActionArgs("fund-loan", 7, loan)).toEqual([Cl.uint(7), musd]);
+    expect(loanActionArgs("repay", 7, loan)).toEqual([Cl.uint(7), musd, sbtc]);
+    expect(loanActionArgs("repay-partial", 7, loan, 300n)).toEqual([
+      Cl.uint(7),
+      Cl.uint(300),
+      musd,
+      sbtc,
+    ]);
+    expect(loanActionArgs("claim-default", 7, {})).toEqual([Cl.uint(7), Cl.none()]);
+    expect(loanActionArgs("liquidate", 7, loan, undefined, `${deployer}.mock-oracle`)).toEqual([
+      Cl.uint(7),
+      Cl.contractPrincipal(deployer, "mock-oracle"),
+      musd,
+      sbtc,
+    ]);
+    expect(() => loanActionArgs("liquidate", 7, loan)).toThrow("price oracle");
+  });
+
+  it("encodes extension proposals as loan ID, end block and repay amount", () => {
+    expect(proposeExtensionArgs(7, { endBlock: 500, repayAmount: 1200n })).toEqual([
+      Cl.uint(7),
+      Cl.uint(500),
+      Cl.uint(1200),
+    ]);
+  });
+});
+
+describe("offerPostConditions", () => {
+  const offer = { principal_is_stx: true, principal_amount: 1000n, collateral_is_stx: false };
+  const parties = { sender: SENDER, contract: CONTRACT, assets: ASSETS };
+
+  it("escrows principal when posting and returns it when cancelling", () => {
+    expect(offerPostConditions("post-offer", offer, parties)).toEqual([stx(SENDER, 1000n)]);
+    expect(offerPostConditions("cancel-offer", offer, parties)).toEqual([stx(CONTRACT, 1000n)]);
+  });
+
+  it("swaps collateral for escrowed principal when accepting", () => {
+    expect(
+      offerPostConditions("accept-offer", offer, { ...parties, collateralAmount: 1500n })
+    ).toEqual([ft(SENDER, 1500n), stx(CONTRACT, 1000n)]);
+    expect(() => offerPostConditions("accept-offer", offer, parties)).toThrow();
+  });
+
+  it("derives repay and minimum collateral from basis points", () => {
+    const terms = { principal_amount: 1001n, rate_bps: 1000n, min_collateral_bps: 15000n };
+    expect(offerRepayAmount(terms)).toBe(1101n);
+    expect(offerMinCollateral(terms)).toBe(1502n);
+    const acceptTerms = { duration: 40, collateralAmount: 1502n };
+    expect(acceptOfferArgs(3, { collateral_token: TOKEN.contract }, acceptTerms)).toEqual([
+      Cl.uint(3),
+      Cl.uint(40),
+      Cl.uint(1502),
+      Cl.none(),
+      Cl.some(Cl.contractPrincipal("ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM", "sbtc-token")),
+    ]);
+  });
+});
+
+describe("position sales", () => {
+  it("pays the asking price in the principal asset only when there is one", () => {
+    const parties = { sender: SENDER, assets: ASSETS };
+    expect(positionPostConditions(loanFor(false), { price: 1050n }, parties)).toEqual([
+      ft(SENDER, 1050n),
+    ]);
+    expect(positionPostConditions(loanFor(true), { price: 1050n }, parties)).toEqual([
+      stx(SENDER, 1050n),
+    ]);
+    expect(positionPostConditions(loanFor(true), { price: 0n }, parties)).toEqual([]);
+  });
+
+  it("encodes listing and purchase arguments", () => {
+    expect(listPositionArgs(4, { price: 1050n })).toEqual([Cl.uint(4), Cl.uint(1050), Cl.none()]);
+    expect(listPositionArgs(4, { price: 0n, buyer: SENDER })).toEqual([
+      Cl.uint(4),
+      Cl.uint(0),
+      Cl.some(Cl.principal(SENDER)),
+    ]);
+    expect(buyPositionArgs(4, { principal_token: TOKEN.contract }, { price: 1050n })).toEqual([
+      Cl.uint(4),
+      Cl.uint(1050),
+      Cl.some(Cl.contractPrincipal("ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM", "sbtc-token")),
+    ]);
+  });
+});
@@ -0,0 +1,319 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  Cl,
+  ClarityType,
+  serializeCV,
+  type ClarityValue,
+  type TupleCV,
+} from "@stacks/transactions";
+import { errorCode } from "../frontend/src/errors";
+import { balanceCheck, createChecks, loanChecks, requiredAssets } from "../frontend/src/preflight";
+import {
+  decodeLoan,
+  fetchStxBalance,
+  fetchTokenBalance,
+  STATUS,
+  type LoanAction,
+} from "../frontend/src/stacks";
+import { BORROWER, CONFIG, CONTRACT, DEPLOYER, LENDER, loan, SBTC } from "./fixtures";
+
+const failures = (checks: ReturnType<typeof loanChecks>) =>
+  checks.filter((check) => !check.ok).map((check) => check.error?.name);
+
+describe("loan checks", () => {
+  it("flags the state a fund would abort on", () => {
+    const open = loan({ status: STATUS.OPEN, lender: undefined, expiry_block: 50n });
+    expect(failures(loanChecks("fund-loan", open, { sender: LENDER, block: 50 }))).toEqual([]);
+    expect(failures(loanChecks("fund-loan", open, { sender: LENDER, block: 51 }))).toEqual([
+      "ERR-REQUEST-EXPIRED",
+    ]);
+    expect(failures(loanChecks("fund-loan", loan(), { sender: LENDER, block: 150 }))).toEqual([
+      "ERR-NOT-OPEN",
+    ]);
+    expect(failures(loanChecks("expire-loan", open, { sender: LENDER, block: 50 }))).toEqual([
+      "ERR-NOT-EXPIRED",
+    ]);
+    expect(failures(loanChecks("cancel-loan", open, { sender: LENDER, block: 10 }))).toEqual([
+      "ERR-NOT-BORROWER",
+    ]);
+  });
+
+  it("stops repayments after the grace period and checks installments", () => {
+    const context = { sender: BORROWER, block: 210 };
+    expect(failures(loanChecks("repay", loan(), context))).toEqual([]);
+    expect(failures(loanChecks("repay", loan(), { ...context, block: 211 }))).toEqual([
+      "ERR-PAST-DUE",
+    ]);
+    expect(failures(loanChecks("repay", loan(), { ...context, sender: LENDER }))).toEqual([
+      "ERR-NOT-BORROWER",
+    ]);
+    expect(
+      failures(loanChecks("repay-partial", loan(), { ...context, amount: 1_101n }))
+    ).toEqual(["ERR-BAD-AMOUNT"]);
+    expect(failures(loanChecks("repay-partial", loan(), { ...context, amount: 0n }))).toEqual([
+      "ERR-BAD-AMOUNT",
+    ]);
+  });
+
+  it("only lets the lender claim a default once the grace period is over", () => {
+    const context = { sender: LENDER, block: 200 };
+    expect(failures(loanChecks("claim-default", loan(), context))).toEqual([
+      "ERR-NOT-PAST-DUE",
+      "ERR-IN-GRACE-PERIOD",
+    ]);
+    expect(failures(loanChecks("claim-default", loan(), { ...context, block: 205 }))).toEqual([
+      "ERR-IN-GRACE-PERIOD",
+    ]);
+    expect(failures(loanChecks("claim-default", loan(), { ...context, block: 211 }))).toEqual([]);
+    expect(
+      failures(loanChecks("claim-default", loan(), { sender: BORROWER, block: 211 }))
+    ).toEqual(["ERR-NOT-LENDER"]);
+  });
+
+  it("leaves block checks unchecked without a chain tip", () => {
+    const open = loan({ status: STATUS.OPEN, lender: undefined, expiry_block: 50n });
+    const unchecked = (checks: ReturnType<typeof loanChecks>) =>
+      checks.filter((check) => !check.ok && !check.error).map((check) => check.label);
+    expect(unchecked(loanChecks("fund-loan", open, { sender: LENDER }))).toEqual([
+      "Request has not expired (chain tip unknown, not checked)",
+    ]);
+    expect(failures(loanChecks("repay", loan(), { sender: BORROWER }))).toEqual([undefined]);
+    expect(unchecked(loanChecks("claim-default", loan(), { sender: LENDER }))).toHaveLength(2);
+    expect(
+      failures(loanChecks("expire-loan", loan({ status: STATUS.OPEN }), { sender: LENDER }))
+    ).toEqual(["ERR-NOT-EXPIRED"]);
+    expect(failures(loanChecks("cancel-loan", open, { sender: BORROWER }))).toEqual([]);
+    expect(requiredAssets("repay", loan(), {})).toEqual([{ side: "principal", amount: 1_100n }]);
+  });
+
+  it("skips the collateral check for liquidations without a price", () => {
+    const guarded = loan({ liquidation_ratio: 15_000n });
+    const oracle = `${DEPLOYER}.price-oracle`;
+    const context = { sender: LENDER, block: 150, oracle };
+    expect(failures(loanChecks("liquidate", guarded, context))).toEqual([]);
+    expect(failures(loanChecks("liquidate", guarded, { ...context, liquidatable: false }))).toEqual(
+      ["ERR-NOT-UNDERCOLLATERALIZED"]
+    );
+    expect(failures(loanChecks("liquidate", loan(), { ...context, oracle: undefined }))).toEqual([
+      "ERR-WRONG-ORACLE",
+      "ERR-NO-THRESHOLD",
+    ]);
+  });
+});
+
+describe("create checks", () => {
+  const terms = {
+    principalAmount: 1_000n,
+    repayAmount: 1_100n,
+    duration: 100,
+    collateralToken: SBTC,
+    collateralAmount: 500n,
+  };
+  const context = { allowed: [SBTC], block: 50 };
+
+  it("mirrors the create-loan asserts", () => {
+    expect(failures(createChecks(terms, context))).toEqual([]);
+    expect(failures(createChecks({ ...terms, collateralToken: undefined }, context))).toEqual([
+      "ERR-SAME-ASSET",
+    ]);
+    expect(failures(createChecks(terms, { ...context, allowed: [] }))).toEqual([
+      "ERR-ASSET-NOT-ALLOWED",
+    ]);
+    expect(
+      failures(createChecks({ ...terms, principalAmount: 0n, duration: 0 }, context))
+    ).toEqual(["ERR-BAD-AMOUNT", "ERR-BAD-AMOUNT"]);
+    expect(failures(createChecks({ ...terms, repayAmount: 999n }, context))).toEqual([
+      "ERR-BAD-REPAY",
+    ]);
+  });
+
+  it("needs an expiry past the block the request is mined in", () => {
+    expect(failures(createChecks({ ...terms, expiryBlock: 51 }, context))).toEqual([]);
+    expect(failures(createChecks({ ...terms, expiryBlock: 50 }, context))).toEqual([
+      "ERR-BAD-DURATION",
+    ]);
+    expect(
+      createChecks({ ...terms, expiryBlock: 50 }, { allowed: [SBTC] }).find((check) => !check.ok)
+        ?.label
+    ).toBe("Expiry block 50 is still ahead (chain tip unknown, not checked)");
+  });
+});
+
+describe("asset checks", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("adds the late fee due when settling in the grace period", () => {
+    expect(requiredAssets("fund-loan", loan(), { block: 50 })).toEqual([
+      { side: "principal", amount: 1_000n },
+    ]);
+    expect(requiredAssets("repay", loan(), { block: 205 })).toEqual([
+      { side: "principal", amount: 1_110n },
+    ]);
+    const partial = loan({ amount_repaid: 600n });
+    expect(requiredAssets("repay-partial", partial, { block: 205, amount: 400n })).toEqual([
+      { side: "principal", amount: 400n },
+    ]);
+    expect(requiredAssets("repay-partial", partial, { block: 205, amount: 500n })).toEqual([
+      { side: "principal", amount: 510n },
+    ]);
+    expect(requiredAssets("claim-default", loan(), { block: 211 })).toEqual([]);
+    expect(balanceCheck("STX", 1_110n, 1_000n)).toMatchObject({
+      ok: false,
+      error: { name: "INSUFFICIENT-BALANCE", source: "native" },
+    });
+    expect(balanceCheck("STX", 1_110n, 1_110n)).toEqual({ label: "STX", ok: true });
+  });
+
+  it("reads spendable STX and SIP-010 balances", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({ ok: true, json: async () => ({ balance: "900", locked: "200" }) })
+    );
+    expect(await fetchStxBalance(CONFIG, BORROWER)).toBe(700n);
+
+    const respond = (result: ClarityValue) =>
+      vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ okay: true, ok: true, result: serializeCV(result) }),
+      });
+    const fetchMock = respond(Cl.ok(Cl.uint(42)));
+    vi.stubGlobal("fetch", fetchMock);
+    expect(await fetchTokenBalance(CONFIG, SBTC, BORROWER)).toBe(42n);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      `http://localhost:3999/v2/contracts/call-read/${DEPLOYER}/sbtc-token/get-balance`
+    );
+
+    vi.stubGlobal("fetch", respond(Cl.error(Cl.uint(1))));
+    await expect(fetchTokenBalance(CONFIG, SBTC, BORROWER)).rejects.toThrow("get-balance failed");
+  });
+});
+
+describe("loan checks against the contract", () => {
+  const sbtc = Cl.some(Cl.contractPrincipal(simnet.deployer, "sbtc-token"));
+  const accounts = simnet.getAccounts();
+  const borrower = accounts.get("wallet_1")!;
+  const lender = accounts.get("wallet_2")!;
+
+  beforeEach(() => {
+    simnet.callPublicFn(
+      CONTRACT,
+      "add-asset",
+      [Cl.contractPrincipal(simnet.deployer, "sbtc-token")],
+      simnet.deployer
+    );
+    simnet.callPublicFn(
+      "sbtc-token",
+      "mint",
+      [Cl.uint(1_000), Cl.principal(borrower)],
+      simnet.deployer
+    );
+  });
+
+  const createLoan = (expiry: number) =>
+    simnet.callPublicFn(
+      CONTRACT,
+      "create-loan",
+      [
+        Cl.none(),
+        Cl.uint(1_000),
+        Cl.uint(1_100),
+        Cl.uint(10),
+        sbtc,
+        Cl.uint(500),
+        Cl.some(Cl.uint(expiry)),
+        Cl.uint(5),
+        Cl.uint(0),
+        Cl.none(),
+      ],
+      borrower
+    ).result;
+
+  const readLoan = (loanId: number) => {
+    const stored = simnet.callReadOnlyFn(CONTRACT, "get-loan", [Cl.uint(loanId)], borrower).result;
+    if (stored.type !== ClarityType.OptionalSome) throw new Error("Loan not found");
+    return decodeLoan(stored.value as TupleCV);
+  };
+
+  // Each call is mined in the block after `simnet.blockHeight`, like a wallet
+  // transaction after the chain tip.
+  const nextBlock = () => simnet.blockHeight + 1;
+  const mineUntil = (block: number) => simnet.mineEmptyBlocks(block - nextBlock());
+
+  // Submits the call and asserts the first failed check named the error it
+  // aborted with, returning that name (or undefined when it went through).
+  const submit = (
+    action: Exclude<LoanAction, "create-loan">,
+    loanId: number,
+    sender: string,
+    args: ClarityValue[],
+    amount?: bigint
+  ) => {
+    const checks = loanChecks(action, readLoan(loanId), {
+      sender,
+      block: nextBlock(),
+      amount,
+    });
+    const failed = checks.find((check) => !check.ok)?.error;
+    const { result } = simnet.callPublicFn(CONTRACT, action, [Cl.uint(loanId), ...args], sender);
+    if (failed) {
+      expect(result).toBeErr(Cl.uint(failed.code));
+    } else {
+      expect(result.type).toBe(ClarityType.ResponseOk);
+    }
+    return failed?.name;
+  };
+
+  it("predicts the contract's error at each stage of a loan", () => {
+    expect(createLoan(nextBlock() + 5)).toBeOk(Cl.uint(1));
+    expect(submit("cancel-loan", 1, lender, [sbtc])).toBe("ERR-NOT-BORROWER");
+    expect(submit("claim-default", 1, lender, [sbtc])).toBe("ERR-NOT-FUNDED");
+    expect(submit("expire-loan", 1, lender, [sbtc])).toBe("ERR-NOT-EXPIRED");
+    expect(submit("fund-loan", 1, lender, [Cl.none()])).toBeUndefined();
+    expect(submit("fund-loan", 1, lender, [Cl.none()])).toBe("ERR-NOT-OPEN");
+    expect(submit("claim-default", 1, lender, [sbtc])).toBe("ERR-NOT-PAST-DUE");
+    expect(submit("repay-partial", 1, borrower, [Cl.uint(2_000), Cl.none(), sbtc], 2_000n)).toBe(
+      "ERR-BAD-AMOUNT"
+    );
+
+    const { end_block, grace_period } = readLoan(1);
+    mineUntil(Number(end_block) + 1);
+    expect(submit("claim-default", 1, lender, [sbtc])).toBe("ERR-IN-GRACE-PERIOD");
+    mineUntil(Number(end_block + grace_period) + 1);
+    expect(submit("repay", 1, borrower, [Cl.none(), sbtc])).toBe("ERR-PAST-DUE");
+    expect(submit("claim-default", 1, borrower, [sbtc])).toBe("ERR-NOT-LENDER");
+    expect(submit("claim-default", 1, lender, [sbtc])).toBeUndefined();
+  });
+
+  it("agrees with the contract on the request expiry block", () => {
+    const expiry = nextBlock() + 3;
+    expect(createLoan(expiry)).toBeOk(Cl.uint(1));
+    expect(createLoan(expiry + 1)).toBeOk(Cl.uint(2));
+    mineUntil(expiry);
+    expect(submit("fund-loan", 1, lender, [Cl.none()])).toBeUndefined();
+    expect(submit("expire-loan", 2, lender, [sbtc])).toBe("ERR-NOT-EXPIRED");
+    expect(submit("fund-loan", 2, lender, [Cl.none()])).toBe("ERR-REQUEST-EXPIRED");
+    expect(submit("expire-loan", 2, lender, [sbtc])).toBeUndefined();
+  });
+
+  it("agrees with the contract on a new request's expiry block", () => {
+    const collateralToken = `${simnet.deployer}.sbtc-token`;
+    const terms = {
+      principalAmount: 1_000n,
+      repayAmount: 1_100n,
+      duration: 10,
+      collateralToken,
+      collateralAmount: 500n,
+    };
+    const failed = (expiryBlock: number) =>
+      createChecks(
+        { ...terms, expiryBlock },
+        { allowed: [collateralToken], block: nextBlock() }
+      ).find((check) => !check.ok)?.error?.name;
+    expect(failed(nextBlock())).toBe("ERR-BAD-DURATION");
+    expect(createLoan(nextBlock())).toBeErr(Cl.uint(errorCode("ERR-BAD-DURATION")));
+    expect(failed(nextBlock() + 1)).toBeUndefined();
+    expect(createLoan(nextBlock() + 1)).toBeOk(Cl.uint(1));
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Cl, deserializeCV, serializeCV } from "@stacks/transactions";
+import {
+  collateralForUsdRatio,
+  createFilePriceSource,
+  createOraclePriceSource,
+  createStaticPriceSource,
+  loanHealth,
+  riskLevel,
+} from "../frontend/src/prices";
+import { STATUS, type Loan } from "../frontend/src/stacks";
+import { CONFIG, DEPLOYER, loan, SBTC } from "./fixtures";
+
+const ASSETS = [{ symbol: "STX" }, { token: SBTC, symbol: "sBTC" }];
+
+// 1,000 STX borrowed against 0.05 sBTC, not yet funded.
+const request = (overrides: Partial<Loan> = {}) =>
+  loan({
+    lender: undefined,
+    principal_amount: 1_000_000_000n,
+    collateral_amount: 5_000_000n,
+    repay_amount: 1_100_000_000n,
+    status: STATUS.OPEN,
+    ...overrides,
+  });
+
+const decimals = (token?: string) => (token === SBTC ? 8 : token ? undefined : 6);
+
+describe("price sources", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("prices assets by contract ID or symbol from a static table", async () => {
+    const source = createStaticPriceSource({ STX: 2, [SBTC]: 60_000, sBTC: 1 });
+    expect(await source.fetchPrices(ASSETS)).toEqual({ STX: 2, [SBTC]: 60_000 });
+    expect(await createStaticPriceSource({ sBTC: 50_000 }).fetchPrices(ASSETS)).toEqual({
+      [SBTC]: 50_000,
+    });
+  });
+
+  it("loads a price file", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ STX: 1.5 }) });
+    vi.stubGlobal("fetch", fetchMock);
+    expect(await createFilePriceSource("/prices.json").fetchPrices(ASSETS)).toEqual({ STX: 1.5 });
+    expect(fetchMock).toHaveBeenCalledWith("/prices.json");
+
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: false, status: 404 }));
+    await expect(createFilePriceSource("/prices.json").fetchPrices(ASSETS)).rejects.toThrow("404");
+  });
+
+  it("reads scaled prices from an oracle contract and skips unpriced assets", async () => {
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: { body: string }) => {
+      const [asset] = JSON.parse(init.body).arguments as string[];
+      const result =
+        deserializeCV(asset).type === "none" ? Cl.ok(Cl.uint(150_000_000)) : Cl.error(Cl.uint(301));
+      return { ok: true, json: async () => ({ okay: true, ok: true, result: serializeCV(result) }) };
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const source = createOraclePriceSource(CONFIG, `${DEPLOYER}.price-oracle`);
+    expect(await source.fetchPrices(ASSETS)).toEqual({ STX: 1.5 });
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      `http://localhost:3999/v2/contracts/call-read/${DEPLOYER}/price-oracle/get-price`
+    );
+  });
+});
+
+describe("loan health", () => {
+  const prices = { STX: 1.5, [SBTC]: 60_000 };
+
+  it("values both sides in USD using each asset's decimals", () => {
+    // $1,500 asked against $3,000 of collateral.
+    expect(loanHealth(request(), prices, decimals)).toEqual({
+      debtUsd: 1_500,
+      collateralUsd: 3_000,
+      ltv: 0.5,
+      healthFactor: 1.6,
+      liquidatable: false,
+    });
+    expect(riskLevel(loanHealth(request(), prices, decimals))).toBe("low");
+  });
+
+  it("uses the outstanding balance for funded loans", () => {
+    const funded = request({ status: STATUS.FUNDED, amount_repaid: 100_000_000n });
+    expect(loanHealth(funded, prices, decimals)?.debtUsd).toBe(1_500);
+    const crashed = { ...prices, [SBTC]: 20_000 };
+    expect(riskLevel(loanHealth(funded, crashed, decimals))).toBe("high");
+    expect(riskLevel(loanHealth(funded, { ...prices, [SBTC]: 40_000 }, decimals))).toBe(
+      "moderate"
+    );
+  });
+
+  it("applies the loan's own liquidation ratio", () => {
+    // Liquidatable once collateral is worth less than 150% of the $1,650 owed.
+    const guarded = request({ status: STATUS.FUNDED, liquidation_ratio: 15_000n });
+    expect(loanHealth(guarded, prices, decimals)).toMatchObject({ liquidatable: false });
+    const dropped = loanHealth(guarded, { ...prices, [SBTC]: 30_000 }, decimals);
+    expect(dropped?.healthFactor).toBeCloseTo(1_500 / 1.5 / 1_650, 5);
+    expect(dropped?.liquidatable).toBe(true);
+  });
+
+  it("sizes collateral from the USD value of the principal", () => {
+    const stx = { decimals: 6, usd: 1.5 };
+    const sbtc = { decimals: 8, usd: 60_000 };
+    // 150% of $1,500 is $2,250, or 0.0375 sBTC.
+    expect(collateralForUsdRatio(1_000_000_000n, 15_000n, stx, sbtc)).toBe(3_750_000n);
+    expect(collateralForUsdRatio(3_750_000n, 10_000n, sbtc, stx)).toBe(1_500_000_000n);
+    // Rounded up so the ratio is never short.
+    expect(collateralForUsdRatio(1n, 10_000n, stx, sbtc)).toBe(1n);
+    expect(collateralForUsdRatio(1_000_000n, 15_000n, stx, { decimals: 8 })).toBeNull();
+    expect(collateralForUsdRatio(1_000_000n, 15_000n, stx, { decimals: 8, usd: 0 })).toBeNull();
+  });
+
+  it("returns no health without a price or known decimals", () => {
+    expect(loanHealth(request(), { STX: 1.5 }, decimals)).toBeNull();
+    expect(loanHealth(request(), prices, () => undefined)).toBeNull();
+    expect(riskLevel(null)).toBe("unknown");
+  });
+});
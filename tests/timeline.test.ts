@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Cl, serializeCV, type ClarityValue } from "@stacks/transactions";
+import {
+  fetchIndexedLoanTimeline,
+  fetchLoanTimeline,
+  timelineAmounts,
+  type LoanEvent,
+} from "../frontend/src/stacks";
+import { BORROWER, CONFIG, DEPLOYER, LENDER } from "./fixtures";
+
+const print = (fields: Record<string, ClarityValue>) => serializeCV(Cl.tuple(fields));
+
+const created = (loanId: number) =>
+  print({
+    event: Cl.stringAscii("create-loan"),
+    "loan-id": Cl.uint(loanId),
+    borrower: Cl.principal(BORROWER),
+    "principal-token": Cl.none(),
+    "principal-amount": Cl.uint(1000),
+    "collateral-token": Cl.some(Cl.principal(`${DEPLOYER}.sbtc-token`)),
+    "collateral-amount": Cl.uint(5000),
+    "repay-amount": Cl.uint(1100),
+    duration: Cl.uint(10),
+    "expiry-block": Cl.none(),
+    "grace-period": Cl.uint(0),
+    "late-fee-per-block": Cl.uint(0),
+  });
+
+const funded = (loanId: number) =>
+  print({
+    event: Cl.stringAscii("fund-loan"),
+    "loan-id": Cl.uint(loanId),
+    lender: Cl.principal(LENDER),
+    "start-block": Cl.uint(12),
+    "end-block": Cl.uint(22),
+  });
+
+const log = (txId: string, hex: string, eventIndex = 0) => ({
+  tx_id: txId,
+  event_index: eventIndex,
+  event_type: "smart_contract_log",
+  contract_log: { contract_id: `${DEPLOYER}.p2p-lending`, topic: "print", value: { hex } },
+});
+
+const confirmed = (txId: string, sender: string, blockHeight: number, burnBlockTime: number) => ({
+  tx_id: txId,
+  tx_status: "success",
+  sender_address: sender,
+  block_height: blockHeight,
+  tx_index: 0,
+  burn_block_time: burnBlockTime,
+});
+
+const TXS: Record<string, object> = {
+  "0xaa": confirmed("0xaa", BORROWER, 10, 1_700_000_000),
+  "0xbb": confirmed("0xbb", LENDER, 12, 1_700_001_200),
+};
+
+const stubApi = (events: object[]) => {
+  const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+    const txMatch = url.match(/\/extended\/v1\/tx\/(0x\w+)$/);
+    const body = txMatch ? TXS[txMatch[1]] : { results: events };
+    return { ok: true, status: 200, json: async () => body };
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+describe("loan timeline", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("collects a loan's events from the contract log in chain order", async () => {
+    const fetchMock = stubApi([
+      log("0xbb", funded(1)),
+      log("0xcc", created(2)),
+      log("0xaa", created(1)),
+    ]);
+
+    const { entries, complete } = await fetchLoanTimeline(CONFIG, 1);
+    expect(complete).toBe(true);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      `http://localhost:3999/extended/v1/contract/${DEPLOYER}.p2p-lending/events?limit=50&offset=0`
+    );
+    expect(entries.map((entry) => [entry.event.event, entry.blockHeight, entry.actor])).toEqual([
+      ["create-loan", 10, BORROWER],
+      ["fund-loan", 12, LENDER],
+    ]);
+    expect(entries[1]).toMatchObject({ txId: "0xbb", timestamp: 1_700_001_200 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("flags the timeline as incomplete when it runs out of pages before the create event", async () => {
+    stubApi([log("0xbb", funded(1)), log("0xbb", funded(3), 1)]);
+    const { entries, complete } = await fetchLoanTimeline(CONFIG, 1, { pageSize: 2, maxPages: 1 });
+    expect(complete).toBe(false);
+    expect(entries).toHaveLength(1);
+  });
+
+  it("reads indexed events and decodes their raw payloads", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        total: 1,
+        limit: 200,
+        offset: 0,
+        results: [
+          {
+            tx_id: "0xaa",
+            event_index: 0,
+            block_height: 10,
+            tx_index: 1,
+            burn_block_time: 5,
+            sender: BORROWER,
+            hex: created(1),
+          },
+        ],
+      }),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { entries } = await fetchIndexedLoanTimeline("http://localhost:3700", 1);
+    expect(fetchMock).toHaveBeenCalledWith("http://localhost:3700/loans/1/events?limit=200&offset=0");
+    expect(entries).toEqual([
+      expect.objectContaining({ txId: "0xaa", blockHeight: 10, timestamp: 5, actor: BORROWER }),
+    ]);
+    expect(entries[0].event.event).toBe("create-loan");
+  });
+
+  it("lists the assets each event moved", () => {
+    const loan = { principal_amount: 1000n, collateral_amount: 5000n };
+    const repay = (remaining: bigint, lateFee = 0n): LoanEvent => ({
+      event: "repay",
+      loan_id: 1,
+      borrower: BORROWER,
+      lender: LENDER,
+      amount: 300n,
+      late_fee: lateFee,
+      amount_repaid: 1100n - remaining,
+      remaining,
+    });
+    expect(timelineAmounts(repay(800n), loan)).toEqual([
+      { label: "Repaid", side: "principal", amount: 300n },
+    ]);
+    expect(timelineAmounts(repay(0n, 6n), loan)).toEqual([
+      { label: "Repaid", side: "principal", amount: 300n },
+      { label: "Late fee", side: "principal", amount: 6n },
+      { label: "Collateral released", side: "collateral", amount: 5000n },
+    ]);
+    const fund: LoanEvent = {
+      event: "fund-loan",
+      loan_id: 1,
+      lender: LENDER,
+      start_block: 1n,
+      end_block: 2n,
+    };
+    expect(timelineAmounts(fund, loan)).toEqual([
+      { label: "Principal lent", side: "principal", amount: 1000n },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Cl, serializeCV } from "@stacks/transactions";
+import {
+  createdLoanIdFromTx,
+  decodeLoanEvent,
+  decodeTransactionResult,
+  waitForTransaction,
+} from "../frontend/src/stacks";
+
+const tx = (status: string, result: Parameters<typeof serializeCV>[0]) => ({
+  tx_id: "0x01",
+  tx_status: status,
+  tx_result: { hex: serializeCV(result), repr: Cl.prettyPrint(result) },
+});
+
+describe("decodeTransactionResult", () => {
+  it("returns the ok value for successful calls", () => {
+    const confirmed = tx("success", Cl.ok(Cl.uint(7)));
+    expect(decodeTransactionResult(confirmed)).toEqual({ status: "success", result: Cl.uint(7) });
+    expect(createdLoanIdFromTx(confirmed)).toBe(7);
+  });
+
+  it("maps contract error codes to messages", () => {
+    expect(decodeTransactionResult(tx("abort_by_response", Cl.error(Cl.uint(106))))).toEqual({
+      status: "failed",
+      code: 106,
+      message: "Loan is past due",
+    });
+    expect(decodeTransactionResult(tx("abort_by_response", Cl.error(Cl.uint(999))))).toEqual({
+      status: "failed",
+      code: 999,
+      message: "Contract error u999",
+    });
+    expect(() => createdLoanIdFromTx(tx("abort_by_response", Cl.error(Cl.uint(115))))).toThrow(
+      "Asset is not whitelisted"
+    );
+  });
+
+  it("reports post-condition aborts and dropped transactions", () => {
+    expect(decodeTransactionResult(tx("abort_by_post_condition", Cl.ok(Cl.bool(true))))).toMatchObject({
+      status: "failed",
+      message: expect.stringContaining("Post-condition"),
+    });
+    expect(
+      decodeTransactionResult({ tx_id: "0x02", tx_status: "dropped_replace_by_fee" })
+    ).toEqual({ status: "failed", message: "dropped_replace_by_fee" });
+  });
+});
+
+describe("decodeLoanEvent", () => {
+  it("decodes serialized print payloads and ignores unrelated ones", () => {
+    const payload = Cl.tuple({
+      event: Cl.stringAscii("cancel-loan"),
+      "loan-id": Cl.uint(4),
+      borrower: Cl.principal("ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5"),
+    });
+    expect(decodeLoanEvent(serializeCV(payload))).toEqual({
+      event: "cancel-loan",
+      loan_id: 4,
+      borrower: "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5",
+    });
+    expect(decodeLoanEvent(Cl.tuple({ event: Cl.stringAscii("mint") }))).toBeNull();
+    expect(decodeLoanEvent(Cl.uint(1))).toBeNull();
+  });
+});
+
+describe("waitForTransaction", () => {
+  const API = { apiUrl: "http://localhost:3999" };
+  const respond = (body: object) => ({ ok: true, status: 200, json: async () => body });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("backs off through dropped connections and server errors", async () => {
+    vi.useFakeTimers();
+    const confirmed = { tx_id: "0x01", tx_status: "success" };
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce({ ok: false, status: 503 })
+      .mockResolvedValueOnce(respond({ tx_id: "0x01", tx_status: "pending" }))
+      .mockResolvedValueOnce(respond(confirmed));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const waiting = waitForTransaction(API, "0x01", { intervalMs: 1000 });
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    // Doubles after the second failure, then resets once the API answers.
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await waiting).toEqual(confirmed);
+  });
+
+  it("gives up without failing when the deadline passes", async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(respond({ tx_status: "pending" })));
+    const waiting = waitForTransaction(API, "0x01", { intervalMs: 1000, timeoutMs: 5000 });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await waiting).toBeNull();
+  });
+
+  it("stops on API errors that will not clear up", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: false, status: 400 }));
+    await expect(waitForTransaction(API, "0x01")).rejects.toThrow("400");
+  });
+});